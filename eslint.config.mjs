@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Bundled by scripts/build-upload-sw.mjs
+    "public/upload-sw.js",
   ]),
 ]);
 
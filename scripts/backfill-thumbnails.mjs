@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Backfill thumbnails
+ * Generates the ~400px JPEG thumbnail for photos uploaded before the client
+ * created one, and records it in photos.thumb_path
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { DECODABLE_MIMES, decodeImage, renderThumbnail } from './lib/render.mjs';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ Required environment variables:');
+  console.error('   NEXT_PUBLIC_SUPABASE_URL');
+  console.error('   SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+const STORAGE_BUCKET = 'photobooze-images';
+const DRY_RUN = process.argv.includes('--dry-run');
+const PAGE_SIZE = 100;
+
+/**
+ * Pick the smallest stored rendition node-canvas can decode.
+ */
+function pickSource(photo) {
+  if (DECODABLE_MIMES.includes(photo.tv_mime)) {
+    return { path: photo.tv_path, mime: photo.tv_mime };
+  }
+  if (DECODABLE_MIMES.includes(photo.original_mime)) {
+    return { path: photo.original_path, mime: photo.original_mime };
+  }
+  return null;
+}
+
+async function backfillPhoto(photo) {
+  const source = pickSource(photo);
+  if (!source) {
+    console.warn(`   ⚠️  ${photo.id}: no decodable rendition (${photo.original_mime}, ${photo.tv_mime}), skipped`);
+    return 'skipped';
+  }
+
+  const thumbPath = `parties/${photo.party_id}/thumb/${photo.id}.jpg`;
+  if (DRY_RUN) {
+    console.log(`   • ${photo.id}: ${source.path} → ${thumbPath}`);
+    return 'created';
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(source.path);
+
+  if (downloadError || !file) {
+    console.error(`   ❌ ${photo.id}: failed to download ${source.path}:`, downloadError?.message);
+    return 'failed';
+  }
+
+  let thumb;
+  try {
+    thumb = renderThumbnail(await decodeImage(Buffer.from(await file.arrayBuffer()), source.mime));
+  } catch (err) {
+    console.error(`   ❌ ${photo.id}: failed to render thumbnail:`, err.message);
+    return 'failed';
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(thumbPath, thumb, { contentType: 'image/jpeg', upsert: true });
+
+  if (uploadError) {
+    console.error(`   ❌ ${photo.id}: failed to upload thumbnail:`, uploadError.message);
+    return 'failed';
+  }
+
+  const { error: updateError } = await supabase
+    .from('photos')
+    .update({ thumb_path: thumbPath })
+    .eq('id', photo.id);
+
+  if (updateError) {
+    console.error(`   ❌ ${photo.id}: failed to record thumbnail:`, updateError.message);
+    return 'failed';
+  }
+
+  console.log(`   ✅ ${photo.id}: ${(thumb.length / 1024).toFixed(1)} KB`);
+  return 'created';
+}
+
+async function main() {
+  console.log('🖼️  Backfilling thumbnails...');
+  console.log(`   Mode: ${DRY_RUN ? 'DRY RUN (no changes will be made)' : 'LIVE (thumbnails will be uploaded)'}`);
+  console.log('');
+
+  const counts = { created: 0, skipped: 0, failed: 0 };
+  // Photos that are done drop out of the query, so only skipped and failed ones need paging past
+  let offset = 0;
+
+  while (true) {
+    const { data: photos, error } = await supabase
+      .from('photos')
+      .select('id, party_id, original_path, original_mime, tv_path, tv_mime')
+      .is('thumb_path', null)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('❌ Failed to fetch photos:', error.message);
+      process.exit(1);
+    }
+
+    if (!photos || photos.length === 0) {
+      break;
+    }
+
+    for (const photo of photos) {
+      const outcome = await backfillPhoto(photo);
+      counts[outcome]++;
+      if (outcome !== 'created' || DRY_RUN) {
+        offset++;
+      }
+    }
+  }
+
+  console.log('');
+  console.log(`📊 ${DRY_RUN ? 'Would create' : 'Created'} ${counts.created} thumbnails (${counts.skipped} skipped, ${counts.failed} failed)`);
+
+  if (DRY_RUN && counts.created > 0) {
+    console.log('');
+    console.log('💡 Run without --dry-run to actually create these thumbnails');
+  }
+
+  if (counts.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Backfill failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+/**
+ * Bundle the upload service worker (src/lib/upload-queue/service-worker.ts) to
+ * public/upload-sw.js, so it shares the upload queue code with the page.
+ * Runs before `dev` and `build`; pass --watch to rebuild while editing the queue.
+ */
+
+import { build, context } from 'esbuild';
+
+const options = {
+  entryPoints: ['src/lib/upload-queue/service-worker.ts'],
+  outfile: 'public/upload-sw.js',
+  bundle: true,
+  format: 'iife',
+  target: 'es2020',
+  tsconfig: 'tsconfig.json',
+  banner: { js: '// Generated from src/lib/upload-queue by scripts/build-upload-sw.mjs - do not edit' },
+  logLevel: 'info',
+};
+
+if (process.argv.includes('--watch')) {
+  const ctx = await context(options);
+  await ctx.watch();
+} else {
+  await build(options);
+}
@@ -106,6 +106,28 @@ async function main() {
       filesToDelete.push(...paths);
       totalFiles += tvFiles.length;
     }
+
+    // List files in thumb/ subdirectory
+    const { data: thumbFiles } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(`${partyFolder}/thumb`, { limit: 1000 });
+    
+    if (thumbFiles && thumbFiles.length > 0) {
+      const paths = thumbFiles.map(f => `${partyFolder}/thumb/${f.name}`);
+      filesToDelete.push(...paths);
+      totalFiles += thumbFiles.length;
+    }
+
+    // List files in overlay/ subdirectory
+    const { data: overlayFiles } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(`${partyFolder}/overlay`, { limit: 1000 });
+    
+    if (overlayFiles && overlayFiles.length > 0) {
+      const paths = overlayFiles.map(f => `${partyFolder}/overlay/${f.name}`);
+      filesToDelete.push(...paths);
+      totalFiles += overlayFiles.length;
+    }
   }
 
   console.log(`📊 Total orphaned files: ${totalFiles}`);
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * Create a host account (or reset its password)
+ * Hosts sign in at /admin/login and only see the parties they own.
+ *
+ * Usage:
+ *   HOST_PASSWORD=... node scripts/create-host.mjs host@example.com [--name "Alex"] [--claim-unowned]
+ *
+ * --claim-unowned assigns every party without a host to this account
+ * (parties created before host accounts existed).
+ */
+
+import { randomBytes, scrypt } from 'crypto';
+import { createInterface } from 'readline/promises';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ Required environment variables:');
+  console.error('   NEXT_PUBLIC_SUPABASE_URL');
+  console.error('   SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+const args = process.argv.slice(2);
+const CLAIM_UNOWNED = args.includes('--claim-unowned');
+const nameIndex = args.indexOf('--name');
+const displayName = nameIndex !== -1 ? args[nameIndex + 1] : null;
+const email = args.find((arg, i) => !arg.startsWith('--') && i !== nameIndex + 1)?.trim().toLowerCase();
+
+// Must stay in sync with src/lib/auth/passwords.ts
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function hashPassword(password) {
+  const salt = randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, 32, { N, r, p, maxmem: 256 * N * r }, (err, key) => {
+      if (err) reject(err);
+      else resolve(['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$'));
+    });
+  });
+}
+
+async function readPassword() {
+  if (process.env.HOST_PASSWORD) {
+    return process.env.HOST_PASSWORD;
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const password = await rl.question('🔑 Password: ');
+  rl.close();
+  return password;
+}
+
+async function main() {
+  if (!email || !email.includes('@')) {
+    console.error('❌ Usage: node scripts/create-host.mjs <email> [--name "Name"] [--claim-unowned]');
+    process.exit(1);
+  }
+
+  const password = await readPassword();
+  if (!password || password.length < 8) {
+    console.error('❌ Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  const { data: host, error } = await supabase
+    .from('hosts')
+    .upsert(
+      { email, password_hash: passwordHash, ...(displayName ? { display_name: displayName } : {}) },
+      { onConflict: 'email' }
+    )
+    .select('id, email')
+    .single();
+
+  if (error) {
+    console.error('❌ Failed to save host:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ Host ready: ${host.email} (${host.id})`);
+
+  if (CLAIM_UNOWNED) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('parties')
+      .update({ host_id: host.id })
+      .is('host_id', null)
+      .select('id');
+
+    if (claimError) {
+      console.error('❌ Failed to claim unowned parties:', claimError.message);
+      process.exit(1);
+    }
+
+    console.log(`🎉 Claimed ${claimed.length} unowned parties`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Unexpected error:', error);
+  process.exit(1);
+});
@@ -72,26 +72,26 @@ try {
   if (existingBucket) {
     console.log('✅ Storage bucket already exists');
     
-    // Ensure the bucket is public
-    if (!existingBucket.public) {
-      console.log('⚠️  Bucket is not public, updating...');
+    // Ensure the bucket is private (files are read through signed URLs)
+    if (existingBucket.public) {
+      console.log('⚠️  Bucket is public, updating...');
       const { error: updateError } = await supabase.storage.updateBucket(bucketName, {
-        public: true,
+        public: false,
         fileSizeLimit: 26214400,
-        allowedMimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/heic', 'image/heif'],
+        allowedMimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif', 'image/gif', 'image/heic', 'image/heif', 'video/mp4', 'video/quicktime', 'video/webm'],
       });
       
       if (updateError) {
-        console.error('❌ Error updating bucket to public:', updateError.message);
+        console.error('❌ Error making the bucket private:', updateError.message);
         process.exit(1);
       }
-      console.log('✅ Bucket updated to public');
+      console.log('✅ Bucket made private');
     }
   } else {
     const { error } = await supabase.storage.createBucket(bucketName, {
-      public: true,
+      public: false,
       fileSizeLimit: 26214400, // 25MB
-      allowedMimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/heic', 'image/heif'],
+      allowedMimeTypes: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif', 'image/gif', 'image/heic', 'image/heif', 'video/mp4', 'video/quicktime', 'video/webm'],
     });
 
     if (error) {
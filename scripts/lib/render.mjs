@@ -0,0 +1,240 @@
+/**
+ * Server-side rendition rendering with node-canvas, shared by the rendition scripts.
+ * Mirrors the client pipeline (src/lib/image/pipeline.ts) closely enough that
+ * regenerated files look like freshly uploaded ones.
+ */
+
+import { createCanvas, loadImage } from 'canvas';
+
+// Matches src/lib/constants/image.ts
+export const TV_MAX_WIDTH = 1920;
+export const TV_MAX_HEIGHT = 1080;
+export const TV_QUALITY = 0.8;
+export const THUMB_MAX_SIZE = 400;
+export const THUMB_QUALITY = 0.75;
+export const MIN_TV_SAVINGS_BYTES = 300 * 1024;
+
+// Matches OVERLAY in src/lib/constants/overlay.ts
+export const OVERLAY_TEXT_SIZE_RATIO = 0.05;
+
+// Formats node-canvas can decode
+export const DECODABLE_MIMES = ['image/jpeg', 'image/png'];
+
+// Matches CROP_ASPECTS in src/lib/constants/edit.ts (width / height after rotating)
+const CROP_RATIOS = { '1:1': 1, '4:3': 4 / 3, '3:4': 3 / 4, '16:9': 16 / 9, '9:16': 9 / 16 };
+
+/**
+ * Read the EXIF orientation of a JPEG (1 when absent).
+ * Originals keep the tag, and node-canvas doesn't apply it.
+ */
+export function readJpegOrientation(buffer) {
+  if (buffer.readUInt16BE(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xda) break; // Start of scan: no more metadata
+
+    if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      const little = buffer.toString('latin1', tiff, tiff + 2) === 'II';
+      const u16 = (at) => (little ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+      const u32 = (at) => (little ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+
+      const ifd = tiff + u32(tiff + 4);
+      const entries = u16(ifd);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (u16(entry) === 0x0112) {
+          const orientation = u16(entry + 8);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+/**
+ * Decode a stored file, remembering the EXIF orientation to apply when drawing.
+ */
+export async function decodeImage(buffer, mime) {
+  const image = await loadImage(buffer);
+  return { image, orientation: mime === 'image/jpeg' ? readJpegOrientation(buffer) : 1 };
+}
+
+/**
+ * Work out the crop of a guest edit (photos.edit) on an upright width x height
+ * image and the size it comes out at. Mirrors src/lib/image/edit.ts.
+ */
+function resolveEdit(edit, width, height) {
+  const turned = edit.rotation === 90 || edit.rotation === 270;
+  const ratio = CROP_RATIOS[edit.aspect] ?? null;
+
+  let crop = { x: 0, y: 0, width: 1, height: 1 };
+  if (ratio) {
+    const target = turned ? 1 / ratio : ratio;
+    crop = width / height > target
+      ? { x: 0, y: 0, width: (height * target) / width, height: 1 }
+      : { x: 0, y: 0, width: 1, height: width / target / height };
+    crop.x = (1 - crop.width) / 2;
+    crop.y = (1 - crop.height) / 2;
+  }
+
+  const croppedWidth = Math.max(1, Math.round(width * crop.width));
+  const croppedHeight = Math.max(1, Math.round(height * crop.height));
+  return {
+    crop,
+    turned,
+    width: turned ? croppedHeight : croppedWidth,
+    height: turned ? croppedWidth : croppedHeight,
+  };
+}
+
+/**
+ * Apply a guest edit's colour filter to the canvas. Mirrors src/lib/image/edit.ts.
+ */
+function applyFilter(ctx, width, height, filter) {
+  if (!filter || filter === 'none') return;
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const data = pixels.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    switch (filter) {
+      case 'bw': {
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        data[i] = luma;
+        data[i + 1] = luma;
+        data[i + 2] = luma;
+        break;
+      }
+      case 'warm':
+        data[i] = r * 1.08 + 10;
+        data[i + 1] = g * 1.02 + 4;
+        data[i + 2] = b * 0.86;
+        break;
+      case 'vintage': {
+        const sepiaR = 0.393 * r + 0.769 * g + 0.189 * b;
+        const sepiaG = 0.349 * r + 0.686 * g + 0.168 * b;
+        const sepiaB = 0.272 * r + 0.534 * g + 0.131 * b;
+        data[i] = (0.6 * sepiaR + 0.4 * r) * 0.85 + 28;
+        data[i + 1] = (0.6 * sepiaG + 0.4 * g) * 0.85 + 22;
+        data[i + 2] = (0.6 * sepiaB + 0.4 * b) * 0.85 + 18;
+        break;
+      }
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+}
+
+/**
+ * Decode a party overlay's frame and return a function drawing the overlay
+ * (frame stretched over the image, text lines along the bottom, the first one
+ * largest) at any size. Mirrors src/lib/image/overlay.ts.
+ */
+export async function loadOverlay(frameBuffer, lines) {
+  const frame = frameBuffer ? await loadImage(frameBuffer) : null;
+
+  return (ctx, width, height) => {
+    if (frame) {
+      ctx.drawImage(frame, 0, 0, width, height);
+    }
+
+    const size = Math.round(Math.min(width, height) * OVERLAY_TEXT_SIZE_RATIO);
+    let bottom = height - size;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+    ctx.shadowBlur = size / 4;
+
+    // Bottom-up, so the lines stack above the margin
+    [...lines].reverse().forEach((line, index, reversed) => {
+      const lineSize = index === reversed.length - 1 ? size : Math.round(size * 0.7);
+      ctx.font = `bold ${lineSize}px sans-serif`;
+      ctx.fillText(line, width / 2, bottom, width - size * 2);
+      bottom -= lineSize * 1.3;
+    });
+  };
+}
+
+/**
+ * Draw a decoded image upright, with the guest's edit if any, fitted within
+ * maxWidth x maxHeight (never upscaled), stamp the overlay (from loadOverlay)
+ * on top if given, and encode it as JPEG.
+ */
+export function renderJpeg({ image, orientation }, maxWidth, maxHeight, quality, edit = null, overlay = null) {
+  const rotated = orientation >= 5;
+  const uprightWidth = rotated ? image.height : image.width;
+  const uprightHeight = rotated ? image.width : image.height;
+  const resolved = edit ? resolveEdit(edit, uprightWidth, uprightHeight) : null;
+  const outputWidth = resolved ? resolved.width : uprightWidth;
+  const outputHeight = resolved ? resolved.height : uprightHeight;
+
+  const scale = Math.min(maxWidth / outputWidth, maxHeight / outputHeight, 1);
+  const width = Math.round(outputWidth * scale);
+  const height = Math.round(outputHeight * scale);
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.quality = 'best';
+
+  // Upright size to draw at: the output, or the whole photo around the crop
+  let fullWidth = width;
+  let fullHeight = height;
+  if (resolved) {
+    switch (edit.rotation) {
+      case 90: ctx.transform(0, 1, -1, 0, width, 0); break;
+      case 180: ctx.transform(-1, 0, 0, -1, width, height); break;
+      case 270: ctx.transform(0, -1, 1, 0, 0, height); break;
+    }
+    const [cropWidth, cropHeight] = resolved.turned ? [height, width] : [width, height];
+    fullWidth = cropWidth / resolved.crop.width;
+    fullHeight = cropHeight / resolved.crop.height;
+    ctx.translate(-resolved.crop.x * fullWidth, -resolved.crop.y * fullHeight);
+  }
+
+  // Size as stored, before rotating
+  const [w, h] = rotated ? [fullHeight, fullWidth] : [fullWidth, fullHeight];
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(image, 0, 0, w, h);
+
+  if (resolved) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    applyFilter(ctx, width, height, edit.filter);
+  }
+
+  if (overlay) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    overlay(ctx, width, height);
+  }
+
+  return canvas.toBuffer('image/jpeg', { quality });
+}
+
+export function renderTv(decoded, edit = null, overlay = null) {
+  return renderJpeg(decoded, TV_MAX_WIDTH, TV_MAX_HEIGHT, TV_QUALITY, edit, overlay);
+}
+
+export function renderThumbnail(decoded, edit = null, overlay = null) {
+  return renderJpeg(decoded, THUMB_MAX_SIZE, THUMB_MAX_SIZE, THUMB_QUALITY, edit, overlay);
+}
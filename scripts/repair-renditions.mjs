@@ -0,0 +1,344 @@
+#!/usr/bin/env node
+
+/**
+ * Repair renditions
+ * Finds photos without a proper TV version (shared with the original after a failed
+ * TV upload, missing from storage, or oversized) or with a missing thumbnail, and
+ * regenerates them from the original with node-canvas, applying the guest's edit
+ * (photos.edit) and the party overlay like the client did. The overlay is the
+ * party's current one, which may have changed since the photo was taken
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  DECODABLE_MIMES,
+  MIN_TV_SAVINGS_BYTES,
+  decodeImage,
+  loadOverlay,
+  renderThumbnail,
+  renderTv,
+} from './lib/render.mjs';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('❌ Required environment variables:');
+  console.error('   NEXT_PUBLIC_SUPABASE_URL');
+  console.error('   SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+const STORAGE_BUCKET = 'photobooze-images';
+const DRY_RUN = process.argv.includes('--dry-run');
+const partyArg = process.argv.indexOf('--party');
+const PARTY_ID = partyArg !== -1 ? process.argv[partyArg + 1] : null;
+const PAGE_SIZE = 100;
+
+// A TV version above this is larger than the client would ever produce
+const TV_MAX_BYTES = 1.5 * 1024 * 1024;
+
+const ISSUE_LABELS = {
+  'tv-shared': 'TV version shared with the original',
+  'tv-missing': 'TV file missing from storage',
+  'tv-oversized': 'TV version oversized',
+  'thumb-missing': 'Thumbnail file missing from storage',
+};
+
+/**
+ * List every file stored for a party, as a set of paths.
+ */
+async function listPartyFiles(partyId) {
+  const files = new Set();
+
+  for (const folder of ['original', 'tv', 'thumb']) {
+    const prefix = `parties/${partyId}/${folder}`;
+    for (let offset = 0; ; offset += 1000) {
+      const { data, error } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .list(prefix, { limit: 1000, offset });
+
+      if (error) {
+        throw new Error(`Failed to list ${prefix}: ${error.message}`);
+      }
+      data.forEach(f => files.add(`${prefix}/${f.name}`));
+      if (data.length < 1000) break;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Load a party's overlay, as { draw, onOriginal }, or null when it has none.
+ */
+async function loadPartyOverlay(partyId) {
+  const { data: party, error } = await supabase
+    .from('parties')
+    .select('overlay_frame_path, overlay_text, overlay_date, overlay_on_original')
+    .eq('id', partyId)
+    .single();
+
+  if (error || !party) {
+    throw new Error(`Failed to load the party overlay: ${error?.message}`);
+  }
+
+  // Same lines as the client: the text, then the date (midnight local time, so it doesn't shift)
+  const lines = [];
+  if (party.overlay_text) {
+    lines.push(party.overlay_text);
+  }
+  if (party.overlay_date) {
+    lines.push(new Date(`${party.overlay_date}T00:00:00`).toLocaleDateString(undefined, { dateStyle: 'long' }));
+  }
+
+  let frame = null;
+  if (party.overlay_frame_path) {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(party.overlay_frame_path);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download ${party.overlay_frame_path}: ${downloadError?.message}`);
+    }
+    frame = Buffer.from(await file.arrayBuffer());
+  }
+
+  if (!frame && lines.length === 0) {
+    return null;
+  }
+  return { draw: await loadOverlay(frame, lines), onOriginal: party.overlay_on_original };
+}
+
+/**
+ * Work out what is wrong with a photo's renditions.
+ */
+function diagnose(photo, files) {
+  const issues = [];
+
+  // Animated GIFs (boomerangs) are their own TV version on purpose
+  if (photo.tv_path === photo.original_path) {
+    if (photo.original_mime !== 'image/gif') {
+      issues.push('tv-shared');
+    }
+  } else if (!files.has(photo.tv_path)) {
+    issues.push('tv-missing');
+  } else if ((photo.tv_bytes ?? 0) > TV_MAX_BYTES) {
+    issues.push('tv-oversized');
+  }
+
+  if (photo.thumb_path && !files.has(photo.thumb_path)) {
+    issues.push('thumb-missing');
+  }
+
+  return issues;
+}
+
+async function upload(path, buffer) {
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, buffer, { contentType: 'image/jpeg', upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Regenerate the broken renditions of one photo.
+ * Returns the issues fixed, plus the ones left alone and why.
+ */
+async function repairPhoto(photo, issues, overlay) {
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(photo.original_path);
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download ${photo.original_path}: ${downloadError?.message}`);
+  }
+
+  const decoded = await decodeImage(Buffer.from(await file.arrayBuffer()), photo.original_mime);
+  const fixed = [];
+  const kept = [];
+
+  // An original stamped by the client already carries the overlay
+  const tvOverlay = overlay && !overlay.onOriginal ? overlay.draw : null;
+
+  const tvIssue = issues.find(issue => issue.startsWith('tv-'));
+  if (tvIssue) {
+    const tv = renderTv(decoded, photo.edit, tvOverlay);
+
+    // The client shares small originals with the TV on purpose; only split them when it pays off
+    // (edited or overlaid photos always need their own TV version)
+    if (tvIssue === 'tv-shared' && !photo.edit && !tvOverlay && tv.length > (photo.original_bytes ?? 0) - MIN_TV_SAVINGS_BYTES) {
+      kept.push({ issue: tvIssue, reason: 'original is already TV-sized' });
+    } else {
+      const tvPath = `parties/${photo.party_id}/tv/${photo.id}.jpg`;
+
+      if (!DRY_RUN) {
+        await upload(tvPath, tv);
+
+        const { error: updateError } = await supabase
+          .from('photos')
+          .update({ tv_path: tvPath, tv_mime: 'image/jpeg', tv_bytes: tv.length, tv_jpeg_path: null })
+          .eq('id', photo.id);
+
+        if (updateError) {
+          throw new Error(`Failed to record TV version: ${updateError.message}`);
+        }
+
+        // An oversized AVIF/WebP version is replaced by the JPEG; don't leave it behind
+        if (photo.tv_path !== photo.original_path && photo.tv_path !== tvPath) {
+          await supabase.storage.from(STORAGE_BUCKET).remove([photo.tv_path]);
+        }
+      }
+
+      fixed.push({ issue: tvIssue, detail: `${(tv.length / 1024).toFixed(1)} KB` });
+    }
+  }
+
+  if (issues.includes('thumb-missing')) {
+    const thumb = renderThumbnail(decoded, photo.edit, tvOverlay);
+    if (!DRY_RUN) {
+      await upload(photo.thumb_path, thumb);
+    }
+    fixed.push({ issue: 'thumb-missing', detail: `${(thumb.length / 1024).toFixed(1)} KB` });
+  }
+
+  return { fixed, kept };
+}
+
+async function main() {
+  console.log('🔧 Repairing photo renditions...');
+  console.log(`   Mode: ${DRY_RUN ? 'DRY RUN (no changes will be made)' : 'LIVE (renditions will be regenerated)'}`);
+  if (PARTY_ID) {
+    console.log(`   Party: ${PARTY_ID}`);
+  }
+  console.log('');
+
+  const report = {
+    scanned: 0,
+    healthy: 0,
+    fixed: Object.fromEntries(Object.keys(ISSUE_LABELS).map(issue => [issue, 0])),
+    kept: 0,
+    unrepairable: [],
+    failed: [],
+  };
+  const partyFiles = new Map();
+  const partyOverlays = new Map();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('photos')
+      .select('id, party_id, original_path, original_mime, original_bytes, tv_path, tv_mime, tv_bytes, thumb_path, edit')
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (PARTY_ID) {
+      query = query.eq('party_id', PARTY_ID);
+    }
+
+    const { data: photos, error } = await query;
+
+    if (error) {
+      console.error('❌ Failed to fetch photos:', error.message);
+      process.exit(1);
+    }
+
+    if (!photos || photos.length === 0) {
+      break;
+    }
+
+    for (const photo of photos) {
+      report.scanned++;
+
+      try {
+        if (!partyFiles.has(photo.party_id)) {
+          partyFiles.set(photo.party_id, await listPartyFiles(photo.party_id));
+        }
+        const files = partyFiles.get(photo.party_id);
+
+        const issues = diagnose(photo, files);
+        if (issues.length === 0) {
+          report.healthy++;
+          continue;
+        }
+
+        if (!files.has(photo.original_path)) {
+          console.warn(`   ⚠️  ${photo.id}: original missing from storage, nothing to regenerate from`);
+          report.unrepairable.push(photo.id);
+          continue;
+        }
+        if (!DECODABLE_MIMES.includes(photo.original_mime)) {
+          console.warn(`   ⚠️  ${photo.id}: can't decode ${photo.original_mime} originals (${issues.join(', ')})`);
+          report.unrepairable.push(photo.id);
+          continue;
+        }
+
+        if (!partyOverlays.has(photo.party_id)) {
+          partyOverlays.set(photo.party_id, await loadPartyOverlay(photo.party_id));
+        }
+        const overlay = partyOverlays.get(photo.party_id);
+
+        // The client cut the edit from the original before stamping it; cutting it from
+        // the stamped original would crop the frame and text
+        if (overlay?.onOriginal && photo.edit) {
+          console.warn(`   ⚠️  ${photo.id}: edited photo with the overlay stamped on its original, can't redo the edit (${issues.join(', ')})`);
+          report.unrepairable.push(photo.id);
+          continue;
+        }
+
+        const { fixed, kept } = await repairPhoto(photo, issues, overlay);
+        for (const { issue, detail } of fixed) {
+          console.log(`   ✅ ${photo.id}: ${ISSUE_LABELS[issue]} → regenerated (${detail})`);
+          report.fixed[issue]++;
+        }
+        for (const { issue, reason } of kept) {
+          console.log(`   • ${photo.id}: ${ISSUE_LABELS[issue]} → kept, ${reason}`);
+          report.kept++;
+        }
+      } catch (err) {
+        console.error(`   ❌ ${photo.id}: ${err.message}`);
+        report.failed.push(photo.id);
+      }
+    }
+  }
+
+  console.log('');
+  console.log(`📊 Scanned ${report.scanned} photos, ${report.healthy} healthy`);
+  for (const [issue, count] of Object.entries(report.fixed)) {
+    if (count > 0) {
+      console.log(`   ${DRY_RUN ? 'Would fix' : 'Fixed'} ${count} × ${ISSUE_LABELS[issue]}`);
+    }
+  }
+  if (report.kept > 0) {
+    console.log(`   Kept ${report.kept} shared TV versions (already TV-sized)`);
+  }
+  if (report.unrepairable.length > 0) {
+    console.log(`   Unrepairable: ${report.unrepairable.join(', ')}`);
+  }
+  if (report.failed.length > 0) {
+    console.log(`   Failed: ${report.failed.join(', ')}`);
+  }
+
+  if (DRY_RUN && Object.values(report.fixed).some(count => count > 0)) {
+    console.log('');
+    console.log('💡 Run without --dry-run to actually regenerate these renditions');
+  }
+
+  if (report.failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Repair failed:', err);
+  process.exit(1);
+});
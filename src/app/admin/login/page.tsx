@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Container,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Card,
+  CardContent,
+} from '@mui/material';
+import { Login as LoginIcon } from '@mui/icons-material';
+import styles from './page.module.css';
+
+export default function AdminLoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogin = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to sign in');
+      }
+
+      router.replace('/admin');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setLoading(false);
+    }
+  }, [email, password, router]);
+
+  return (
+    <Container maxWidth="sm" className={styles.container}>
+      <Card className={styles.card}>
+        <CardContent className={styles.cardContent}>
+          <Box className={styles.header}>
+            <Box
+              component="img"
+              src="/logo.png"
+              alt="PhotoBooze"
+              sx={{ height: 96, width: 'auto', mb: 2 }}
+            />
+            <Typography variant="h4" component="h1" gutterBottom>
+              Host Sign In
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Sign in to manage your parties
+            </Typography>
+          </Box>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)} className={styles.alert}>
+              {error}
+            </Alert>
+          )}
+
+          <Box component="form" onSubmit={(e) => { e.preventDefault(); handleLogin(); }} className={styles.form}>
+            <TextField
+              fullWidth
+              type="email"
+              label="Email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={loading}
+              required
+              autoFocus
+            />
+            <TextField
+              fullWidth
+              type="password"
+              label="Password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={loading}
+              required
+            />
+
+            <Button
+              type="submit"
+              variant="contained"
+              size="large"
+              fullWidth
+              disabled={loading || !email.trim() || !password}
+              startIcon={loading ? <CircularProgress size={20} color="inherit" /> : <LoginIcon />}
+            >
+              {loading ? 'Signing in...' : 'Sign In'}
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Container>
+  );
+}
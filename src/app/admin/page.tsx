@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import {
   Container,
   Box,
@@ -18,6 +19,7 @@ import {
   TextField,
   Skeleton,
   Switch,
+  Badge,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -32,12 +34,25 @@ import {
   EmojiEvents as TrophyIcon,
   Lock as LockIcon,
   LockOpen as LockOpenIcon,
+  Shield as ShieldIcon,
+  Logout as LogoutIcon,
+  Group as GroupIcon,
+  FilterFrames as FrameIcon,
+  Storage as StorageIcon,
+  People as PeopleIcon,
 } from '@mui/icons-material';
 import QRCode from 'qrcode';
 import styles from './page.module.css';
 import PartyStatsModal from '@/components/PartyStatsModal';
+import ModerationModal from '@/components/ModerationModal';
+import CoHostsModal from '@/components/CoHostsModal';
+import OverlayModal from '@/components/OverlayModal';
+import UploadLimitsModal from '@/components/UploadLimitsModal';
+import JoinTokensModal from '@/components/JoinTokensModal';
+import GuestsModal from '@/components/GuestsModal';
 import PinEntryModal from '@/components/PinEntryModal';
 import { generatePartyQrCode } from '@/lib/utils/qrcode';
+import type { ModerationMode, PartyHostRole } from '@/types/database';
 
 interface Party {
   id: string;
@@ -45,13 +60,23 @@ interface Party {
   status: 'active' | 'closed';
   createdAt: string;
   joinToken?: string;
+  joinTokenLabel?: string;
   photoCount?: number;
   uploaderCount?: number;
   countdownTarget?: string | null;
   requiresPin?: boolean;
+  moderationMode?: ModerationMode;
+  pendingCount?: number;
+  role?: PartyHostRole;
+}
+
+interface HostSession {
+  hostId: string;
+  email: string;
 }
 
 export default function AdminPage() {
+  const router = useRouter();
   const [parties, setParties] = useState<Party[]>([]);
   const [loading, setLoading] = useState(false);
   const [isLoadingParties, setIsLoadingParties] = useState(true);
@@ -60,14 +85,26 @@ export default function AdminPage() {
   const [editingPartyId, setEditingPartyId] = useState<string | null>(null);
   const [editedName, setEditedName] = useState<string>('');
   const [statsModalParty, setStatsModalParty] = useState<Party | null>(null);
+  const [moderationPartyId, setModerationPartyId] = useState<string | null>(null);
+  const [hostsModalPartyId, setHostsModalPartyId] = useState<string | null>(null);
+  const [overlayPartyId, setOverlayPartyId] = useState<string | null>(null);
+  const [limitsPartyId, setLimitsPartyId] = useState<string | null>(null);
+  const [tokensPartyId, setTokensPartyId] = useState<string | null>(null);
+  const [guestsPartyId, setGuestsPartyId] = useState<string | null>(null);
+  const [hostSession, setHostSession] = useState<HostSession | null>(null);
   const [pinModal, setPinModal] = useState<{ open: boolean; partyId: string | null; mode: 'set' | 'verify' | 'remove' }>({ open: false, partyId: null, mode: 'verify' });
   const [pinError, setPinError] = useState<string>('');
-  const [pendingQrGeneration, setPendingQrGeneration] = useState<string | null>(null);
+  const [pendingQrGeneration, setPendingQrGeneration] = useState<{ partyId: string; tokenId?: string } | null>(null);
 
   const loadParties = useCallback(async () => {
     try {
       setIsLoadingParties(true);
       const response = await fetch('/api/parties');
+
+      if (response.status === 401) {
+        router.replace('/admin/login');
+        return;
+      }
       
       if (!response.ok) {
         throw new Error('Failed to load parties');
@@ -93,12 +130,33 @@ export default function AdminPage() {
     } finally {
       setIsLoadingParties(false);
     }
+  }, [router]);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/admin/login', { method: 'DELETE' });
+    } finally {
+      router.replace('/admin/login');
+    }
+  }, [router]);
+
+  const loadHostSession = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/session');
+      const data = await response.json();
+      if (data.authenticated) {
+        setHostSession({ hostId: data.hostId, email: data.email });
+      }
+    } catch (err) {
+      console.error('Failed to load host session:', err);
+    }
   }, []);
 
   // Load existing parties on mount
   useEffect(() => {
     loadParties();
-  }, [loadParties]);
+    loadHostSession();
+  }, [loadParties, loadHostSession]);
 
   const createParty = useCallback(async () => {
     setLoading(true);
@@ -207,6 +265,34 @@ export default function AdminPage() {
     }
   }, []);
 
+  const updateModerationMode = useCallback(async (partyId: string, moderationMode: ModerationMode) => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ moderationMode }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update moderation mode');
+      }
+
+      const updatedParty = await response.json();
+      setParties(prev =>
+        prev.map(p => (p.id === partyId ? { ...p, moderationMode: updatedParty.moderationMode } : p))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update moderation mode');
+    }
+  }, []);
+
+  const updatePendingCount = useCallback((count: number) => {
+    setParties(prev =>
+      prev.map(p => (p.id === moderationPartyId ? { ...p, pendingCount: count } : p))
+    );
+  }, [moderationPartyId]);
+
   const startEditingName = useCallback((party: Party) => {
     setEditingPartyId(party.id);
     setEditedName(party.name || '');
@@ -251,19 +337,19 @@ export default function AdminPage() {
     window.open(`/api/parties/${partyId}/download`, '_blank');
   }, []);
 
-  const generateQrCode = useCallback(async (partyId: string, pin?: string) => {
+  const generateQrCode = useCallback(async (partyId: string, pin?: string, tokenId?: string) => {
     try {
       const response = await fetch(`/api/parties/${partyId}/regenerate-token`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: pin ? JSON.stringify({ pin }) : undefined,
+        body: pin || tokenId ? JSON.stringify({ pin, tokenId }) : undefined,
       });
 
       if (response.status === 422) {
         const data = await response.json();
         if (data.code === 'MISSING_PIN') {
           // PIN required - show PIN entry modal
-          setPendingQrGeneration(partyId);
+          setPendingQrGeneration({ partyId, tokenId });
           setPinModal({ open: true, partyId, mode: 'verify' });
           setPinError('');
           return;
@@ -278,11 +364,18 @@ export default function AdminPage() {
         }
       }
 
+      if (response.status === 429) {
+        // Too many wrong PINs
+        const data = await response.json();
+        setPinError(data.error);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to generate QR code');
       }
 
-      const { joinToken } = await response.json();
+      const { joinToken, label: joinTokenLabel } = await response.json();
       const qrDataUrl = await generatePartyQrCode(
         partyId,
         joinToken,
@@ -291,7 +384,7 @@ export default function AdminPage() {
 
       setQrDataUrls(prev => ({ ...prev, [partyId]: qrDataUrl }));
       setParties(prev =>
-        prev.map(p => (p.id === partyId ? { ...p, joinToken } : p))
+        prev.map(p => (p.id === partyId ? { ...p, joinToken, joinTokenLabel } : p))
       );
 
       // Close PIN modal on success
@@ -365,7 +458,7 @@ export default function AdminPage() {
     } else if (pinModal.mode === 'verify') {
       // Verify PIN for QR code generation
       if (pendingQrGeneration) {
-        await generateQrCode(pendingQrGeneration, pin);
+        await generateQrCode(pendingQrGeneration.partyId, pin, pendingQrGeneration.tokenId);
       }
     }
   }, [pinModal, pendingQrGeneration, generateQrCode]);
@@ -382,9 +475,26 @@ export default function AdminPage() {
     }
   }, []);
 
+  const moderationParty = parties.find(p => p.id === moderationPartyId);
+  const hostsModalParty = parties.find(p => p.id === hostsModalPartyId);
+  const overlayParty = parties.find(p => p.id === overlayPartyId);
+  const limitsParty = parties.find(p => p.id === limitsPartyId);
+  const tokensParty = parties.find(p => p.id === tokensPartyId);
+  const guestsParty = parties.find(p => p.id === guestsPartyId);
+
   return (
     <Container maxWidth="md" className={styles.container}>
       <Box className={styles.header}>
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 1 }}>
+          {hostSession && (
+            <Typography variant="body2" color="text.secondary">
+              {hostSession.email}
+            </Typography>
+          )}
+          <Button size="small" startIcon={<LogoutIcon />} onClick={logout}>
+            Sign out
+          </Button>
+        </Box>
         <Box sx={{ display: 'flex', justifyContent: 'center', mb: 3 }}>
           <Box
             component="img"
@@ -514,6 +624,27 @@ export default function AdminPage() {
                 >
                   Awards
                 </Button>
+                <Badge badgeContent={party.pendingCount ?? 0} color="error">
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<ShieldIcon />}
+                    onClick={() => setModerationPartyId(party.id)}
+                    sx={{ 
+                      fontSize: '0.7rem',
+                      py: 0.25,
+                      px: 1,
+                      borderColor: '#667eea',
+                      color: '#667eea',
+                      '&:hover': { 
+                        borderColor: '#764ba2',
+                        backgroundColor: 'rgba(102, 126, 234, 0.08)',
+                      },
+                    }}
+                  >
+                    Moderate
+                  </Button>
+                </Badge>
               </Box>
 
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
@@ -542,7 +673,7 @@ export default function AdminPage() {
                     />
                   </a>
                   <Typography variant="caption" color="text.secondary">
-                    Guests scan this QR code to join
+                    Guests scan this QR code to join{party.joinTokenLabel && ` (${party.joinTokenLabel})`}
                   </Typography>
                 </Box>
               ) : (
@@ -568,8 +699,8 @@ export default function AdminPage() {
                   </IconButton>
                 </Tooltip>
 
-                <Tooltip title="Show QR Code">
-                  <IconButton color="primary">
+                <Tooltip title="Manage QR Codes">
+                  <IconButton onClick={() => setTokensPartyId(party.id)} color="primary">
                     <QrCodeIcon />
                   </IconButton>
                 </Tooltip>
@@ -588,11 +719,37 @@ export default function AdminPage() {
                   </IconButton>
                 </Tooltip>
 
-                <Tooltip title="Delete Party">
-                  <IconButton onClick={() => deleteParty(party.id)} color="error">
-                    <DeleteIcon />
+                <Tooltip title="Photo Frame & Text">
+                  <IconButton onClick={() => setOverlayPartyId(party.id)} color="primary">
+                    <FrameIcon />
+                  </IconButton>
+                </Tooltip>
+
+                <Tooltip title="Upload Limits">
+                  <IconButton onClick={() => setLimitsPartyId(party.id)} color="primary">
+                    <StorageIcon />
+                  </IconButton>
+                </Tooltip>
+
+                <Tooltip title="Guests">
+                  <IconButton onClick={() => setGuestsPartyId(party.id)} color="primary">
+                    <PeopleIcon />
+                  </IconButton>
+                </Tooltip>
+
+                <Tooltip title="Manage Hosts">
+                  <IconButton onClick={() => setHostsModalPartyId(party.id)} color="primary">
+                    <GroupIcon />
                   </IconButton>
                 </Tooltip>
+
+                {party.role !== 'cohost' && (
+                  <Tooltip title="Delete Party">
+                    <IconButton onClick={() => deleteParty(party.id)} color="error">
+                      <DeleteIcon />
+                    </IconButton>
+                  </Tooltip>
+                )}
               </Box>
             </CardContent>
           </Card>
@@ -646,6 +803,79 @@ export default function AdminPage() {
         partyName={statsModalParty?.name || undefined}
       />
 
+      {/* Moderation Modal */}
+      {moderationParty && (
+        <ModerationModal
+          open
+          onClose={() => setModerationPartyId(null)}
+          partyId={moderationParty.id}
+          partyName={moderationParty.name || undefined}
+          moderationMode={moderationParty.moderationMode ?? 'off'}
+          onModerationModeChange={mode => updateModerationMode(moderationParty.id, mode)}
+          onPendingCountChange={updatePendingCount}
+        />
+      )}
+
+      {/* Co-hosts Modal */}
+      {hostsModalParty && (
+        <CoHostsModal
+          open
+          onClose={() => setHostsModalPartyId(null)}
+          partyId={hostsModalParty.id}
+          partyName={hostsModalParty.name || undefined}
+          currentHostId={hostSession?.hostId ?? null}
+          role={hostsModalParty.role ?? 'owner'}
+          onLeft={() => {
+            setParties(prev => prev.filter(p => p.id !== hostsModalParty.id));
+            setHostsModalPartyId(null);
+          }}
+        />
+      )}
+
+      {/* Overlay Modal */}
+      {overlayParty && (
+        <OverlayModal
+          open
+          onClose={() => setOverlayPartyId(null)}
+          partyId={overlayParty.id}
+          partyName={overlayParty.name || undefined}
+        />
+      )}
+
+      {/* Join Tokens Modal */}
+      {tokensParty && (
+        <JoinTokensModal
+          open
+          onClose={() => setTokensPartyId(null)}
+          partyId={tokensParty.id}
+          partyName={tokensParty.name || undefined}
+          onShowQr={(tokenId) => {
+            setTokensPartyId(null);
+            generateQrCode(tokensParty.id, undefined, tokenId);
+          }}
+        />
+      )}
+
+      {/* Upload Limits Modal */}
+      {limitsParty && (
+        <UploadLimitsModal
+          open
+          onClose={() => setLimitsPartyId(null)}
+          partyId={limitsParty.id}
+          partyName={limitsParty.name || undefined}
+        />
+      )}
+
+      {/* Guests Modal */}
+      {guestsParty && (
+        <GuestsModal
+          open
+          onClose={() => setGuestsPartyId(null)}
+          partyId={guestsParty.id}
+          partyName={guestsParty.name || undefined}
+        />
+      )}
+
       {/* PIN Entry Modal */}
       <PinEntryModal
         open={pinModal.open}
@@ -0,0 +1,122 @@
+/**
+ * POST /api/admin/login - Sign in as a host
+ * DELETE /api/admin/login - Sign out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { verifyPassword, setAdminSessionCookie, clearAdminSessionCookie } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { clearFailures, countAttempt, getClientIp, loginAttemptChecks, rateLimitedResponse } from '@/lib/rate-limit';
+
+const log = createLogger('api.admin.login');
+
+// Verified against when the email is unknown, so both failures take the same time
+const DUMMY_PASSWORD_HASH = `scrypt$16384$8$1$${'A'.repeat(22)}$${'A'.repeat(43)}`;
+
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const body = await request.json();
+    const { email, password } = body;
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+    const ip = getClientIp(request);
+
+    log('info', 'Host login request received', {
+      requestId,
+      email: normalizedEmail,
+      ip
+    });
+
+    if (!normalizedEmail || typeof password !== 'string' || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const loginChecks = loginAttemptChecks(normalizedEmail, ip);
+    const lockout = await countAttempt(loginChecks, { requestId, route: 'admin-login', email: normalizedEmail, ip });
+    if (!lockout.ok) {
+      return rateLimitedResponse(lockout);
+    }
+
+    const supabase = createServerClient();
+
+    const { data: host, error } = await supabase
+      .from('hosts')
+      .select('id, email, password_hash, display_name')
+      .eq('email', normalizedEmail)
+      .maybeSingle();
+
+    if (error) {
+      log('error', 'Host lookup failed', {
+        requestId,
+        email: normalizedEmail,
+        error: error.message,
+        errorCode: error.code
+      });
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+
+    // Same response (and timing) for unknown email and wrong password
+    const validPassword = await verifyPassword(password, host?.password_hash ?? DUMMY_PASSWORD_HASH);
+    if (!host || !validPassword) {
+      log('warn', 'Host login failed', {
+        requestId,
+        email: normalizedEmail,
+        ip,
+        reason: host ? 'invalid_password' : 'unknown_email',
+        securityEvent: 'invalid_login',
+        totalTime: Date.now() - startTime
+      });
+      return NextResponse.json(
+        { error: 'Invalid email or password', code: 'INVALID_CREDENTIALS' },
+        { status: 401 }
+      );
+    }
+
+    await clearFailures(loginChecks);
+    await setAdminSessionCookie(host.id, host.email);
+
+    log('info', 'Host logged in successfully', {
+      requestId,
+      hostId: host.id,
+      totalTime: Date.now() - startTime
+    });
+
+    return NextResponse.json({
+      hostId: host.id,
+      email: host.email,
+      displayName: host.display_name,
+    });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in host login', {
+      requestId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const requestId = generateRequestId();
+
+  await clearAdminSessionCookie();
+
+  log('info', 'Host logged out', { requestId });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/admin/session - Get the signed-in host, if any
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminSession } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+const log = createLogger('api.admin.session');
+
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId();
+
+  try {
+    const session = await getAdminSession(request);
+
+    if (!session) {
+      return NextResponse.json({ authenticated: false }, { status: 200 });
+    }
+
+    return NextResponse.json({
+      authenticated: true,
+      hostId: session.hostId,
+      email: session.email,
+    });
+  } catch (error) {
+    log('error', 'Host session check error', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json({ authenticated: false }, { status: 500 });
+  }
+}
@@ -1,12 +1,21 @@
 /**
  * POST /api/join - Join a party as a guest
  * Validates the join token, creates an uploader record, and sets session cookie
+ * The token must be one of the party's join tokens and still active (not expired,
+ * revoked or at its join limit); each completed join counts against it.
+ * Attempts are rate limited per IP and per party (429 RATE_LIMITED with Retry-After).
+ * Names are matched ignoring case and spacing; a name a host banned is refused (403 UPLOADER_BANNED).
+ * Only the device that joined under a name can come back as that guest; anyone else
+ * typing it gets 409 NAME_TAKEN.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
-import { setSessionCookie } from '@/lib/auth';
+import { setSessionCookie, getReturningUploaderId } from '@/lib/auth';
 import { createLogger, generateRequestId } from '@/lib/logging';
+import { JOIN_TOKEN_ERRORS, getJoinTokenStatus } from '@/lib/join-tokens';
+import { NAME_TAKEN_ERROR, UPLOADER_BANNED_ERROR, findUploadersByName } from '@/lib/uploaders';
+import { RATE_LIMITS, consumeRateLimit, getClientIp, rateLimitedResponse } from '@/lib/rate-limit';
 
 const log = createLogger('api.join');
 
@@ -42,6 +51,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const ip = getClientIp(request);
+    const rateLimit = await consumeRateLimit([
+      { rule: RATE_LIMITS.joinIp, key: ip },
+      { rule: RATE_LIMITS.joinParty, key: partyId },
+    ], { requestId, route: 'join', partyId, ip });
+    if (!rateLimit.ok) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     const supabase = createServerClient();
 
     // Get the party and verify the token
@@ -66,12 +84,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get the join token for this party
+    // Find the join token that was scanned (a party can have several)
     const { data: tokenData, error: tokenError } = await supabase
       .from('party_join_tokens')
-      .select('token')
+      .select('id, label, expires_at, max_joins, join_count, revoked_at')
       .eq('party_id', partyId)
-      .single();
+      .eq('token', token)
+      .maybeSingle();
 
     log('info', 'Party and token query completed', {
       requestId,
@@ -79,7 +98,7 @@ export async function POST(request: NextRequest) {
       partyQueryTime: Date.now() - partyQueryStart,
       partyFound: !!party,
       partyStatus: party?.status,
-      hasJoinToken: !!tokenData?.token,
+      tokenFound: !!tokenData,
       tokenError: tokenError?.message
     });
 
@@ -97,32 +116,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify the join token
-    if (tokenError || !tokenData?.token) {
-      log('error', 'Party missing join token', {
+    if (tokenError) {
+      log('error', 'Join token lookup failed', {
         requestId,
         partyId,
-        configurationError: 'no_join_token',
-        tokenError: tokenError?.message
+        tokenError: tokenError.message
       });
       return NextResponse.json(
-        { error: 'Party is not configured for joining' },
-        { status: 403 }
+        { error: 'Failed to join party' },
+        { status: 500 }
       );
     }
-    
-    const tokenVerificationStart = Date.now();
-    const storedToken = tokenData.token;
-    const tokenValid = token === storedToken; // Direct comparison instead of hash verification
-    
-    log('info', 'Token verification completed', {
-      requestId,
-      partyId,
-      tokenValid,
-      verificationTime: Date.now() - tokenVerificationStart,
-      tokenLength: token.length
-    });
-    
-    if (!tokenValid) {
+
+    if (!tokenData) {
       log('warn', 'Invalid join token attempt', {
         requestId,
         partyId,
@@ -135,20 +141,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const tokenStatus = getJoinTokenStatus(tokenData);
+    if (tokenStatus !== 'active') {
+      log('warn', 'Join token no longer usable', {
+        requestId,
+        partyId,
+        tokenId: tokenData.id,
+        tokenLabel: tokenData.label,
+        tokenStatus,
+        securityEvent: 'inactive_token'
+      });
+      return NextResponse.json(JOIN_TOKEN_ERRORS[tokenStatus], { status: 403 });
+    }
+
     // Create the uploader record or return existing one if name already exists
     const uploaderCreateStart = Date.now();
     let uploader = null;
     let uploaderError = null;
     
     // If display name is provided, check if an uploader with this name already exists
+    // (ignoring case and spacing, so "anna " is Anna)
     if (displayName) {
-      const { data: existingUploader } = await supabase
-        .from('uploaders')
-        .select('id, display_name')
-        .eq('party_id', partyId)
-        .eq('display_name', displayName)
-        .single();
-      
+      const matches = await findUploadersByName(supabase, partyId, displayName);
+
+      const banned = matches.find(match => match.banned_at);
+      if (banned) {
+        log('warn', 'Banned guest tried to join', {
+          requestId,
+          partyId,
+          uploaderId: banned.id,
+          displayName,
+          securityEvent: 'banned_join'
+        });
+        return NextResponse.json(UPLOADER_BANNED_ERROR, { status: 403 });
+      }
+
+      // A name match alone isn't proof: only the device that joined as that guest gets it back
+      const returningUploaderId = matches.length > 0 ? await getReturningUploaderId(request, partyId) : null;
+      const existingUploader = matches.find(match => match.id === returningUploaderId);
+      if (matches.length > 0 && !existingUploader) {
+        log('warn', 'Name already taken by another guest', {
+          requestId,
+          partyId,
+          displayName,
+          securityEvent: 'name_taken'
+        });
+        return NextResponse.json(NAME_TAKEN_ERROR, { status: 409 });
+      }
+
       if (existingUploader) {
         // If existing uploader found but no confirmation, ask for confirmation
         if (!confirm) {
@@ -161,7 +201,7 @@ export async function POST(request: NextRequest) {
           
           return NextResponse.json({
             requiresConfirmation: true,
-            message: `Welcome back! You were already in this party as "${displayName}". Do you want to continue with your existing photos?`,
+            message: `Welcome back! You were already in this party as "${existingUploader.display_name}". Do you want to continue with your existing photos?`,
             existingUploader: {
               id: existingUploader.id,
               displayName: existingUploader.display_name
@@ -170,7 +210,7 @@ export async function POST(request: NextRequest) {
         }
         
         // Confirmation provided, return the existing uploader
-        uploader = existingUploader;
+        uploader = { id: existingUploader.id, display_name: existingUploader.display_name };
         
         log('info', 'Confirmed return of existing uploader', {
           requestId,
@@ -182,6 +222,37 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Count the join against the token; the checks run again in the same statement
+    // so two guests can't both take its last join
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_join_token', {
+      p_token_id: tokenData.id
+    });
+
+    if (claimError) {
+      log('error', 'Failed to count join against token', {
+        requestId,
+        partyId,
+        tokenId: tokenData.id,
+        error: claimError.message
+      });
+      return NextResponse.json(
+        { error: 'Failed to join party' },
+        { status: 500 }
+      );
+    }
+
+    if (!claimed) {
+      // Still active when read above, so most likely someone took the last join meanwhile
+      const status = getJoinTokenStatus(tokenData);
+      log('warn', 'Join token used up while joining', {
+        requestId,
+        partyId,
+        tokenId: tokenData.id,
+        tokenStatus: status
+      });
+      return NextResponse.json(JOIN_TOKEN_ERRORS[status === 'active' ? 'exhausted' : status], { status: 403 });
+    }
+
     // If no existing uploader found, create a new one
     if (!uploader) {
       const result = await supabase
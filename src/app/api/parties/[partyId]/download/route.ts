@@ -1,67 +1,238 @@
 /**
- * GET /api/parties/[partyId]/download - Download all original photos as ZIP
+ * GET /api/parties/[partyId]/download - Download original photos and clips as ZIP
+ * POST /api/parties/[partyId]/download - Same, with the export options in a JSON body
+ *
+ * Export options (query parameters or body fields):
+ * - uploaderId: one or more uploader IDs (comma-separated in a query)
+ * - ids: explicit photo IDs (comma-separated in a query)
+ * - from / to: ISO timestamps bounding the capture time (upload time for photos without one)
+ * - hasComment: true | false
+ * - template: filename template, e.g. {timestamp}_{uploader}_{comment} (see FILENAME_TOKENS)
+ * - folders: none | uploader (one folder per uploader)
+ *
+ * Hosts get the party's visible photos. A guest session can only download the
+ * guest's own photos, whatever their moderation status.
+ *
+ * The archive is streamed as it is built, with an exact Content-Length and support for
+ * Range/If-Range so interrupted downloads can resume, unless the archive with that ETag
+ * left a photo out (its bytes then differ from a fresh one). Originals are streamed from storage
+ * into the archive, never held in memory whole. Photos whose original is missing from
+ * storage, or can't be read while the archive is sent, are left out and listed in a
+ * manifest file inside the archive.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient, STORAGE_BUCKET } from '@/lib/supabase/server';
-import archiver from 'archiver';
+import { createHash } from 'crypto';
+import { createServerClient, STORAGE_BUCKET, getPartyFolder } from '@/lib/supabase/server';
+import { createZipStream, getZipLayout, parseRangeHeader, type ZipEntry, type ZipManifest } from '@/lib/zip';
+import {
+  parseExportOptions,
+  matchesExportFilters,
+  buildExportPath,
+  getExportTime,
+  ExportOptionsError,
+  type ExportOptions,
+  type ExportPhoto,
+} from '@/lib/export';
+import { requirePartyHost, getGuestSession } from '@/lib/auth';
 import { createLogger, generateRequestId } from '@/lib/logging';
+import { getRateLimitStore } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
 const log = createLogger('api.parties.download');
 
+const MANIFEST_NAME = '_missing_photos.txt';
+const FETCH_CONCURRENCY = 4;
+const FETCH_ATTEMPTS = 3;
+const FETCH_URL_EXPIRY = 60;
+const STORAGE_LIST_PAGE_SIZE = 1000;
+const MAX_EXPLICIT_IDS = 1000;
+
+// How long an archive that left a photo out is remembered, so it isn't resumed
+const SKIPPED_MARK_WINDOW_MS = 24 * 60 * 60_000;
+
+const encoder = new TextEncoder();
+
 interface RouteParams {
   params: Promise<{ partyId: string }>;
 }
 
+type DownloadAccess =
+  | { ok: true; scope: 'host' }
+  | { ok: true; scope: 'guest'; uploaderId: string }
+  | { ok: false; status: number; error: string };
+
+function skippedKey(etag: string): string {
+  return `download-skipped:${etag}`;
+}
+
+/**
+ * Whether an archive sent with this ETag left a photo out. Its bytes differ from a fresh
+ * archive's from that photo on, and in the central directory and manifest, so it can't
+ * be resumed. Uses the rate limit store, which every server instance shares.
+ */
+async function hadSkippedEntries(etag: string): Promise<boolean> {
+  try {
+    return (await getRateLimitStore().peek(skippedKey(etag))) !== null;
+  } catch (error) {
+    // A full download is always correct
+    log('warn', 'Failed to check for skipped photos, not resuming', {
+      etag,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return true;
+  }
+}
+
+/**
+ * Hosts of the party can export anything; a guest of the party only their own photos.
+ */
+async function resolveDownloadAccess(
+  request: NextRequest,
+  supabase: ReturnType<typeof createServerClient>,
+  partyId: string
+): Promise<DownloadAccess> {
+  const hostAccess = await requirePartyHost(request, supabase, partyId);
+  if (hostAccess.ok) {
+    return { ok: true, scope: 'host' };
+  }
+
+  const session = await getGuestSession(request);
+  if (session && session.partyId === partyId) {
+    return { ok: true, scope: 'guest', uploaderId: session.uploaderId };
+  }
+
+  return hostAccess;
+}
+
+/**
+ * List the sizes of all original files for a party, keyed by storage path.
+ */
+async function listOriginalSizes(
+  supabase: ReturnType<typeof createServerClient>,
+  partyId: string
+): Promise<Map<string, number>> {
+  const folder = `${getPartyFolder(partyId)}/original`;
+  const sizes = new Map<string, number>();
+
+  for (let offset = 0; ; offset += STORAGE_LIST_PAGE_SIZE) {
+    const { data: files, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(folder, { limit: STORAGE_LIST_PAGE_SIZE, offset });
+
+    if (error) {
+      throw new Error(`Failed to list storage: ${error.message}`);
+    }
+
+    for (const file of files ?? []) {
+      const size = file.metadata?.size;
+      if (typeof size === 'number') {
+        sizes.set(`${folder}/${file.name}`, size);
+      }
+    }
+
+    if (!files || files.length < STORAGE_LIST_PAGE_SIZE) {
+      return sizes;
+    }
+  }
+}
+
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  return handleDownload(request, params, async () => request.nextUrl.searchParams);
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return handleDownload(request, params, async () => {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new ExportOptionsError('Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+  });
+}
+
+async function handleDownload(
+  request: NextRequest,
+  params: RouteParams['params'],
+  readOptions: () => Promise<URLSearchParams | Record<string, unknown>>
+) {
   const requestId = generateRequestId();
   const startTime = Date.now();
-  
+
   try {
     const { partyId } = await params;
-    
+
+    let options: ExportOptions;
+    try {
+      options = parseExportOptions(await readOptions());
+    } catch (err) {
+      if (err instanceof ExportOptionsError) {
+        log('warn', 'Invalid export options', {
+          requestId,
+          partyId,
+          error: err.message
+        });
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
     log('info', 'Party download request received', {
       requestId,
-      partyId
+      partyId,
+      range: request.headers.get('range'),
+      uploaderIds: options.uploaderIds.length,
+      ids: options.ids.length,
+      from: options.from?.toISOString(),
+      to: options.to?.toISOString(),
+      hasComment: options.hasComment,
+      template: options.template,
+      folders: options.folders
     });
-    
-    const supabase = createServerClient();
 
-    // Get party info
-    const partyQueryStart = Date.now();
-    const { data: party, error: partyError } = await supabase
-      .from('parties')
-      .select('id')
-      .eq('id', partyId)
-      .single();
+    if (options.ids.length > MAX_EXPLICIT_IDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_EXPLICIT_IDS} photo IDs can be requested at once` },
+        { status: 400 }
+      );
+    }
 
-    if (partyError || !party) {
-      log('warn', 'Party not found for download', {
+    const supabase = createServerClient();
+
+    const access = await resolveDownloadAccess(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
         requestId,
         partyId,
-        queryTime: Date.now() - partyQueryStart,
-        error: partyError?.message
+        reason: access.error
       });
-      return NextResponse.json(
-        { error: 'Party not found' },
-        { status: 404 }
-      );
+      return NextResponse.json({ error: access.error }, { status: access.status });
     }
 
-    log('info', 'Party found, fetching photos', {
-      requestId,
-      partyId,
-      partyQueryTime: Date.now() - partyQueryStart
-    });
-
-    // Get all photos for this party
+    // Get the matching photos for this party
     const photosQueryStart = Date.now();
-    const { data: photos, error: photosError } = await supabase
+    let query = supabase
       .from('photos')
-      .select('id, original_path, original_mime, uploader:uploaders(display_name)')
+      .select('id, uploader_id, comment, original_path, original_crc32, created_at, taken_at, uploader:uploaders(display_name)')
       .eq('party_id', partyId)
       .order('created_at', { ascending: true });
 
+    if (access.scope === 'guest') {
+      query = query.eq('uploader_id', access.uploaderId);
+    } else {
+      query = query.eq('status', 'visible');
+      if (options.uploaderIds.length > 0) {
+        query = query.in('uploader_id', options.uploaderIds);
+      }
+    }
+    if (options.ids.length > 0) {
+      query = query.in('id', options.ids);
+    }
+
+    const { data: matchingPhotos, error: photosError } = await query;
+
     if (photosError) {
       log('error', 'Failed to fetch photos for download', {
         requestId,
@@ -76,7 +247,23 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (!photos || photos.length === 0) {
+    const photos = (matchingPhotos ?? [])
+      .map(photo => ({
+        ...photo,
+        export: {
+          id: photo.id,
+          uploaderId: photo.uploader_id,
+          uploaderName: (photo.uploader as { display_name: string | null } | null)?.display_name || 'Anonymous',
+          comment: photo.comment,
+          createdAt: photo.created_at,
+          takenAt: photo.taken_at,
+        } satisfies ExportPhoto,
+      }))
+      .filter(photo => matchesExportFilters(photo.export, options))
+      // Archive order (and {index}) follows the capture time
+      .sort((a, b) => getExportTime(a.export).getTime() - getExportTime(b.export).getTime());
+
+    if (photos.length === 0) {
       log('warn', 'No photos available for download', {
         requestId,
         partyId,
@@ -89,119 +276,217 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    log('info', 'Photos fetched, creating archive', {
-      requestId,
-      partyId,
-      photoCount: photos.length,
-      photosQueryTime: Date.now() - photosQueryStart
-    });
+    // Sizes come from storage so the archive layout (and Content-Length) is exact
+    const listStart = Date.now();
+    const storedSizes = await listOriginalSizes(supabase, partyId);
 
-    // Create a readable stream for the response
-    const archiveStart = Date.now();
-    const archive = archiver('zip', {
-      zlib: { level: 5 }, // Compression level
-    });
+    const entries: ZipEntry[] = [];
+    const entryPhotoIds: string[] = [];
+    const entryLines: string[] = [];
+    const usedNames = new Set<string>();
+    const missing: string[] = [];
 
-    // Create a pass-through stream to convert to Web ReadableStream
-    const chunks: Uint8Array[] = [];
-    
-    archive.on('data', (chunk: Buffer) => {
-      chunks.push(new Uint8Array(chunk));
-    });
-
-    // Add each photo to the archive
-    let photoIndex = 1;
-    let successCount = 0;
-    let failCount = 0;
-    
     for (const photo of photos) {
-      try {
-        // Download the original file from storage
-        const downloadStart = Date.now();
-        const { data: fileData, error: downloadError } = await supabase.storage
-          .from(STORAGE_BUCKET)
-          .download(photo.original_path);
-
-        if (downloadError || !fileData) {
-          failCount++;
-          log('warn', 'Failed to download individual photo for archive', {
-            requestId,
-            partyId,
-            photoId: photo.id,
-            photoPath: photo.original_path,
-            downloadTime: Date.now() - downloadStart,
-            error: downloadError?.message || 'No data'
-          });
-          continue;
-        }
+      const size = storedSizes.get(photo.original_path);
+      const line = `${photo.id}\t${photo.export.uploaderName}\t${photo.created_at}\t${photo.original_path}`;
 
-        // Determine file extension from path
-        const ext = photo.original_path.split('.').pop() || 'jpg';
-        
-        // Create filename with uploader name if available
-        const uploaderName = (photo.uploader as { display_name: string | null } | null)?.display_name || 'Anonymous';
-        const safeUploaderName = uploaderName.replace(/[^a-zA-Z0-9]/g, '_');
-        const fileName = `${String(photoIndex).padStart(3, '0')}_${safeUploaderName}.${ext}`;
-
-        // Convert Blob to Buffer and append to archive
-        const buffer = Buffer.from(await fileData.arrayBuffer());
-        archive.append(buffer, { name: fileName });
-        
-        successCount++;
-        photoIndex++;
-      } catch (err) {
-        failCount++;
-        log('error', 'Error processing photo for archive', {
-          requestId,
-          partyId,
-          photoId: photo.id,
-          error: err instanceof Error ? err.message : 'Unknown error'
-        });
+      if (size === undefined) {
+        missing.push(line);
+        continue;
       }
+
+      // Determine file extension from path
+      const ext = photo.original_path.split('.').pop() || 'jpg';
+
+      // Templates without {index} can produce the same name twice
+      const basePath = buildExportPath(photo.export, entries.length + 1, options);
+      let fileName = `${basePath}.${ext}`;
+      for (let n = 2; usedNames.has(fileName); n++) {
+        fileName = `${basePath}_${n}.${ext}`;
+      }
+      usedNames.add(fileName);
+
+      entryPhotoIds.push(photo.id);
+      entryLines.push(line);
+      entries.push({
+        name: fileName,
+        size,
+        modifiedAt: getExportTime(photo.export),
+        crc32: photo.original_crc32,
+        getData: async () => {
+          let lastError: string | undefined;
+          for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+            try {
+              // Signed when its turn comes, since a large archive can take longer than a URL lasts
+              const { data: signed, error: signError } = await supabase.storage
+                .from(STORAGE_BUCKET)
+                .createSignedUrl(photo.original_path, FETCH_URL_EXPIRY);
+              if (signError || !signed) {
+                throw new Error(signError?.message || 'Failed to sign URL');
+              }
+
+              const response = await fetch(signed.signedUrl);
+              if (response.ok && response.body) {
+                return response.body;
+              }
+              await response.body?.cancel();
+              lastError = `HTTP ${response.status}`;
+            } catch (err) {
+              lastError = err instanceof Error ? err.message : 'Network error';
+            }
+            log('warn', 'Failed to download photo for archive, retrying', {
+              requestId,
+              partyId,
+              photoId: photo.id,
+              attempt,
+              error: lastError
+            });
+          }
+          throw new Error(`Failed to download ${photo.original_path}: ${lastError}`);
+        },
+      });
     }
 
-    log('info', 'Photos processed, finalizing archive', {
-      requestId,
-      partyId,
-      totalPhotos: photos.length,
-      successCount,
-      failCount,
-      archiveProcessingTime: Date.now() - archiveStart
-    });
+    // Room is kept for listing every photo, since any of them may fail while the archive is sent
+    const manifestText = (lines: string[]) => encoder.encode(
+      [
+        'These photos could not be read from storage and are not included in this archive.',
+        '',
+        'photo_id\tuploader\tcreated_at\tpath',
+        ...lines,
+        '',
+      ].join('\n')
+    );
+    const manifest: ZipManifest = {
+      name: MANIFEST_NAME,
+      size: manifestText([...missing, ...entryLines]).length,
+      modifiedAt: new Date(photos[photos.length - 1].created_at),
+      build: (skipped) => {
+        const lines = [...missing, ...skipped.map(index => entryLines[index])];
+        return lines.length > 0 ? manifestText(lines) : null;
+      },
+    };
 
-    // Finalize the archive
-    await archive.finalize();
+    const { size: archiveSize, zip64 } = getZipLayout(entries, manifest);
 
-    // Combine all chunks into a single buffer
-    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const zipBuffer = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      zipBuffer.set(chunk, offset);
-      offset += chunk.length;
+    // The archive is fully determined by its entries, so they make a strong validator
+    const etag = `"${createHash('sha1')
+      .update(JSON.stringify(entries.map(e => [e.name, e.size, e.modifiedAt.toISOString()])))
+      .update(JSON.stringify(missing))
+      .update(access.scope)
+      .digest('hex')}"`;
+
+    // Only honor Range if the client's copy is still the same archive
+    const ifRange = request.headers.get('if-range');
+    let rangeHeader = !ifRange || ifRange === etag ? request.headers.get('range') : null;
+    if (rangeHeader && await hadSkippedEntries(etag)) {
+      log('info', 'Archive left photos out before, sending it whole', {
+        requestId,
+        partyId,
+        range: rangeHeader
+      });
+      rangeHeader = null;
     }
+    const range = parseRangeHeader(rangeHeader, archiveSize);
 
     // Generate filename with timestamp
     const timestamp = new Date().toISOString().slice(0, 10);
-    const filename = `photobooze_${partyId.slice(0, 8)}_${timestamp}.zip`;
+    const filename = access.scope === 'guest'
+      ? `photobooze_${partyId.slice(0, 8)}_my_photos_${timestamp}.zip`
+      : `photobooze_${partyId.slice(0, 8)}_${timestamp}.zip`;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Accept-Ranges': 'bytes',
+      'ETag': etag,
+    };
+
+    if (range === 'unsatisfiable') {
+      log('warn', 'Unsatisfiable download range', {
+        requestId,
+        partyId,
+        range: rangeHeader,
+        archiveSize
+      });
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${archiveSize}` },
+      });
+    }
+
+    const stream = createZipStream(entries, {
+      range: range ?? undefined,
+      concurrency: FETCH_CONCURRENCY,
+      manifest,
+      onEntrySkipped: (index, error) => {
+        log('error', 'Photo left out of the archive', {
+          requestId,
+          partyId,
+          photoId: entryPhotoIds[index],
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        getRateLimitStore()
+          .hit(skippedKey(etag), SKIPPED_MARK_WINDOW_MS)
+          .catch((markError: unknown) => {
+            log('warn', 'Failed to remember skipped photo, a resume may be corrupt', {
+              requestId,
+              partyId,
+              error: markError instanceof Error ? markError.message : 'Unknown error'
+            });
+          });
+      },
+      onEntryChecksum: (index, crc) => {
+        const photoId = entryPhotoIds[index];
+        if (!photoId) {
+          return;
+        }
+        // Remember the checksum so resumed downloads can skip this photo
+        supabase
+          .from('photos')
+          .update({ original_crc32: crc })
+          .eq('id', photoId)
+          .then(({ error }) => {
+            if (error) {
+              log('warn', 'Failed to store photo checksum', {
+                requestId,
+                photoId,
+                error: error.message
+              });
+            }
+          });
+      },
+    });
 
     const totalTime = Date.now() - startTime;
-    log('info', 'Download archive completed successfully', {
+    log('info', 'Download archive stream started', {
       requestId,
       partyId,
       filename,
-      zipSizeBytes: zipBuffer.length,
-      photosIncluded: successCount,
-      photosFailed: failCount,
-      archiveTime: Date.now() - archiveStart,
+      archiveSize,
+      zip64,
+      range: range ? `${range.start}-${range.end}` : null,
+      photosIncluded: entryPhotoIds.length,
+      photosMissing: missing.length,
+      storageListTime: Date.now() - listStart,
       totalTime
     });
 
-    return new NextResponse(zipBuffer, {
+    if (range) {
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${archiveSize}`,
+          'Content-Length': String(range.end - range.start + 1),
+        },
+      });
+    }
+
+    return new NextResponse(stream, {
       headers: {
-        'Content-Type': 'application/zip',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': String(zipBuffer.length),
+        ...headers,
+        'Content-Length': String(archiveSize),
       },
     });
   } catch (error) {
@@ -213,7 +498,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined
     });
-    
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,102 @@
+/**
+ * DELETE /api/parties/[partyId]/hosts/[hostId] - Remove a co-host
+ * The owner can remove any co-host; a co-host can only remove themselves (leave the party)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+const log = createLogger('api.parties.hosts.detail');
+
+interface RouteParams {
+  params: Promise<{ partyId: string; hostId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId, hostId } = await params;
+
+    log('info', 'Co-host removal request received', {
+      requestId,
+      partyId,
+      hostId
+    });
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (access.role !== 'owner' && hostId !== access.host.hostId) {
+      return NextResponse.json(
+        { error: 'Only the party owner can do this' },
+        { status: 403 }
+      );
+    }
+
+    const { data: removed, error } = await supabase
+      .from('party_hosts')
+      .delete()
+      .eq('party_id', partyId)
+      .eq('host_id', hostId)
+      .select('host_id');
+
+    if (error) {
+      log('error', 'Failed to remove co-host', {
+        requestId,
+        partyId,
+        hostId,
+        error: error.message,
+        errorCode: error.code
+      });
+      return NextResponse.json(
+        { error: 'Failed to remove co-host' },
+        { status: 500 }
+      );
+    }
+
+    if (!removed || removed.length === 0) {
+      return NextResponse.json(
+        { error: 'Co-host not found' },
+        { status: 404 }
+      );
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Co-host removed successfully', {
+      requestId,
+      partyId,
+      hostId,
+      removedBy: access.host.hostId,
+      totalTime
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in co-host removal', {
+      requestId,
+      partyId: (await params).partyId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
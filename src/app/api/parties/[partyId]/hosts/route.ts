@@ -0,0 +1,218 @@
+/**
+ * GET /api/parties/[partyId]/hosts - List the owner and co-hosts of a party
+ * POST /api/parties/[partyId]/hosts - Invite an existing host account as co-host (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+const log = createLogger('api.parties.hosts');
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId } = await params;
+
+    log('info', 'Party hosts request received', {
+      requestId,
+      partyId
+    });
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [{ data: party, error: partyError }, { data: cohosts, error: cohostsError }] = await Promise.all([
+      supabase
+        .from('parties')
+        .select('host:hosts!parties_host_id_fkey(id, email, display_name)')
+        .eq('id', partyId)
+        .single(),
+      supabase
+        .from('party_hosts')
+        .select('created_at, host:hosts!party_hosts_host_id_fkey(id, email, display_name)')
+        .eq('party_id', partyId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (partyError || cohostsError) {
+      log('error', 'Failed to fetch party hosts', {
+        requestId,
+        partyId,
+        partyError: partyError?.message,
+        cohostsError: cohostsError?.message
+      });
+      return NextResponse.json(
+        { error: 'Failed to get hosts' },
+        { status: 500 }
+      );
+    }
+
+    type HostRow = { id: string; email: string; display_name: string | null };
+    const owner = party?.host as HostRow | null;
+
+    const result = [
+      ...(owner ? [{ id: owner.id, email: owner.email, displayName: owner.display_name, role: 'owner' as const }] : []),
+      ...(cohosts ?? [])
+        .map(c => c.host as HostRow | null)
+        .filter((host): host is HostRow => !!host)
+        .map(host => ({ id: host.id, email: host.email, displayName: host.display_name, role: 'cohost' as const })),
+    ];
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Party hosts retrieved successfully', {
+      requestId,
+      partyId,
+      hostCount: result.length,
+      totalTime
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in party hosts', {
+      requestId,
+      partyId: (await params).partyId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId } = await params;
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    log('info', 'Co-host invite request received', {
+      requestId,
+      partyId,
+      email
+    });
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId, { ownerOnly: true });
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: invitee, error: inviteeError } = await supabase
+      .from('hosts')
+      .select('id, email, display_name')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (inviteeError || !invitee) {
+      log('warn', 'Co-host invite for unknown host', {
+        requestId,
+        partyId,
+        email,
+        error: inviteeError?.message
+      });
+      return NextResponse.json(
+        { error: 'No host account with that email', code: 'HOST_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (invitee.id === access.host.hostId) {
+      return NextResponse.json(
+        { error: 'You already own this party' },
+        { status: 400 }
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from('party_hosts')
+      .insert({
+        party_id: partyId,
+        host_id: invitee.id,
+        invited_by: access.host.hostId,
+      });
+
+    if (insertError) {
+      // Unique violation: already a co-host
+      const alreadyCohost = insertError.code === '23505';
+      log(alreadyCohost ? 'warn' : 'error', 'Failed to add co-host', {
+        requestId,
+        partyId,
+        inviteeId: invitee.id,
+        error: insertError.message,
+        errorCode: insertError.code
+      });
+      return NextResponse.json(
+        { error: alreadyCohost ? 'Already a co-host of this party' : 'Failed to add co-host' },
+        { status: alreadyCohost ? 409 : 500 }
+      );
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Co-host added successfully', {
+      requestId,
+      partyId,
+      inviteeId: invitee.id,
+      invitedBy: access.host.hostId,
+      totalTime
+    });
+
+    return NextResponse.json({
+      id: invitee.id,
+      email: invitee.email,
+      displayName: invitee.display_name,
+      role: 'cohost',
+    });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in co-host invite', {
+      requestId,
+      partyId: (await params).partyId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * GET /api/parties/[partyId]/limits - Get the party's upload limits and storage used
+ * PATCH /api/parties/[partyId]/limits - Update photos per guest, storage and original resolution limits
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { ORIGINAL_SIZE_OPTIONS } from '@/lib/constants';
+import { UPLOAD_LIMIT_COLUMNS, getPartyStorageBytes, toUploadLimits } from '@/lib/quotas';
+
+const log = createLogger('api.parties.limits');
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value > 0;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [{ data: party, error }, storageBytes] = await Promise.all([
+      supabase.from('parties').select(UPLOAD_LIMIT_COLUMNS).eq('id', partyId).single(),
+      getPartyStorageBytes(supabase, partyId),
+    ]);
+
+    if (error || !party) {
+      log('error', 'Failed to get upload limits', {
+        requestId,
+        partyId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Failed to get upload limits' }, { status: 500 });
+    }
+
+    return NextResponse.json({ limits: toUploadLimits(party), storageBytes });
+  } catch (error) {
+    log('error', 'Unexpected error getting upload limits', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const update: {
+      max_photos_per_guest?: number | null;
+      max_storage_bytes?: number | null;
+      max_original_size?: number | null;
+    } = {};
+
+    if (body.maxPhotosPerGuest !== undefined) {
+      if (body.maxPhotosPerGuest !== null && !isPositiveInteger(body.maxPhotosPerGuest)) {
+        return NextResponse.json({ error: 'Photos per guest must be a positive whole number' }, { status: 400 });
+      }
+      update.max_photos_per_guest = body.maxPhotosPerGuest;
+    }
+
+    if (body.maxStorageBytes !== undefined) {
+      if (body.maxStorageBytes !== null && !isPositiveInteger(body.maxStorageBytes)) {
+        return NextResponse.json({ error: 'Storage limit must be a positive number of bytes' }, { status: 400 });
+      }
+      update.max_storage_bytes = body.maxStorageBytes;
+    }
+
+    if (body.maxOriginalSize !== undefined) {
+      if (body.maxOriginalSize !== null && !ORIGINAL_SIZE_OPTIONS.some(size => size === body.maxOriginalSize)) {
+        return NextResponse.json(
+          { error: `Resolution must be one of ${ORIGINAL_SIZE_OPTIONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      update.max_original_size = body.maxOriginalSize;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Invalid update' }, { status: 400 });
+    }
+
+    const { data: party, error } = await supabase
+      .from('parties')
+      .update(update)
+      .eq('id', partyId)
+      .select(UPLOAD_LIMIT_COLUMNS)
+      .single();
+
+    if (error || !party) {
+      log('error', 'Failed to update upload limits', {
+        requestId,
+        partyId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Failed to update upload limits' }, { status: 500 });
+    }
+
+    log('info', 'Upload limits updated', {
+      requestId,
+      partyId,
+      ...update
+    });
+
+    return NextResponse.json({ limits: toUploadLimits(party), storageBytes: await getPartyStorageBytes(supabase, partyId) });
+  } catch (error) {
+    log('error', 'Unexpected error updating upload limits', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * GET /api/parties/[partyId]/overlay - Get the party overlay (guests stamp it on their photos)
+ * PATCH /api/parties/[partyId]/overlay - Update the overlay text, date and whether it goes on originals
+ * POST /api/parties/[partyId]/overlay - Upload a new PNG frame (multipart, field "frame")
+ * DELETE /api/parties/[partyId]/overlay - Remove the frame
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { createServerClient, STORAGE_BUCKET, getOverlayFramePath, getSignedUrls } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { OVERLAY } from '@/lib/constants';
+import type { PartyOverlay } from '@/types/database';
+
+const log = createLogger('api.parties.overlay');
+
+const OVERLAY_COLUMNS = 'overlay_frame_path, overlay_text, overlay_date, overlay_on_original';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+interface OverlayRow {
+  overlay_frame_path: string | null;
+  overlay_text: string | null;
+  overlay_date: string | null;
+  overlay_on_original: boolean;
+}
+
+async function toPartyOverlay(supabase: ReturnType<typeof createServerClient>, row: OverlayRow): Promise<PartyOverlay> {
+  const urls = await getSignedUrls(supabase, [row.overlay_frame_path]);
+  return {
+    frameUrl: row.overlay_frame_path ? urls.get(row.overlay_frame_path) ?? null : null,
+    text: row.overlay_text,
+    date: row.overlay_date,
+    applyToOriginal: row.overlay_on_original,
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const { data: party, error } = await supabase
+      .from('parties')
+      .select(OVERLAY_COLUMNS)
+      .eq('id', partyId)
+      .single();
+
+    if (error || !party) {
+      log('warn', 'Party not found for overlay', {
+        requestId,
+        partyId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Party not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await toPartyOverlay(supabase, party));
+  } catch (error) {
+    log('error', 'Unexpected error getting overlay', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const update: Partial<OverlayRow> = {};
+
+    if (body.text !== undefined) {
+      if (body.text !== null && typeof body.text !== 'string') {
+        return NextResponse.json({ error: 'Text must be a string' }, { status: 400 });
+      }
+      const text = body.text?.trim() || null;
+      if (text && text.length > OVERLAY.TEXT_MAX_LENGTH) {
+        return NextResponse.json(
+          { error: `Text must be at most ${OVERLAY.TEXT_MAX_LENGTH} characters`, code: 'TEXT_TOO_LONG' },
+          { status: 400 }
+        );
+      }
+      update.overlay_text = text;
+    }
+
+    if (body.date !== undefined) {
+      if (body.date !== null && (typeof body.date !== 'string' || !DATE_REGEX.test(body.date) || isNaN(Date.parse(body.date)))) {
+        return NextResponse.json({ error: 'Date must be YYYY-MM-DD' }, { status: 400 });
+      }
+      update.overlay_date = body.date;
+    }
+
+    if (body.applyToOriginal !== undefined) {
+      if (typeof body.applyToOriginal !== 'boolean') {
+        return NextResponse.json({ error: 'applyToOriginal must be a boolean' }, { status: 400 });
+      }
+      update.overlay_on_original = body.applyToOriginal;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Invalid update' }, { status: 400 });
+    }
+
+    const { data: party, error } = await supabase
+      .from('parties')
+      .update(update)
+      .eq('id', partyId)
+      .select(OVERLAY_COLUMNS)
+      .single();
+
+    if (error || !party) {
+      log('error', 'Failed to update overlay', {
+        requestId,
+        partyId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Failed to update overlay' }, { status: 500 });
+    }
+
+    log('info', 'Overlay updated', {
+      requestId,
+      partyId,
+      fields: Object.keys(update)
+    });
+
+    return NextResponse.json(await toPartyOverlay(supabase, party));
+  } catch (error) {
+    log('error', 'Unexpected error updating overlay', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const formData = await request.formData();
+    const frame = formData.get('frame');
+    if (!(frame instanceof Blob)) {
+      return NextResponse.json({ error: 'Missing frame' }, { status: 400 });
+    }
+
+    if (frame.size > OVERLAY.FRAME_MAX_FILE_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: 'Frame too large (2MB max)', code: 'FRAME_TOO_LARGE' },
+        { status: 413 }
+      );
+    }
+
+    // Check the bytes, not the declared type; the frame needs its transparency
+    const bytes = new Uint8Array(await frame.arrayBuffer());
+    if (!PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+      return NextResponse.json(
+        { error: 'The frame must be a PNG image', code: 'INVALID_FRAME' },
+        { status: 400 }
+      );
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('parties')
+      .select('overlay_frame_path')
+      .eq('id', partyId)
+      .single();
+
+    if (currentError || !current) {
+      return NextResponse.json({ error: 'Party not found' }, { status: 404 });
+    }
+
+    // A new name per upload, so guests never get a cached old frame
+    const framePath = getOverlayFramePath(partyId, uuidv4());
+    const { error: uploadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(framePath, bytes, { contentType: 'image/png' });
+
+    if (uploadError) {
+      log('error', 'Failed to store overlay frame', {
+        requestId,
+        partyId,
+        error: uploadError.message
+      });
+      return NextResponse.json({ error: 'Failed to store frame' }, { status: 500 });
+    }
+
+    const { data: party, error: updateError } = await supabase
+      .from('parties')
+      .update({ overlay_frame_path: framePath })
+      .eq('id', partyId)
+      .select(OVERLAY_COLUMNS)
+      .single();
+
+    if (updateError || !party) {
+      log('error', 'Failed to record overlay frame', {
+        requestId,
+        partyId,
+        error: updateError?.message
+      });
+      await supabase.storage.from(STORAGE_BUCKET).remove([framePath]);
+      return NextResponse.json({ error: 'Failed to update overlay' }, { status: 500 });
+    }
+
+    if (current.overlay_frame_path) {
+      const { error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove([current.overlay_frame_path]);
+
+      if (removeError) {
+        log('warn', 'Failed to remove previous overlay frame', {
+          requestId,
+          partyId,
+          path: current.overlay_frame_path,
+          error: removeError.message
+        });
+      }
+    }
+
+    log('info', 'Overlay frame uploaded', {
+      requestId,
+      partyId,
+      bytes: bytes.length
+    });
+
+    return NextResponse.json(await toPartyOverlay(supabase, party));
+  } catch (error) {
+    log('error', 'Unexpected error uploading overlay frame', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('parties')
+      .select('overlay_frame_path')
+      .eq('id', partyId)
+      .single();
+
+    if (currentError || !current) {
+      return NextResponse.json({ error: 'Party not found' }, { status: 404 });
+    }
+
+    const { data: party, error: updateError } = await supabase
+      .from('parties')
+      .update({ overlay_frame_path: null })
+      .eq('id', partyId)
+      .select(OVERLAY_COLUMNS)
+      .single();
+
+    if (updateError || !party) {
+      log('error', 'Failed to clear overlay frame', {
+        requestId,
+        partyId,
+        error: updateError?.message
+      });
+      return NextResponse.json({ error: 'Failed to update overlay' }, { status: 500 });
+    }
+
+    if (current.overlay_frame_path) {
+      const { error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove([current.overlay_frame_path]);
+
+      if (removeError) {
+        log('warn', 'Failed to remove overlay frame', {
+          requestId,
+          partyId,
+          path: current.overlay_frame_path,
+          error: removeError.message
+        });
+      }
+    }
+
+    log('info', 'Overlay frame removed', {
+      requestId,
+      partyId
+    });
+
+    return NextResponse.json(await toPartyOverlay(supabase, party));
+  } catch (error) {
+    log('error', 'Unexpected error removing overlay frame', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
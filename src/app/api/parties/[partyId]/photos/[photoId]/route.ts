@@ -0,0 +1,262 @@
+/**
+ * PATCH /api/parties/[partyId]/photos/[photoId] - Approve or hide a photo
+ * DELETE /api/parties/[partyId]/photos/[photoId] - Delete a photo and its files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { deletePhoto } from '@/lib/photos';
+import type { PhotoStatus } from '@/types/database';
+
+const log = createLogger('api.parties.photos.detail');
+
+// Moderation actions and the status they lead to
+const MODERATION_ACTIONS: Record<string, PhotoStatus> = {
+  approve: 'visible',
+  hide: 'hidden',
+};
+
+interface RouteParams {
+  params: Promise<{ partyId: string; photoId: string }>;
+}
+
+/**
+ * Take a hidden photo off the TV. Realtime only sends the TV rows it may read (visible
+ * ones), so it never sees the update that hides one; it hears it on its photos channel.
+ * Returns an error message if the broadcast failed.
+ */
+async function notifyPhotoHidden(
+  supabase: ReturnType<typeof createServerClient>,
+  partyId: string,
+  photoId: string
+): Promise<string | null> {
+  const channel = supabase.channel(`photos:${partyId}`);
+  try {
+    const result = await channel.httpSend('photo-hidden', { photoId });
+    return result.success ? null : result.error;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Unknown error';
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId, photoId } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = null;
+    }
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    const { action } = body as { action?: unknown };
+
+    log('info', 'Photo moderation request received', {
+      requestId,
+      partyId,
+      photoId,
+      action
+    });
+
+    const newStatus = typeof action === 'string' && Object.hasOwn(MODERATION_ACTIONS, action) ? MODERATION_ACTIONS[action] : undefined;
+    if (!newStatus) {
+      log('warn', 'Invalid moderation action', {
+        requestId,
+        partyId,
+        photoId,
+        action
+      });
+      return NextResponse.json(
+        { error: `Action must be one of: ${Object.keys(MODERATION_ACTIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const updateStart = Date.now();
+    const { data: photo, error } = await supabase
+      .from('photos')
+      .update({ status: newStatus })
+      .eq('id', photoId)
+      .eq('party_id', partyId)
+      .select('id, status')
+      .single();
+
+    if (error || !photo) {
+      log('warn', 'Photo not found for moderation', {
+        requestId,
+        partyId,
+        photoId,
+        updateTime: Date.now() - updateStart,
+        error: error?.message
+      });
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+
+    if (photo.status === 'hidden') {
+      const notifyError = await notifyPhotoHidden(supabase, partyId, photoId);
+      if (notifyError) {
+        log('warn', 'Failed to tell the TV a photo was hidden', {
+          requestId,
+          partyId,
+          photoId,
+          error: notifyError
+        });
+      }
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Photo moderated successfully', {
+      requestId,
+      partyId,
+      photoId,
+      action,
+      newStatus: photo.status,
+      updateTime: Date.now() - updateStart,
+      totalTime
+    });
+
+    return NextResponse.json({
+      id: photo.id,
+      status: photo.status,
+    });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in photo moderation', {
+      requestId,
+      photoId: (await params).photoId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId, photoId } = await params;
+
+    log('info', 'Photo deletion request received', {
+      requestId,
+      partyId,
+      photoId
+    });
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: photo, error: fetchError } = await supabase
+      .from('photos')
+      .select('id, original_path, tv_path, tv_jpeg_path, thumb_path')
+      .eq('id', photoId)
+      .eq('party_id', partyId)
+      .single();
+
+    if (fetchError || !photo) {
+      log('warn', 'Photo not found for deletion', {
+        requestId,
+        partyId,
+        photoId,
+        error: fetchError?.message
+      });
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleteStart = Date.now();
+    const deletion = await deletePhoto(supabase, photo);
+
+    if (!deletion.ok) {
+      log('error', 'Failed to delete photo record', {
+        requestId,
+        partyId,
+        photoId,
+        deleteTime: Date.now() - deleteStart,
+        error: deletion.error,
+        errorCode: deletion.errorCode
+      });
+      return NextResponse.json(
+        { error: 'Failed to delete photo' },
+        { status: 500 }
+      );
+    }
+
+    if (deletion.removeError) {
+      log('warn', 'Failed to remove photo files from storage', {
+        requestId,
+        partyId,
+        photoId,
+        storagePaths: deletion.storagePaths,
+        error: deletion.removeError
+      });
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Photo deleted successfully', {
+      requestId,
+      partyId,
+      photoId,
+      filesRemoved: deletion.removeError ? 0 : deletion.storagePaths.length,
+      deleteTime: Date.now() - deleteStart,
+      totalTime
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in photo deletion', {
+      requestId,
+      photoId: (await params).photoId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * GET /api/parties/[partyId]/photos - List photos for the host moderation queue
+ * Optional ?status=pending|visible|hidden filter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, getSignedUrls } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import type { PhotoStatus } from '@/types/database';
+
+const log = createLogger('api.parties.photos');
+
+const PHOTO_STATUSES: PhotoStatus[] = ['pending', 'visible', 'hidden'];
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId } = await params;
+    const statusFilter = request.nextUrl.searchParams.get('status');
+
+    log('info', 'Party photos request received', {
+      requestId,
+      partyId,
+      statusFilter
+    });
+
+    if (statusFilter && !PHOTO_STATUSES.includes(statusFilter as PhotoStatus)) {
+      log('warn', 'Invalid status filter', {
+        requestId,
+        partyId,
+        statusFilter
+      });
+      return NextResponse.json(
+        { error: `Status must be one of: ${PHOTO_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const queryStart = Date.now();
+    let query = supabase
+      .from('photos')
+      .select('id, status, comment, created_at, media_type, original_path, tv_path, thumb_path, uploader:uploaders(display_name)')
+      .eq('party_id', partyId)
+      .order('created_at', { ascending: false });
+
+    if (statusFilter) {
+      query = query.eq('status', statusFilter);
+    }
+
+    const { data: photos, error } = await query;
+
+    if (error) {
+      log('error', 'Failed to fetch party photos', {
+        requestId,
+        partyId,
+        queryTime: Date.now() - queryStart,
+        error: error.message,
+        errorCode: error.code
+      });
+      return NextResponse.json(
+        { error: 'Failed to get photos' },
+        { status: 500 }
+      );
+    }
+
+    const urls = await getSignedUrls(supabase, (photos ?? []).flatMap(photo => [
+      photo.thumb_path ?? photo.tv_path,
+      photo.media_type === 'video' ? photo.original_path : null,
+    ]));
+
+    const result = (photos ?? []).map(photo => ({
+      id: photo.id,
+      status: photo.status,
+      comment: photo.comment,
+      createdAt: photo.created_at,
+      uploaderName: (photo.uploader as { display_name: string | null } | null)?.display_name || 'Anonymous',
+      // Photos from before thumbnails existed fall back to the TV version
+      thumbUrl: urls.get(photo.thumb_path ?? photo.tv_path) ?? null,
+      mediaType: photo.media_type,
+      // Hosts moderating a clip need to see more than its poster frame
+      clipUrl: photo.media_type === 'video' ? urls.get(photo.original_path) ?? null : null,
+    }));
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Party photos retrieved successfully', {
+      requestId,
+      partyId,
+      statusFilter,
+      photoCount: result.length,
+      queryTime: Date.now() - queryStart,
+      totalTime
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in party photos', {
+      requestId,
+      partyId: (await params).partyId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,25 @@
 /**
  * POST /api/parties/[id]/regenerate-token - Get the existing join token for a party
  * (Renamed from regenerate-token but keeping URL for compatibility)
+ * Body: { pin?, tokenId? } - without tokenId, the party's oldest active token.
+ * Tokens are created and revoked under /api/parties/[id]/tokens.
+ * Repeated wrong PINs lock the IP (and eventually the party) out with 429 RATE_LIMITED.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { verifyPin } from '@/lib/auth/tokens';
 import type { PartyWithOptionalPin } from '@/types/database';
 import { getAdminPinHash, requiresPin } from '@/types/database';
+import { requirePartyHost } from '@/lib/auth';
 import { createLogger, generateRequestId } from '@/lib/logging';
+import { getJoinTokenStatus } from '@/lib/join-tokens';
+import { clearFailures, countAttempt, getClientIp, pinAttemptChecks, rateLimitedResponse } from '@/lib/rate-limit';
 
 const log = createLogger('api.parties.get-token');
 
 export async function POST(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ partyId: string }> }
 ) {
   const requestId = generateRequestId();
@@ -22,6 +28,16 @@ export async function POST(
   try {
     const supabase = createServerClient();
     const { partyId } = await params;
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
     
     log('info', 'Get join token request received', {
       requestId,
@@ -74,22 +90,39 @@ export async function POST(
       );
     }
 
-    // Get the join token for this party
-    const { data: tokenData, error: tokenError } = await supabase
+    let body;
+    try {
+      body = await request.json();
+    } catch (e) {
+      // No body provided
+      body = {};
+    }
+    const { pin, tokenId } = body;
+
+    // Get the requested join token, or the first one guests can still use
+    let tokenQuery = supabase
       .from('party_join_tokens')
-      .select('token')
-      .eq('party_id', partyId)
-      .single();
+      .select('id, token, label, expires_at, max_joins, join_count, revoked_at')
+      .eq('party_id', partyId);
+    tokenQuery = tokenId
+      ? tokenQuery.eq('id', tokenId)
+      : tokenQuery.order('created_at', { ascending: true });
+    const { data: tokens, error: tokenError } = await tokenQuery;
+
+    const tokenData = tokenId
+      ? tokens?.[0]
+      : tokens?.find(candidate => getJoinTokenStatus(candidate) === 'active');
 
     if (tokenError || !tokenData?.token) {
-      log('error', 'Party has no join token configured', {
+      log('error', 'Party has no usable join token', {
         requestId,
         partyId,
+        tokenId,
         fetchTime: Date.now() - partyFetchStart,
         tokenError: tokenError?.message
       });
       return NextResponse.json(
-        { error: 'Party has no join token configured' },
+        { error: tokenId ? 'Join token not found' : 'Party has no active join token' },
         { status: 404 }
       );
     }
@@ -106,15 +139,6 @@ export async function POST(
     // Check if party requires PIN authentication
     const adminPinHash = getAdminPinHash(party);
     if (adminPinHash) {
-      let body;
-      try {
-        body = await request.json();
-      } catch (e) {
-        // No body provided
-        body = {};
-      }
-      const { pin } = body;
-
       if (!pin) {
         log('warn', 'PIN required but not provided for token retrieval', {
           requestId,
@@ -126,24 +150,54 @@ export async function POST(
         );
       }
 
+      const ip = getClientIp(request);
+      const pinChecks = pinAttemptChecks(partyId, ip);
+      const lockout = await countAttempt(pinChecks, { requestId, route: 'regenerate-token', partyId, ip });
+      if (!lockout.ok) {
+        return rateLimitedResponse(lockout);
+      }
+
       const verifyStart = Date.now();
-      if (!verifyPin(pin, adminPinHash)) {
+      const verification = await verifyPin(pin, adminPinHash);
+      if (!verification.valid) {
         log('warn', 'Invalid PIN provided for token retrieval', {
           requestId,
           partyId,
-          verifyTime: Date.now() - verifyStart
+          ip,
+          verifyTime: Date.now() - verifyStart,
+          securityEvent: 'invalid_pin'
         });
         return NextResponse.json(
           { error: 'Invalid PIN', code: 'INVALID_PIN' },
           { status: 403 }
         );
       }
+      await clearFailures(pinChecks);
       
       log('info', 'PIN verified successfully', {
         requestId,
         partyId,
         verifyTime: Date.now() - verifyStart
       });
+
+      // Upgrade a legacy SHA-256 PIN hash now that we have the PIN; the token is returned either way
+      if (verification.rehash) {
+        const { error: rehashError } = await supabase
+          .from('parties')
+          .update({ admin_pin_hash: verification.rehash })
+          .eq('id', partyId)
+          .eq('admin_pin_hash', adminPinHash);
+
+        if (rehashError) {
+          log('warn', 'Failed to upgrade legacy PIN hash', {
+            requestId,
+            partyId,
+            error: rehashError.message
+          });
+        } else {
+          log('info', 'Legacy PIN hash upgraded', { requestId, partyId });
+        }
+      }
     }
 
     // Return the existing join token
@@ -156,7 +210,7 @@ export async function POST(
       totalTime
     });
 
-    return NextResponse.json({ joinToken });
+    return NextResponse.json({ joinToken, tokenId: tokenData.id, label: tokenData.label });
 
   } catch (error) {
     const totalTime = Date.now() - startTime;
@@ -1,13 +1,15 @@
 /**
  * GET /api/parties/[partyId] - Get party details
- * PATCH /api/parties/[partyId] - Update party name or status
+ * PATCH /api/parties/[partyId] - Update party name, status, countdown, PIN or moderation mode
  * DELETE /api/parties/[partyId] - Delete party and all data
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, STORAGE_BUCKET, getPartyFolder } from '@/lib/supabase/server';
 import { hashPin, verifyPin } from '@/lib/auth/tokens';
+import { requirePartyHost } from '@/lib/auth';
 import { createLogger, generateRequestId } from '@/lib/logging';
+import { clearFailures, countAttempt, getClientIp, pinAttemptChecks, rateLimitedResponse } from '@/lib/rate-limit';
 
 const log = createLogger('api.parties.detail');
 
@@ -33,7 +35,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const partyQueryStart = Date.now();
     const { data: party, error } = await supabase
       .from('parties')
-      .select('id, name, status, created_at, countdown_target')
+      .select('id, name, status, created_at, countdown_target, moderation_mode')
       .eq('id', partyId)
       .single();
 
@@ -95,6 +97,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       status: party.status,
       createdAt: party.created_at,
       countdownTarget: party.countdown_target,
+      moderationMode: party.moderation_mode,
       photoCount: photoCount ?? 0,
       uploaderCount: uploaderCount ?? 0,
     });
@@ -130,6 +133,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     const supabase = createServerClient();
 
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
     // Handle name updates
     if (body.name !== undefined) {
       log('info', 'Processing name update', {
@@ -317,6 +330,65 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // Handle moderation mode updates
+    if (body.moderationMode !== undefined) {
+      log('info', 'Processing moderation mode update', {
+        requestId,
+        partyId,
+        newModerationMode: body.moderationMode
+      });
+
+      if (!['off', 'post', 'pre'].includes(body.moderationMode)) {
+        log('warn', 'Invalid moderation mode provided', {
+          requestId,
+          partyId,
+          providedMode: body.moderationMode
+        });
+        return NextResponse.json(
+          { error: 'Moderation mode must be one of: off, post, pre' },
+          { status: 400 }
+        );
+      }
+
+      const updateStart = Date.now();
+      const { data: party, error } = await supabase
+        .from('parties')
+        .update({ moderation_mode: body.moderationMode })
+        .eq('id', partyId)
+        .select('id, name, status, created_at, moderation_mode')
+        .single();
+
+      if (error || !party) {
+        log('error', 'Failed to update moderation mode', {
+          requestId,
+          partyId,
+          updateTime: Date.now() - updateStart,
+          error: error?.message
+        });
+        return NextResponse.json(
+          { error: 'Party not found' },
+          { status: 404 }
+        );
+      }
+
+      const totalTime = Date.now() - startTime;
+      log('info', 'Moderation mode updated successfully', {
+        requestId,
+        partyId,
+        newModerationMode: party.moderation_mode,
+        updateTime: Date.now() - updateStart,
+        totalTime
+      });
+
+      return NextResponse.json({
+        id: party.id,
+        name: party.name,
+        status: party.status,
+        createdAt: party.created_at,
+        moderationMode: party.moderation_mode,
+      });
+    }
+
     // Handle PIN updates (set or remove)
     if (body.pin !== undefined) {
       if (body.pin === null) {
@@ -374,18 +446,28 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
           );
         }
 
+        const ip = getClientIp(request);
+        const pinChecks = pinAttemptChecks(partyId, ip);
+        const lockout = await countAttempt(pinChecks, { requestId, route: 'remove-pin', partyId, ip });
+        if (!lockout.ok) {
+          return rateLimitedResponse(lockout);
+        }
+
         const verifyStart = Date.now();
-        if (!verifyPin(body.currentPin, adminPinHash)) {
+        if (!(await verifyPin(body.currentPin, adminPinHash)).valid) {
           log('warn', 'Invalid current PIN provided for removal', {
             requestId,
             partyId,
-            verifyTime: Date.now() - verifyStart
+            ip,
+            verifyTime: Date.now() - verifyStart,
+            securityEvent: 'invalid_pin'
           });
           return NextResponse.json(
             { error: 'Invalid current PIN', code: 'INVALID_PIN' },
             { status: 403 }
           );
         }
+        await clearFailures(pinChecks);
 
         // Remove PIN
         const updateStart = Date.now();
@@ -448,7 +530,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         }
 
         const hashStart = Date.now();
-        const pinHash = hashPin(body.pin);
+        const pinHash = await hashPin(body.pin);
         const hashTime = Date.now() - hashStart;
         
         const updateStart = Date.now();
@@ -532,6 +614,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     
     const supabase = createServerClient();
 
+    const access = await requirePartyHost(request, supabase, partyId, { ownerOnly: true });
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
     // First, delete all photos from storage (including subdirectories)
     const partyFolder = getPartyFolder(partyId);
     
@@ -542,7 +634,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       bucket: STORAGE_BUCKET
     });
     
-    // List files in all subdirectories: original/ and tv/
+    // List files in all subdirectories: original/, tv/, thumb/ and overlay/
     const listStart = Date.now();
     const allFiles: string[] = [];
     
@@ -576,6 +668,36 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       allFiles.push(...tvFiles.map(f => `${partyFolder}/tv/${f.name}`));
     }
 
+    // List files in thumb/ subdirectory
+    const { data: thumbFiles, error: thumbListError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(`${partyFolder}/thumb`, { limit: 1000 });
+    
+    if (thumbListError) {
+      log('error', 'Failed to list thumbnail files', {
+        requestId,
+        partyId,
+        error: thumbListError.message
+      });
+    } else if (thumbFiles && thumbFiles.length > 0) {
+      allFiles.push(...thumbFiles.map(f => `${partyFolder}/thumb/${f.name}`));
+    }
+
+    // List files in overlay/ subdirectory (the party frame)
+    const { data: overlayFiles, error: overlayListError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(`${partyFolder}/overlay`, { limit: 1000 });
+    
+    if (overlayListError) {
+      log('error', 'Failed to list overlay files', {
+        requestId,
+        partyId,
+        error: overlayListError.message
+      });
+    } else if (overlayFiles && overlayFiles.length > 0) {
+      allFiles.push(...overlayFiles.map(f => `${partyFolder}/overlay/${f.name}`));
+    }
+
     const fileCount = allFiles.length;
     let storageRemoveTime = 0;
     
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
 import { createLogger, generateRequestId } from '@/lib/logging';
+import { UPLOAD_LIMIT_COLUMNS, getPartyStorageBytes, toUploadLimits } from '@/lib/quotas';
+import { JOIN_TOKEN_COLUMNS, toJoinTokenInfo } from '@/lib/join-tokens';
 
 const log = createLogger('api.parties.stats');
 
@@ -31,6 +34,16 @@ export async function GET(
     
     const supabase = createServerClient();
 
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
     // Get all photos with their uploaders
     const photosQueryStart = Date.now();
     const { data: photos, error: photosError } = await supabase
@@ -82,6 +95,39 @@ export async function GET(
       return NextResponse.json({ error: uploadersError.message }, { status: 500 });
     }
 
+    // Storage used against the party's upload limits
+    const [{ data: limitsRow, error: limitsError }, storageBytes] = await Promise.all([
+      supabase.from('parties').select(UPLOAD_LIMIT_COLUMNS).eq('id', partyId).single(),
+      getPartyStorageBytes(supabase, partyId),
+    ]);
+
+    if (limitsError || !limitsRow) {
+      log('error', 'Failed to fetch upload limits for stats', {
+        requestId,
+        partyId,
+        error: limitsError?.message
+      });
+      return NextResponse.json({ error: 'Failed to get upload limits' }, { status: 500 });
+    }
+
+    const limits = toUploadLimits(limitsRow);
+
+    // Joins per QR code
+    const { data: joinTokens, error: joinTokensError } = await supabase
+      .from('party_join_tokens')
+      .select(JOIN_TOKEN_COLUMNS)
+      .eq('party_id', partyId)
+      .order('created_at', { ascending: true });
+
+    if (joinTokensError) {
+      log('error', 'Failed to fetch join tokens for stats', {
+        requestId,
+        partyId,
+        error: joinTokensError.message
+      });
+      return NextResponse.json({ error: 'Failed to get join tokens' }, { status: 500 });
+    }
+
     log('info', 'Uploaders fetched, building stats', {
       requestId,
       partyId,
@@ -290,6 +336,8 @@ export async function GET(
     totalTime
   });
 
+  const { maxPhotosPerGuest } = limits;
+
   return NextResponse.json({
     trophies,
     summary: {
@@ -297,6 +345,14 @@ export async function GET(
       totalGuests: uploaders?.length || 0,
       totalComments: photos?.filter(p => p.comment).length || 0,
     },
+    usage: {
+      storageBytes,
+      limits,
+      guestsAtPhotoLimit: maxPhotosPerGuest !== null
+        ? uploaderStats.filter(u => u.photo_count >= maxPhotosPerGuest).length
+        : 0,
+    },
+    joinTokens: (joinTokens || []).map(toJoinTokenInfo),
   });
   } catch (error) {
     const totalTime = Date.now() - startTime;
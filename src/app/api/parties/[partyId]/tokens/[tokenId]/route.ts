@@ -0,0 +1,97 @@
+/**
+ * PATCH /api/parties/[partyId]/tokens/[tokenId] - Rename a join token, change its expiry
+ * or join limit, or revoke it ({ revoked: true }; false restores it)
+ * Revoked tokens are kept so their joins still show in the stats.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { JOIN_TOKEN_COLUMNS, parseJoinTokenSettings, toJoinTokenInfo } from '@/lib/join-tokens';
+import { validate as isUuid } from 'uuid';
+
+const log = createLogger('api.parties.tokens.detail');
+
+interface RouteParams {
+  params: Promise<{ partyId: string; tokenId: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId, tokenId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (!isUuid(tokenId)) {
+      return NextResponse.json({ error: 'Join token not found' }, { status: 404 });
+    }
+
+    const parsed = parseJoinTokenSettings(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const update: typeof parsed.settings & { revoked_at?: string | null } = { ...parsed.settings };
+    if (body.revoked !== undefined) {
+      if (typeof body.revoked !== 'boolean') {
+        return NextResponse.json({ error: 'Invalid revoked value' }, { status: 400 });
+      }
+      update.revoked_at = body.revoked ? new Date().toISOString() : null;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Invalid update' }, { status: 400 });
+    }
+
+    const { data: token, error } = await supabase
+      .from('party_join_tokens')
+      .update(update)
+      .eq('id', tokenId)
+      .eq('party_id', partyId)
+      .select(JOIN_TOKEN_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      log('error', 'Failed to update join token', {
+        requestId,
+        partyId,
+        tokenId,
+        error: error.message
+      });
+      return NextResponse.json({ error: 'Failed to update join token' }, { status: 500 });
+    }
+
+    if (!token) {
+      return NextResponse.json({ error: 'Join token not found' }, { status: 404 });
+    }
+
+    log('info', 'Join token updated', {
+      requestId,
+      partyId,
+      tokenId,
+      ...update
+    });
+
+    return NextResponse.json(toJoinTokenInfo(token));
+  } catch (error) {
+    log('error', 'Unexpected error updating join token', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
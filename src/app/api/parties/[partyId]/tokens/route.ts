@@ -0,0 +1,129 @@
+/**
+ * GET /api/parties/[partyId]/tokens - List the party's join tokens with their join counts
+ * POST /api/parties/[partyId]/tokens - Create a named join token, optionally expiring or limited
+ * The tokens themselves are only handed out by regenerate-token, which checks the admin PIN.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { generateJoinToken } from '@/lib/auth/tokens';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { JOIN_TOKEN_COLUMNS, parseJoinTokenSettings, toJoinTokenInfo } from '@/lib/join-tokens';
+
+const log = createLogger('api.parties.tokens');
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: tokens, error } = await supabase
+      .from('party_join_tokens')
+      .select(JOIN_TOKEN_COLUMNS)
+      .eq('party_id', partyId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      log('error', 'Failed to list join tokens', {
+        requestId,
+        partyId,
+        error: error.message
+      });
+      return NextResponse.json({ error: 'Failed to list join tokens' }, { status: 500 });
+    }
+
+    return NextResponse.json({ tokens: (tokens || []).map(toJoinTokenInfo) });
+  } catch (error) {
+    log('error', 'Unexpected error listing join tokens', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    if (body.label === undefined) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    const parsed = parseJoinTokenSettings(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: token, error } = await supabase
+      .from('party_join_tokens')
+      .insert({
+        party_id: partyId,
+        token: generateJoinToken(),
+        label: parsed.settings.label as string,
+        expires_at: parsed.settings.expires_at ?? null,
+        max_joins: parsed.settings.max_joins ?? null,
+      })
+      .select(JOIN_TOKEN_COLUMNS)
+      .single();
+
+    if (error || !token) {
+      log('error', 'Failed to create join token', {
+        requestId,
+        partyId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Failed to create join token' }, { status: 500 });
+    }
+
+    log('info', 'Join token created', {
+      requestId,
+      partyId,
+      tokenId: token.id,
+      label: token.label,
+      expiresAt: token.expires_at,
+      maxJoins: token.max_joins
+    });
+
+    return NextResponse.json(toJoinTokenInfo(token), { status: 201 });
+  } catch (error) {
+    log('error', 'Unexpected error creating join token', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * GET /api/parties/[partyId]/tv-photos - The party's visible photos for the TV, with signed
+ * URLs for their files (the bucket is private, so pending and hidden photos can't be read)
+ * Query: ?photoId= for a single photo (an empty list if it isn't visible)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validate as isUuid } from 'uuid';
+import { createServerClient, getSignedUrls } from '@/lib/supabase/server';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import type { Photo, PhotoWithUploader, TvPhoto } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('api.parties.tv-photos');
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+// Where browsers that can't decode an AVIF/WebP TV version get a JPEG: its JPEG copy,
+// or the thumbnail for photos uploaded before copies existed. Never the full-size original.
+function getJpegTvPath(photo: Photo): string {
+  if (!photo.tv_mime || photo.tv_mime === 'image/jpeg') {
+    return photo.tv_path;
+  }
+  return photo.tv_jpeg_path ?? photo.thumb_path ?? photo.tv_path;
+}
+
+// Clips play on the TV from their original; photos never hand it out
+function getClipPath(photo: Photo): string | null {
+  return photo.media_type === 'video' ? photo.original_path : null;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const photoId = request.nextUrl.searchParams.get('photoId');
+
+    if (!isUuid(partyId) || (photoId !== null && !isUuid(photoId))) {
+      return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    let query = supabase
+      .from('photos')
+      .select('*, uploader:uploaders(display_name)')
+      .eq('party_id', partyId)
+      .eq('status', 'visible')
+      .order('created_at', { ascending: true });
+
+    if (photoId) {
+      query = query.eq('id', photoId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      log('error', 'Failed to fetch TV photos', {
+        requestId,
+        partyId,
+        photoId,
+        error: error.message
+      });
+      return NextResponse.json({ error: 'Failed to get photos' }, { status: 500 });
+    }
+
+    const rows = (data ?? []) as PhotoWithUploader[];
+    const urls = await getSignedUrls(supabase, rows.flatMap(photo => [
+      photo.tv_path,
+      getJpegTvPath(photo),
+      photo.thumb_path ?? photo.tv_path,
+      getClipPath(photo),
+    ]));
+
+    const photos: TvPhoto[] = rows.map(photo => {
+      const clipPath = getClipPath(photo);
+      return {
+        ...photo,
+        urls: {
+          tv: urls.get(photo.tv_path) ?? null,
+          fallback: urls.get(getJpegTvPath(photo)) ?? null,
+          // Small rendition for the remote; photos from before thumbnails existed use the TV version
+          thumb: urls.get(photo.thumb_path ?? photo.tv_path) ?? null,
+          clip: clipPath ? urls.get(clipPath) ?? null : null,
+        },
+      };
+    });
+
+    return NextResponse.json({ photos });
+  } catch (error) {
+    log('error', 'Unexpected error getting TV photos', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
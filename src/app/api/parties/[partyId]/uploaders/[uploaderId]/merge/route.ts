@@ -0,0 +1,90 @@
+/**
+ * POST /api/parties/[partyId]/uploaders/[uploaderId]/merge - Merge a duplicate guest into another
+ * Body: { intoId } - the guest to keep. The duplicate's photos move to them (so stats and
+ * downloads count them together) and the duplicate is deleted, signing its devices out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+const log = createLogger('api.parties.uploaders.merge');
+
+interface RouteParams {
+  params: Promise<{ partyId: string; uploaderId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId, uploaderId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const intoId = body.intoId;
+    if (typeof intoId !== 'string' || !intoId || intoId === uploaderId) {
+      return NextResponse.json({ error: 'Choose another guest to merge into' }, { status: 400 });
+    }
+
+    // Both must be guests of this party; the function checks that they share one
+    const { count, error: countError } = await supabase
+      .from('uploaders')
+      .select('id', { count: 'exact', head: true })
+      .eq('party_id', partyId)
+      .in('id', [uploaderId, intoId]);
+
+    if (countError || count !== 2) {
+      return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
+    }
+
+    const { data: movedPhotos, error } = await supabase.rpc('merge_uploaders', {
+      p_source_id: uploaderId,
+      p_target_id: intoId
+    });
+
+    if (error) {
+      log('error', 'Failed to merge guests', {
+        requestId,
+        partyId,
+        uploaderId,
+        intoId,
+        error: error.message
+      });
+      return NextResponse.json({ error: 'Failed to merge guests' }, { status: 500 });
+    }
+
+    if (movedPhotos === null) {
+      return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
+    }
+
+    log('info', 'Guests merged', {
+      requestId,
+      partyId,
+      uploaderId,
+      intoId,
+      movedPhotos,
+      hostId: access.host.hostId
+    });
+
+    return NextResponse.json({ movedPhotos });
+  } catch (error) {
+    log('error', 'Unexpected error merging guests', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * PATCH /api/parties/[partyId]/uploaders/[uploaderId] - Rename a guest, or ban/unban them
+ * Body: { displayName?, banned? }
+ * Banning signs the guest out on every device and refuses their name at /api/join;
+ * their photos stay (hide them from moderation if needed).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost, revokeUploaderSessions } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { findUploadersByName, parseUploaderUpdate } from '@/lib/uploaders';
+import type { UploaderUpdate } from '@/types/database';
+
+const log = createLogger('api.parties.uploaders.detail');
+
+interface RouteParams {
+  params: Promise<{ partyId: string; uploaderId: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId, uploaderId } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const parsed = parseUploaderUpdate(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { displayName, banned } = parsed.changes;
+
+    const { data: uploader, error: uploaderError } = await supabase
+      .from('uploaders')
+      .select('id, banned_at')
+      .eq('id', uploaderId)
+      .eq('party_id', partyId)
+      .maybeSingle();
+
+    if (uploaderError || !uploader) {
+      return NextResponse.json({ error: 'Guest not found' }, { status: 404 });
+    }
+
+    const columns: UploaderUpdate = {};
+
+    if (displayName !== undefined) {
+      const others = (await findUploadersByName(supabase, partyId, displayName))
+        .filter(match => match.id !== uploaderId);
+      if (others.length > 0) {
+        return NextResponse.json(
+          { error: 'Another guest already has this name. Merge them instead.', code: 'NAME_TAKEN' },
+          { status: 409 }
+        );
+      }
+      columns.display_name = displayName;
+    }
+
+    if (banned !== undefined) {
+      columns.banned_at = banned ? uploader.banned_at ?? new Date().toISOString() : null;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('uploaders')
+      .update(columns)
+      .eq('id', uploaderId)
+      .select('id, display_name, banned_at')
+      .single();
+
+    if (error || !updated) {
+      log('error', 'Failed to update guest', {
+        requestId,
+        partyId,
+        uploaderId,
+        error: error?.message
+      });
+      return NextResponse.json({ error: 'Failed to update guest' }, { status: 500 });
+    }
+
+    let revokedSessions = 0;
+    if (banned) {
+      revokedSessions = await revokeUploaderSessions(uploaderId);
+    }
+
+    log('info', 'Guest updated', {
+      requestId,
+      partyId,
+      uploaderId,
+      renamed: displayName !== undefined,
+      banned,
+      revokedSessions,
+      hostId: access.host.hostId,
+      ...(banned !== undefined && { securityEvent: banned ? 'guest_banned' : 'guest_unbanned' })
+    });
+
+    return NextResponse.json({
+      id: updated.id,
+      displayName: updated.display_name || 'Anonymous',
+      banned: !!updated.banned_at,
+    });
+  } catch (error) {
+    log('error', 'Unexpected error updating guest', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * DELETE /api/parties/[partyId]/uploaders/[uploaderId]/sessions - Kick a guest:
+ * sign them out on every device. They can join again by scanning a QR code.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost, revokeUploaderSessions } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+const log = createLogger('api.parties.uploaders.sessions');
+
+interface RouteParams {
+  params: Promise<{ partyId: string; uploaderId: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { partyId, uploaderId } = await params;
+
+    log('info', 'Guest sign-out request received', {
+      requestId,
+      partyId,
+      uploaderId
+    });
+
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { data: uploader, error: uploaderError } = await supabase
+      .from('uploaders')
+      .select('id')
+      .eq('id', uploaderId)
+      .eq('party_id', partyId)
+      .maybeSingle();
+
+    if (uploaderError || !uploader) {
+      return NextResponse.json(
+        { error: 'Guest not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await revokeUploaderSessions(uploaderId);
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Guest signed out by host', {
+      requestId,
+      partyId,
+      uploaderId,
+      revokedSessions: revoked,
+      hostId: access.host.hostId,
+      securityEvent: 'guest_kicked',
+      totalTime
+    });
+
+    return NextResponse.json({ revokedSessions: revoked });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error signing out guest', {
+      requestId,
+      partyId: (await params).partyId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * GET /api/parties/[partyId]/uploaders - List the party's guests with their photo counts,
+ * how many devices each is signed in on and whether they're banned
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requirePartyHost } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import type { PartyGuest } from '@/types/database';
+
+const log = createLogger('api.parties.uploaders');
+
+interface RouteParams {
+  params: Promise<{ partyId: string }>;
+}
+
+function countBy(rows: { uploader_id: string }[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.uploader_id, (counts.get(row.uploader_id) || 0) + 1);
+  }
+  return counts;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+
+  try {
+    const { partyId } = await params;
+    const supabase = createServerClient();
+
+    const access = await requirePartyHost(request, supabase, partyId);
+    if (!access.ok) {
+      log('warn', 'Party access denied', {
+        requestId,
+        partyId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [uploadersResult, photosResult, sessionsResult] = await Promise.all([
+      supabase
+        .from('uploaders')
+        .select('id, display_name, banned_at, created_at')
+        .eq('party_id', partyId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('photos')
+        .select('uploader_id')
+        .eq('party_id', partyId),
+      supabase
+        .from('guest_sessions')
+        .select('uploader_id')
+        .eq('party_id', partyId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString()),
+    ]);
+
+    const error = uploadersResult.error || photosResult.error || sessionsResult.error;
+    if (error) {
+      log('error', 'Failed to list guests', {
+        requestId,
+        partyId,
+        error: error.message
+      });
+      return NextResponse.json({ error: 'Failed to list guests' }, { status: 500 });
+    }
+
+    const photoCounts = countBy(photosResult.data || []);
+    const sessionCounts = countBy(sessionsResult.data || []);
+
+    const guests: PartyGuest[] = (uploadersResult.data || []).map(uploader => ({
+      id: uploader.id,
+      displayName: uploader.display_name || 'Anonymous',
+      photoCount: photoCounts.get(uploader.id) || 0,
+      activeSessions: sessionCounts.get(uploader.id) || 0,
+      banned: !!uploader.banned_at,
+      joinedAt: uploader.created_at,
+    }));
+
+    return NextResponse.json({ guests });
+  } catch (error) {
+    log('error', 'Unexpected error listing guests', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 /**
- * GET /api/parties - List all parties with stats
- * POST /api/parties - Create a new party
+ * GET /api/parties - List the parties the signed-in host owns or co-hosts, with stats
+ * POST /api/parties - Create a new party owned by the signed-in host
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { generateJoinToken } from '@/lib/auth/tokens';
+import { DEFAULT_JOIN_TOKEN_LABEL } from '@/lib/join-tokens';
+import { requireHost, getHostPartyIds } from '@/lib/auth';
 import { generateUniquePartyName } from '@/lib/party-names';
 import type { PartyWithOptionalPin } from '@/types/database';
 import { requiresPin } from '@/types/database';
@@ -13,16 +15,31 @@ import { createLogger, generateRequestId } from '@/lib/logging';
 
 const log = createLogger('api.parties');
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const requestId = generateRequestId();
   const startTime = Date.now();
   
   try {
+    const access = await requireHost(request);
+    if (!access.ok) {
+      log('warn', 'Parties list denied', {
+        requestId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { hostId } = access.host;
+
     log('info', 'Parties list request received', {
-      requestId
+      requestId,
+      hostId
     });
     
     const supabase = createServerClient();
+
+    // Parties this host owns or has been invited to co-host
+    const partyIds = await getHostPartyIds(supabase, hostId);
     
     // Get all parties - use a type-safe query that may or may not include admin_pin_hash
     const partiesQueryStart = Date.now();
@@ -32,7 +49,8 @@ export async function GET() {
     // Try with admin_pin_hash first
     const { data: fullParties, error: fullError } = await supabase
       .from('parties')
-      .select('id, name, status, created_at, admin_pin_hash')
+      .select('id, name, status, created_at, moderation_mode, host_id, admin_pin_hash')
+      .in('id', partyIds)
       .order('created_at', { ascending: false });
 
     if (fullError && (fullError.message?.includes('admin_pin_hash') || fullError.code === '42703')) {
@@ -45,7 +63,8 @@ export async function GET() {
       // Fallback to basic query without admin_pin_hash
       const { data: basicParties, error: basicError } = await supabase
         .from('parties')
-        .select('id, name, status, created_at')
+        .select('id, name, status, created_at, moderation_mode, host_id')
+        .in('id', partyIds)
         .order('created_at', { ascending: false });
       
       // Map to PartyWithOptionalPin type (admin_pin_hash will be undefined)
@@ -91,12 +110,19 @@ export async function GET() {
           .select('*', { count: 'exact', head: true })
           .eq('party_id', party.id);
 
-        if (photoError || uploaderError) {
+        const { count: pendingCount, error: pendingError } = await supabase
+          .from('photos')
+          .select('*', { count: 'exact', head: true })
+          .eq('party_id', party.id)
+          .eq('status', 'pending');
+
+        if (photoError || uploaderError || pendingError) {
           log('warn', 'Failed to get counts for party', {
             requestId,
             partyId: party.id,
             photoError: photoError?.message,
-            uploaderError: uploaderError?.message
+            uploaderError: uploaderError?.message,
+            pendingError: pendingError?.message
           });
         }
 
@@ -107,6 +133,9 @@ export async function GET() {
           createdAt: party.created_at,
           photoCount: photoCount ?? 0,
           uploaderCount: uploaderCount ?? 0,
+          pendingCount: pendingCount ?? 0,
+          moderationMode: party.moderation_mode,
+          role: party.host_id === hostId ? 'owner' : 'cohost',
           requiresPin: requiresPin(party),
         };
       })
@@ -137,13 +166,25 @@ export async function GET() {
   }
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   const requestId = Math.random().toString(36).substring(2, 10);
   const startTime = Date.now();
   
   try {
+    const access = await requireHost(request);
+    if (!access.ok) {
+      log('warn', 'Party creation denied', {
+        requestId,
+        reason: access.error
+      });
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { hostId } = access.host;
+
     log('info', 'Party creation request received', {
-      requestId
+      requestId,
+      hostId
     });
     
     const supabase = createServerClient();
@@ -182,9 +223,10 @@ export async function POST() {
       .from('parties')
       .insert({
         name: partyName,
-        status: 'active'
+        status: 'active',
+        host_id: hostId
       })
-      .select('id, name, status, created_at')
+      .select('id, name, status, created_at, moderation_mode')
       .single();
 
     if (error) {
@@ -207,7 +249,8 @@ export async function POST() {
       .from('party_join_tokens')
       .insert({
         party_id: party.id,
-        token: joinToken
+        token: joinToken,
+        label: DEFAULT_JOIN_TOKEN_LABEL
       });
 
     if (tokenError) {
@@ -245,6 +288,8 @@ export async function POST() {
       name: party.name,
       status: party.status,
       createdAt: party.created_at,
+      moderationMode: party.moderation_mode,
+      role: 'owner',
       joinToken, // Only returned once - client should save/display this
     });
   } catch (error) {
@@ -0,0 +1,419 @@
+/**
+ * POST /api/photos/finalize
+ * Create the photo record once the client has uploaded its files via the signed URLs
+ * from prepare-upload. The uploaded objects are checked against the declared size and
+ * mime before the row is inserted with the service role.
+ * Thumbnails are optional: uploads queued before they existed finalize without one.
+ * Photo originals must be one of the PHOTO_FORMATS and within IMAGE.MAX_FILE_SIZE_BYTES
+ * (BOOTH.ANIMATION_MAX_FILE_SIZE_BYTES for GIFs, kept as taken).
+ * Clips (mediaType 'video') are checked against the VIDEO caps and need their poster
+ * frame uploaded as the TV version.
+ * An AVIF or WebP TV version needs its JPEG copy (hasTvJpeg), which TVs that can't decode
+ * the format show instead.
+ * Photo edits (crop, rotation, filter) are recorded as sent; malformed ones are dropped.
+ * The party's upload limits are checked with the stored sizes by the same statement
+ * that inserts the row (insert_photo_within_limits), so parallel finalizes can't overshoot
+ * them; uploads over them are deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, STORAGE_BUCKET, getOriginalPath, getTvPath, getThumbPath } from '@/lib/supabase/server';
+import { verifySession } from '@/lib/auth/session';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import {
+  BOOTH, COMMENT_MAX_LENGTH, CROP_ASPECTS, IMAGE, PHOTO_FILTERS, PHOTO_FORMATS, ROTATIONS, TV_FORMATS, VIDEO, VIDEO_FORMATS
+} from '@/lib/constants';
+import type { MediaType, PhotoEdit } from '@/types/database';
+import { explainLimitReached } from '@/lib/quotas';
+import { validate as isUuid } from 'uuid';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('api.photos.finalize');
+
+// Browsers round clip lengths differently; don't reject a clip that is right at the cap
+const DURATION_SLACK_MS = 500;
+
+// Camera clocks drift and timezones guess wrong; allow some slack before calling a capture time bogus
+const TAKEN_AT_MAX_FUTURE_MS = 24 * 60 * 60 * 1000;
+
+interface FinalizeUploadRequest {
+  photoId: string;
+  originalExt: string;
+  originalMime: string;
+  originalBytes: number;
+  hasTvVersion: boolean;
+  tvBytes?: number | null;
+  tvExt?: string; // Format of the TV version, 'jpg' if omitted
+  hasTvJpeg?: boolean; // JPEG copy of an AVIF/WebP TV version
+  tvJpegBytes?: number | null;
+  hasThumbnail?: boolean;
+  thumbBytes?: number | null;
+  comment?: string | null;
+  takenAt?: string | null; // Capture time from the photo's EXIF (ISO)
+  mediaType?: MediaType; // 'photo' if omitted
+  durationMs?: number | null; // Clip length, for videos
+  edit?: PhotoEdit | null; // Guest edit applied to the TV version and thumbnail
+  partyId?: string; // Party the upload was queued for
+}
+
+/**
+ * Parse the client-reported capture time. Unparseable or future times are dropped.
+ */
+function parseTakenAt(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (isNaN(time) || time > Date.now() + TAKEN_AT_MAX_FUTURE_MS) {
+    return null;
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Parse the client-reported photo edit. Anything but a known crop, rotation and filter is dropped.
+ */
+function parsePhotoEdit(value: unknown): PhotoEdit | null {
+  if (!value || typeof value !== 'object') return null;
+  const { aspect, rotation, filter } = value as Record<string, unknown>;
+  const known =
+    CROP_ASPECTS.some(option => option.aspect === aspect) &&
+    ROTATIONS.some(option => option === rotation) &&
+    PHOTO_FILTERS.some(option => option.filter === filter);
+  return known ? { aspect, rotation, filter } as PhotoEdit : null;
+}
+
+type StoredObjectCheck =
+  | { ok: true }
+  | { ok: false; reason: 'missing' | 'size_mismatch' | 'mime_mismatch'; actual?: string | number };
+
+async function checkStoredObject(
+  supabase: ReturnType<typeof createServerClient>,
+  path: string,
+  expectedBytes: number,
+  expectedMime: string
+): Promise<StoredObjectCheck> {
+  const { data, error } = await supabase.storage.from(STORAGE_BUCKET).info(path);
+
+  if (error || !data) {
+    return { ok: false, reason: 'missing' };
+  }
+  if (data.size !== expectedBytes) {
+    return { ok: false, reason: 'size_mismatch', actual: data.size };
+  }
+  if (data.contentType !== expectedMime) {
+    return { ok: false, reason: 'mime_mismatch', actual: data.contentType };
+  }
+  return { ok: true };
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    // Step 1: Authenticate
+    const sessionToken = request.cookies.get('photobooze_session')?.value;
+    if (!sessionToken) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const session = await verifySession(sessionToken);
+    if (!session) {
+      return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+    }
+
+    const { partyId, uploaderId } = session;
+
+    // Step 2: Parse and validate request
+    const body = await request.json() as FinalizeUploadRequest;
+    const {
+      photoId, originalExt, originalMime, originalBytes, hasTvVersion, tvBytes, hasThumbnail, thumbBytes, comment, takenAt
+    } = body;
+    const mediaType = body.mediaType ?? 'photo';
+    const isVideo = mediaType === 'video';
+    const tvFormat = TV_FORMATS.find(format => format.ext === (body.tvExt ?? 'jpg'));
+    const hasTvJpeg = !!hasTvVersion && !!tvFormat && tvFormat.mime !== 'image/jpeg';
+
+    log('info', 'Finalize upload request received', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId,
+      originalExt,
+      originalMime,
+      originalBytes,
+      hasTvVersion: !!hasTvVersion,
+      tvBytes,
+      tvExt: body.tvExt,
+      hasTvJpeg: !!body.hasTvJpeg,
+      tvJpegBytes: body.tvJpegBytes,
+      hasThumbnail: !!hasThumbnail,
+      thumbBytes,
+      mediaType,
+      durationMs: body.durationMs
+    });
+
+    if (
+      typeof photoId !== 'string' || !isUuid(photoId) ||
+      typeof originalExt !== 'string' || !/^[a-z0-9]{1,10}$/.test(originalExt) ||
+      typeof originalMime !== 'string' || !originalMime ||
+      typeof originalBytes !== 'number' ||
+      (hasTvVersion && (typeof tvBytes !== 'number' || !tvFormat)) ||
+      (hasTvJpeg && (!body.hasTvJpeg || typeof body.tvJpegBytes !== 'number')) ||
+      (hasThumbnail && typeof thumbBytes !== 'number') ||
+      (takenAt != null && typeof takenAt !== 'string') ||
+      (comment != null && typeof comment !== 'string') ||
+      (mediaType !== 'photo' && mediaType !== 'video')
+    ) {
+      log('warn', 'Invalid finalize payload', {
+        requestId,
+        partyId,
+        photoId
+      });
+      return NextResponse.json({ error: 'Invalid upload metadata' }, { status: 400 });
+    }
+
+    const trimmedComment = comment?.trim() || null;
+    if (trimmedComment && trimmedComment.length > COMMENT_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be at most ${COMMENT_MAX_LENGTH} characters`, code: 'COMMENT_TOO_LONG' },
+        { status: 400 }
+      );
+    }
+
+    // Clips: stored as uploaded, so the caps are checked here; the TV version is the poster frame
+    if (isVideo) {
+      const { durationMs } = body;
+      const format = VIDEO_FORMATS.find(f => f.ext === originalExt);
+
+      if (!format || format.mime !== originalMime || !hasTvVersion || typeof durationMs !== 'number' || durationMs <= 0) {
+        log('warn', 'Invalid clip payload', {
+          requestId,
+          partyId,
+          photoId,
+          originalExt,
+          originalMime,
+          durationMs
+        });
+        return NextResponse.json({ error: 'Invalid upload metadata' }, { status: 400 });
+      }
+
+      if (durationMs > VIDEO.MAX_DURATION_MS + DURATION_SLACK_MS || originalBytes > VIDEO.MAX_FILE_SIZE_BYTES) {
+        log('warn', 'Clip over the limits', {
+          requestId,
+          partyId,
+          photoId,
+          durationMs,
+          originalBytes
+        });
+        return NextResponse.json(
+          { error: 'Clip is too long or too large', code: 'VIDEO_TOO_LARGE' },
+          { status: 413 }
+        );
+      }
+    } else {
+      // Photos: the phone converts anything else to JPEG, so other formats weren't sent by the app
+      const format = PHOTO_FORMATS.find(f => f.ext === originalExt);
+
+      if (!format || format.mime !== originalMime) {
+        log('warn', 'Invalid photo payload', {
+          requestId,
+          partyId,
+          photoId,
+          originalExt,
+          originalMime
+        });
+        return NextResponse.json({ error: 'Invalid upload metadata' }, { status: 400 });
+      }
+
+      const maxBytes = format.ext === 'gif' ? BOOTH.ANIMATION_MAX_FILE_SIZE_BYTES : IMAGE.MAX_FILE_SIZE_BYTES;
+      if (originalBytes > maxBytes) {
+        log('warn', 'Photo over the size limit', {
+          requestId,
+          partyId,
+          photoId,
+          originalBytes,
+          maxBytes
+        });
+        return NextResponse.json(
+          { error: 'Photo is too large', code: 'PHOTO_TOO_LARGE' },
+          { status: 413 }
+        );
+      }
+    }
+
+    if (body.partyId && body.partyId !== partyId) {
+      log('warn', 'Finalize for a different party than the session', {
+        requestId,
+        partyId,
+        requestedPartyId: body.partyId,
+        photoId
+      });
+      return NextResponse.json(
+        { error: 'Signed in to a different party', code: 'PARTY_MISMATCH' },
+        { status: 409 }
+      );
+    }
+
+    const capturedAt = parseTakenAt(takenAt);
+    if (takenAt && !capturedAt) {
+      log('warn', 'Ignoring invalid capture time', {
+        requestId,
+        partyId,
+        photoId,
+        takenAt
+      });
+    }
+
+    // Clips play as recorded
+    const photoEdit = isVideo ? null : parsePhotoEdit(body.edit);
+    if (body.edit && !isVideo && !photoEdit) {
+      log('warn', 'Ignoring invalid photo edit', {
+        requestId,
+        partyId,
+        photoId,
+        edit: body.edit
+      });
+    }
+
+    // Step 3: Validate party is active
+    const supabase = createServerClient();
+    const { data: party, error: partyError } = await supabase
+      .from('parties')
+      .select('status')
+      .eq('id', partyId)
+      .single();
+
+    if (partyError || !party || party.status !== 'active') {
+      return NextResponse.json({ error: 'Party is not accepting photos' }, { status: 403 });
+    }
+
+    // Step 4: Confirm the uploaded objects match what the client declared.
+    // Paths are derived from the session, never taken from the request body.
+    const originalPath = getOriginalPath(partyId, photoId, originalExt);
+    const tvPath = hasTvVersion && tvFormat ? getTvPath(partyId, photoId, tvFormat.ext) : originalPath;
+    const tvMime = hasTvVersion && tvFormat ? tvFormat.mime : originalMime;
+    const tvJpegPath = hasTvJpeg ? getTvPath(partyId, photoId, 'jpg') : null;
+    const thumbPath = hasThumbnail ? getThumbPath(partyId, photoId) : null;
+
+    const storageCheckStart = Date.now();
+    const checks = await Promise.all([
+      checkStoredObject(supabase, originalPath, originalBytes, originalMime),
+      hasTvVersion ? checkStoredObject(supabase, tvPath, tvBytes as number, tvMime) : Promise.resolve<StoredObjectCheck>({ ok: true }),
+      tvJpegPath ? checkStoredObject(supabase, tvJpegPath, body.tvJpegBytes as number, 'image/jpeg') : Promise.resolve<StoredObjectCheck>({ ok: true }),
+      thumbPath ? checkStoredObject(supabase, thumbPath, thumbBytes as number, 'image/jpeg') : Promise.resolve<StoredObjectCheck>({ ok: true }),
+    ]);
+
+    const failedCheck = checks.find((check): check is Extract<StoredObjectCheck, { ok: false }> => !check.ok);
+    if (failedCheck) {
+      log('warn', 'Uploaded object does not match declared metadata', {
+        requestId,
+        partyId,
+        photoId,
+        originalPath,
+        tvPath,
+        tvJpegPath,
+        thumbPath,
+        reason: failedCheck.reason,
+        actual: failedCheck.actual,
+        storageCheckTime: Date.now() - storageCheckStart
+      });
+      return NextResponse.json(
+        {
+          error: failedCheck.reason === 'missing' ? 'Uploaded file not found' : 'Uploaded file does not match',
+          code: failedCheck.reason.toUpperCase()
+        },
+        { status: failedCheck.reason === 'missing' ? 404 : 422 }
+      );
+    }
+
+    // Step 5: Create the database record, if the party's upload limits allow it
+    const insertStart = Date.now();
+    const { data: photo, error: insertError } = await supabase
+      .rpc('insert_photo_within_limits', {
+        p_photo: {
+          id: photoId,
+          party_id: partyId,
+          uploader_id: uploaderId,
+          original_path: originalPath,
+          tv_path: tvPath,
+          tv_jpeg_path: tvJpegPath,
+          thumb_path: thumbPath,
+          original_mime: originalMime,
+          tv_mime: tvMime,
+          original_bytes: originalBytes,
+          tv_bytes: hasTvVersion ? tvBytes as number : originalBytes,
+          comment: trimmedComment,
+          taken_at: capturedAt,
+          media_type: mediaType,
+          duration_ms: isVideo ? Math.round(body.durationMs as number) : null,
+          edit: photoEdit ? { ...photoEdit } : null,
+        }
+      })
+      .single();
+
+    if (photo?.limit_code) {
+      const rejection = await explainLimitReached(
+        supabase, partyId, uploaderId, photo.limit_code, originalBytes + (hasTvVersion ? tvBytes as number : 0)
+      );
+      log('warn', 'Upload over the party limits', {
+        requestId,
+        partyId,
+        uploaderId,
+        photoId,
+        code: rejection.code
+      });
+
+      const uploadedPaths = [originalPath, hasTvVersion ? tvPath : null, tvJpegPath, thumbPath].filter((path): path is string => !!path);
+      await supabase.storage.from(STORAGE_BUCKET).remove(uploadedPaths);
+
+      return NextResponse.json({ error: rejection.error, code: rejection.code }, { status: rejection.status });
+    }
+
+    if (insertError || !photo?.photo_created_at) {
+      // Unique violation: the photo was already finalized
+      const alreadyExists = insertError?.code === '23505';
+      log(alreadyExists ? 'warn' : 'error', 'Failed to create photo record', {
+        requestId,
+        partyId,
+        photoId,
+        insertTime: Date.now() - insertStart,
+        error: insertError?.message,
+        errorCode: insertError?.code
+      });
+      return NextResponse.json(
+        alreadyExists
+          ? { error: 'Photo already saved', code: 'ALREADY_FINALIZED' }
+          : { error: 'Failed to save photo record' },
+        { status: alreadyExists ? 409 : 500 }
+      );
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Upload finalized successfully', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId,
+      storageCheckTime: insertStart - storageCheckStart,
+      insertTime: Date.now() - insertStart,
+      totalTime
+    });
+
+    return NextResponse.json({
+      id: photoId,
+      createdAt: photo.photo_created_at,
+    });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in finalize upload', {
+      requestId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * PATCH /api/photos/mine/[photoId] - Edit the comment on one of the guest's photos
+ * DELETE /api/photos/mine/[photoId] - Delete one of the guest's photos and its files
+ *
+ * Photos are looked up by party and uploader from the session, so other
+ * guests' photos are reported as not found.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGuestSession } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { COMMENT_MAX_LENGTH } from '@/lib/constants';
+import { deletePhoto } from '@/lib/photos';
+
+const log = createLogger('api.photos.mine.detail');
+
+interface RouteParams {
+  params: Promise<{ photoId: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { photoId } = await params;
+
+    const session = await getGuestSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { partyId, uploaderId } = session;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = null;
+    }
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    const { comment } = body as { comment?: unknown };
+
+    log('info', 'Photo comment update request received', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId
+    });
+
+    if (comment !== null && typeof comment !== 'string') {
+      return NextResponse.json(
+        { error: 'Comment must be a string or null' },
+        { status: 400 }
+      );
+    }
+    const trimmedComment = comment?.trim() || null;
+    if (trimmedComment && trimmedComment.length > COMMENT_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment must be at most ${COMMENT_MAX_LENGTH} characters`, code: 'COMMENT_TOO_LONG' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    const updateStart = Date.now();
+    const { data: photo, error } = await supabase
+      .from('photos')
+      .update({ comment: trimmedComment })
+      .eq('id', photoId)
+      .eq('party_id', partyId)
+      .eq('uploader_id', uploaderId)
+      .select('id, comment')
+      .single();
+
+    if (error || !photo) {
+      log('warn', 'Photo not found for comment update', {
+        requestId,
+        partyId,
+        uploaderId,
+        photoId,
+        updateTime: Date.now() - updateStart,
+        error: error?.message
+      });
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Photo comment updated successfully', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId,
+      updateTime: Date.now() - updateStart,
+      totalTime
+    });
+
+    return NextResponse.json({
+      id: photo.id,
+      comment: photo.comment,
+    });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in photo comment update', {
+      requestId,
+      photoId: (await params).photoId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const { photoId } = await params;
+
+    const session = await getGuestSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { partyId, uploaderId } = session;
+
+    log('info', 'Own photo deletion request received', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId
+    });
+
+    const supabase = createServerClient();
+
+    const { data: photo, error: fetchError } = await supabase
+      .from('photos')
+      .select('id, original_path, tv_path, tv_jpeg_path, thumb_path')
+      .eq('id', photoId)
+      .eq('party_id', partyId)
+      .eq('uploader_id', uploaderId)
+      .single();
+
+    if (fetchError || !photo) {
+      log('warn', 'Photo not found for deletion', {
+        requestId,
+        partyId,
+        uploaderId,
+        photoId,
+        error: fetchError?.message
+      });
+      return NextResponse.json(
+        { error: 'Photo not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleteStart = Date.now();
+    const deletion = await deletePhoto(supabase, photo);
+
+    if (!deletion.ok) {
+      log('error', 'Failed to delete photo record', {
+        requestId,
+        partyId,
+        photoId,
+        deleteTime: Date.now() - deleteStart,
+        error: deletion.error,
+        errorCode: deletion.errorCode
+      });
+      return NextResponse.json(
+        { error: 'Failed to delete photo' },
+        { status: 500 }
+      );
+    }
+
+    if (deletion.removeError) {
+      log('warn', 'Failed to remove photo files from storage', {
+        requestId,
+        partyId,
+        photoId,
+        storagePaths: deletion.storagePaths,
+        error: deletion.removeError
+      });
+    }
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Own photo deleted successfully', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoId,
+      filesRemoved: deletion.removeError ? 0 : deletion.storagePaths.length,
+      deleteTime: Date.now() - deleteStart,
+      totalTime
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in own photo deletion', {
+      requestId,
+      photoId: (await params).photoId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
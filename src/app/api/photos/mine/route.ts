@@ -0,0 +1,95 @@
+/**
+ * GET /api/photos/mine - List the signed-in guest's own photos
+ * Includes pending and hidden photos so guests can see what is waiting for the host.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, getSignedUrls } from '@/lib/supabase/server';
+import { getGuestSession } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('api.photos.mine');
+
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId();
+  const startTime = Date.now();
+
+  try {
+    const session = await getGuestSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { partyId, uploaderId } = session;
+
+    log('info', 'Own photos request received', {
+      requestId,
+      partyId,
+      uploaderId
+    });
+
+    const supabase = createServerClient();
+
+    const queryStart = Date.now();
+    const { data: photos, error } = await supabase
+      .from('photos')
+      .select('id, status, comment, created_at, media_type, tv_path, thumb_path')
+      .eq('party_id', partyId)
+      .eq('uploader_id', uploaderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      log('error', 'Failed to fetch own photos', {
+        requestId,
+        partyId,
+        uploaderId,
+        queryTime: Date.now() - queryStart,
+        error: error.message,
+        errorCode: error.code
+      });
+      return NextResponse.json(
+        { error: 'Failed to get photos' },
+        { status: 500 }
+      );
+    }
+
+    const urls = await getSignedUrls(supabase, (photos ?? []).map(photo => photo.thumb_path ?? photo.tv_path));
+
+    const result = (photos ?? []).map(photo => ({
+      id: photo.id,
+      status: photo.status,
+      comment: photo.comment,
+      createdAt: photo.created_at,
+      // Photos from before thumbnails existed fall back to the TV version
+      thumbUrl: urls.get(photo.thumb_path ?? photo.tv_path) ?? null,
+      mediaType: photo.media_type,
+    }));
+
+    const totalTime = Date.now() - startTime;
+    log('info', 'Own photos retrieved successfully', {
+      requestId,
+      partyId,
+      uploaderId,
+      photoCount: result.length,
+      queryTime: Date.now() - queryStart,
+      totalTime
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    log('error', 'Unexpected error in own photos', {
+      requestId,
+      totalTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,134 @@
 /**
  * POST /api/photos/prepare-upload
  * Generate signed upload URLs for direct client-to-Supabase uploads
- * Returns metadata needed for client to upload and create DB record
+ * Returns metadata needed for client to upload and then call /api/photos/finalize
+ *
+ * Passing the photoId of an earlier upload lets the offline queue resume after the URLs
+ * have expired: 409 ALREADY_FINALIZED if the guest already saved it, otherwise a new
+ * photoId to upload everything again. Uploaded objects are never overwritten, so nothing
+ * can be swapped in after finalize checked the files or a host approved the photo.
+ *
+ * Batch form: { photos: [{ originalExt, createTvVersion, tvExt, createTvJpeg, createThumbnail }, ...] } signs up to
+ * MAX_BATCH_SIZE new photos at once and returns { photos: [...], expiresIn }.
+ *
+ * tvExt is the format the client encoded the TV version in (one of TV_FORMATS, 'jpg' if omitted).
+ * An AVIF or WebP TV version needs createTvJpeg, which signs a path for its JPEG copy.
+ * createThumbnail also signs a path for the ~400px JPEG thumbnail.
+ * bytes is the size of the original plus the TV version, checked against the party's
+ * storage limit along with the guest's photo limit (429 PHOTO_LIMIT_REACHED, 413 STORAGE_FULL).
+ * Requests are rate limited per guest and per IP (429 RATE_LIMITED with Retry-After).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient, STORAGE_BUCKET, getOriginalPath, getTvPath } from '@/lib/supabase/server';
+import { createServerClient, STORAGE_BUCKET, getOriginalPath, getTvPath, getThumbPath } from '@/lib/supabase/server';
 import { verifySession } from '@/lib/auth/session';
-import { v4 as uuidv4 } from 'uuid';
+import { TV_FORMATS } from '@/lib/constants';
+import { checkQuota, getUploadQuota } from '@/lib/quotas';
+import { RATE_LIMITS, consumeRateLimit, getClientIp, rateLimitedResponse } from '@/lib/rate-limit';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-interface PrepareUploadRequest {
+const MAX_BATCH_SIZE = 50;
+
+interface PrepareUploadPhoto {
   originalExt: string;
   createTvVersion: boolean; // Whether client will create separate TV file
+  tvExt?: string; // Format of the TV file
+  createTvJpeg?: boolean; // Whether client will upload a JPEG copy of an AVIF/WebP TV file
+  createThumbnail?: boolean; // Whether client will upload a thumbnail
+  bytes?: number; // Original + TV version, for the storage limit (missing on items queued before limits existed)
+}
+
+interface PrepareUploadRequest extends Partial<PrepareUploadPhoto> {
+  photoId?: string; // Resume an upload that was never finalized
+  partyId?: string; // Party the upload was queued for
+  photos?: PrepareUploadPhoto[]; // Batch form
+}
+
+/**
+ * Create the signed upload URLs for one photo.
+ * Returns null if storage refused to sign any of the paths.
+ */
+async function signPhotoUpload(
+  supabase: ReturnType<typeof createServerClient>,
+  partyId: string,
+  photoId: string,
+  { originalExt, createTvVersion, tvExt, createTvJpeg, createThumbnail }: PrepareUploadPhoto
+) {
+  const originalPath = getOriginalPath(partyId, photoId, originalExt);
+  const tvPath = createTvVersion ? getTvPath(partyId, photoId, tvExt) : null;
+  // The copy takes the .jpg path, which only a JPEG TV version would otherwise use
+  const tvJpegPath = createTvVersion && createTvJpeg && tvExt && tvExt !== 'jpg' ? getTvPath(partyId, photoId, 'jpg') : null;
+  const thumbPath = createThumbnail ? getThumbPath(partyId, photoId) : null;
+
+  const { data: originalSignedData, error: originalSignedError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUploadUrl(originalPath);
+
+  if (originalSignedError || !originalSignedData) {
+    console.error('Failed to create signed URL for original:', originalSignedError);
+    return null;
+  }
+
+  let tvSignedData = null;
+  if (tvPath) {
+    const { data, error: tvSignedError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUploadUrl(tvPath);
+
+    if (tvSignedError || !data) {
+      console.error('Failed to create signed URL for TV:', tvSignedError);
+      return null;
+    }
+
+    tvSignedData = data;
+  }
+
+  let tvJpegSignedData = null;
+  if (tvJpegPath) {
+    const { data, error: tvJpegSignedError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUploadUrl(tvJpegPath);
+
+    if (tvJpegSignedError || !data) {
+      console.error('Failed to create signed URL for TV JPEG copy:', tvJpegSignedError);
+      return null;
+    }
+
+    tvJpegSignedData = data;
+  }
+
+  let thumbSignedData = null;
+  if (thumbPath) {
+    const { data, error: thumbSignedError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .createSignedUploadUrl(thumbPath);
+
+    if (thumbSignedError || !data) {
+      console.error('Failed to create signed URL for thumbnail:', thumbSignedError);
+      return null;
+    }
+
+    thumbSignedData = data;
+  }
+
+  return {
+    photoId,
+    originalPath,
+    originalSignedUrl: originalSignedData.signedUrl,
+    originalToken: originalSignedData.token,
+    tvPath: tvPath || null,
+    tvSignedUrl: tvSignedData?.signedUrl || null,
+    tvToken: tvSignedData?.token || null,
+    tvJpegPath,
+    tvJpegSignedUrl: tvJpegSignedData?.signedUrl || null,
+    tvJpegToken: tvJpegSignedData?.token || null,
+    thumbPath,
+    thumbSignedUrl: thumbSignedData?.signedUrl || null,
+    thumbToken: thumbSignedData?.token || null,
+  };
 }
 
 export async function POST(request: NextRequest) {
@@ -32,14 +146,66 @@ export async function POST(request: NextRequest) {
 
     const { partyId, uploaderId } = session;
 
+    const ip = getClientIp(request);
+    const rateLimit = await consumeRateLimit([
+      { rule: RATE_LIMITS.uploadUploader, key: uploaderId },
+      { rule: RATE_LIMITS.uploadIp, key: ip },
+    ], { route: 'prepare-upload', partyId, uploaderId, ip });
+    if (!rateLimit.ok) {
+      return rateLimitedResponse(rateLimit);
+    }
+
     // Step 2: Parse request
     const body = await request.json() as PrepareUploadRequest;
-    const { originalExt, createTvVersion } = body;
+    const { photoId: resumePhotoId } = body;
+    const isBatch = body.photos !== undefined;
+    const photos: PrepareUploadPhoto[] = isBatch
+      ? (Array.isArray(body.photos) ? body.photos : [])
+      : [{
+        originalExt: body.originalExt as string,
+        createTvVersion: !!body.createTvVersion,
+        tvExt: body.tvExt,
+        createTvJpeg: !!body.createTvJpeg,
+        createThumbnail: !!body.createThumbnail,
+        bytes: body.bytes,
+      }];
 
-    if (!originalExt) {
+    if (photos.length === 0 || photos.some(photo => !photo?.originalExt)) {
       return NextResponse.json({ error: 'Missing originalExt' }, { status: 400 });
     }
 
+    if (photos.some(photo => photo.tvExt !== undefined && !TV_FORMATS.some(format => format.ext === photo.tvExt))) {
+      return NextResponse.json({ error: 'Unsupported TV format' }, { status: 400 });
+    }
+
+    // TVs that can't decode AVIF or WebP fall back to the JPEG copy, never to the original
+    if (photos.some(photo => photo.createTvVersion && (photo.tvExt ?? 'jpg') !== 'jpg' && !photo.createTvJpeg)) {
+      return NextResponse.json({ error: 'An AVIF or WebP TV version needs a JPEG copy' }, { status: 400 });
+    }
+
+    if (photos.some(photo => photo.bytes !== undefined && (typeof photo.bytes !== 'number' || photo.bytes < 0))) {
+      return NextResponse.json({ error: 'Invalid bytes' }, { status: 400 });
+    }
+
+    if (photos.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} photos can be prepared at once` },
+        { status: 400 }
+      );
+    }
+
+    if (resumePhotoId !== undefined && (isBatch || typeof resumePhotoId !== 'string' || !isUuid(resumePhotoId))) {
+      return NextResponse.json({ error: 'Invalid photoId' }, { status: 400 });
+    }
+
+    // A queued upload must not land in whatever party the guest has joined since
+    if (body.partyId && body.partyId !== partyId) {
+      return NextResponse.json(
+        { error: 'Signed in to a different party', code: 'PARTY_MISMATCH' },
+        { status: 409 }
+      );
+    }
+
     // Step 3: Validate party is active
     const supabase = createServerClient();
     const { data: party, error: partyError } = await supabase
@@ -52,48 +218,62 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Party is not accepting photos' }, { status: 403 });
     }
 
-    // Step 4: Generate photo ID and paths
-    const photoId = uuidv4();
-    const originalPath = getOriginalPath(partyId, photoId, originalExt);
-    const tvPath = createTvVersion ? getTvPath(partyId, photoId) : null;
+    // Step 4: Tell a resumed upload that the guest already saved it; otherwise it starts over
+    // under a new ID, as its old paths may already hold files
+    if (resumePhotoId) {
+      const { data: existing } = await supabase
+        .from('photos')
+        .select('id')
+        .eq('id', resumePhotoId)
+        .eq('uploader_id', uploaderId)
+        .maybeSingle();
 
-    // Step 5: Create signed upload URLs (5 minute expiry)
+      if (existing) {
+        return NextResponse.json(
+          { error: 'Photo already saved', code: 'ALREADY_FINALIZED' },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Step 5: Check the party's upload limits (finalize checks them again with the stored sizes)
+    const quota = await getUploadQuota(supabase, partyId, uploaderId);
+    if (quota) {
+      const bytes = photos.reduce((sum, photo) => sum + (photo.bytes ?? 0), 0);
+      const quotaCheck = checkQuota(quota, photos.length, bytes);
+      if (!quotaCheck.ok) {
+        return NextResponse.json({ error: quotaCheck.error, code: quotaCheck.code }, { status: quotaCheck.status });
+      }
+    }
+
+    // Step 6: Create signed upload URLs (5 minute expiry)
     const expiresIn = 300; // 5 minutes
 
-    const { data: originalSignedData, error: originalSignedError } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .createSignedUploadUrl(originalPath, { upsert: false });
+    const signed = await Promise.all(photos.map(photo => signPhotoUpload(
+      supabase,
+      partyId,
+      uuidv4(),
+      photo
+    )));
 
-    if (originalSignedError || !originalSignedData) {
-      console.error('Failed to create signed URL for original:', originalSignedError);
+    if (signed.some(result => !result)) {
       return NextResponse.json({ error: 'Failed to create upload URL' }, { status: 500 });
     }
 
-    let tvSignedData = null;
-    if (tvPath) {
-      const { data, error: tvSignedError } = await supabase.storage
-        .from(STORAGE_BUCKET)
-        .createSignedUploadUrl(tvPath, { upsert: false });
-
-      if (tvSignedError || !data) {
-        console.error('Failed to create signed URL for TV:', tvSignedError);
-        return NextResponse.json({ error: 'Failed to create TV upload URL' }, { status: 500 });
-      }
-
-      tvSignedData = data;
+    // Step 7: Return upload metadata
+    if (isBatch) {
+      return NextResponse.json({
+        uploaderId,
+        partyId,
+        photos: signed,
+        expiresIn, // Seconds until URLs expire
+      });
     }
 
-    // Step 6: Return upload metadata
     return NextResponse.json({
-      photoId,
+      ...signed[0],
       uploaderId,
       partyId,
-      originalPath,
-      originalSignedUrl: originalSignedData.signedUrl,
-      originalToken: originalSignedData.token,
-      tvPath: tvPath || null,
-      tvSignedUrl: tvSignedData?.signedUrl || null,
-      tvToken: tvSignedData?.token || null,
       expiresIn, // Seconds until URLs expire
     });
 
@@ -0,0 +1,40 @@
+/**
+ * GET /api/photos/quota - The party's upload limits and where the signed-in guest stands
+ * The upload page checks it before processing a photo; prepare-upload and finalize enforce the limits.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGuestSession } from '@/lib/auth';
+import { createLogger, generateRequestId } from '@/lib/logging';
+import { getUploadQuota } from '@/lib/quotas';
+
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('api.photos.quota');
+
+export async function GET(request: NextRequest) {
+  const requestId = generateRequestId();
+
+  try {
+    const session = await getGuestSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { partyId, uploaderId } = session;
+    const quota = await getUploadQuota(createServerClient(), partyId, uploaderId);
+    if (!quota) {
+      return NextResponse.json({ error: 'Party not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(quota);
+  } catch (error) {
+    log('error', 'Unexpected error getting upload quota', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
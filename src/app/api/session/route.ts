@@ -1,5 +1,17 @@
+/**
+ * GET /api/session - Check the guest session, refreshing the cookie when it's close to expiring
+ * DELETE /api/session - Sign out: revoke the session and clear the cookies
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { verifySession } from '@/lib/auth/session';
+import {
+  verifySession,
+  getGuestSession,
+  refreshSessionCookie,
+  clearSessionCookie,
+  clearReturningGuestCookie,
+  revokeSession,
+} from '@/lib/auth/session';
 import { createLogger, generateRequestId } from '@/lib/logging';
 
 const log = createLogger('api.session');
@@ -42,6 +54,29 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ authenticated: false }, { status: 200 });
     }
 
+    // Sliding expiry: a guest whose page keeps checking in stays signed in
+    let expiresAt = new Date(session.exp * 1000);
+    try {
+      const refreshedUntil = await refreshSessionCookie(session);
+      if (refreshedUntil) {
+        expiresAt = refreshedUntil;
+        log('info', 'Session refreshed', {
+          requestId,
+          partyId: session.partyId,
+          uploaderId: session.uploaderId,
+          expiresAt: expiresAt.toISOString()
+        });
+      }
+    } catch (refreshError) {
+      // The current cookie is still valid; the next check will try again
+      log('warn', 'Session refresh failed', {
+        requestId,
+        partyId: session.partyId,
+        uploaderId: session.uploaderId,
+        error: refreshError instanceof Error ? refreshError.message : 'Unknown error'
+      });
+    }
+
     const totalTime = Date.now() - startTime;
     log('info', 'Session verified successfully', {
       requestId,
@@ -56,6 +91,7 @@ export async function GET(request: NextRequest) {
       authenticated: true,
       partyId: session.partyId,
       uploaderId: session.uploaderId,
+      expiresAt: expiresAt.toISOString(),
     });
   } catch (error) {
     const totalTime = Date.now() - startTime;
@@ -70,3 +106,35 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ authenticated: false }, { status: 500 });
   }
 }
+
+export async function DELETE(request: NextRequest) {
+  const requestId = generateRequestId();
+
+  try {
+    const session = await getGuestSession(request);
+    if (session) {
+      await revokeSession(session.jti);
+    }
+    await clearSessionCookie();
+    // Whoever uses the phone next must not be able to rejoin under this guest's name
+    if (session) {
+      await clearReturningGuestCookie(session.partyId);
+    }
+
+    log('info', 'Guest signed out', {
+      requestId,
+      partyId: session?.partyId,
+      uploaderId: session?.uploaderId
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    log('error', 'Sign out error', {
+      requestId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -19,6 +19,7 @@ import {
   DialogActions,
 } from '@mui/material';
 import { CameraAlt as CameraIcon } from '@mui/icons-material';
+import { rememberJoinToken } from '@/lib/utils';
 import styles from './page.module.css';
 
 interface ConfirmationState {
@@ -152,6 +153,7 @@ export default function JoinPage() {
 
       // Successfully joined - redirect to upload page
       console.log('[JoinPage] Join successful, redirecting to upload page');
+      rememberJoinToken(partyId, token);
       router.push(`/upload/${partyId}`);
     } catch (err) {
       console.error('[JoinPage] Join error', err);
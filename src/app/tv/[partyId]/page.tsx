@@ -5,7 +5,8 @@ import { useParams, useSearchParams } from 'next/navigation';
 import { Box, Typography, CircularProgress } from '@mui/material';
 import { motion, AnimatePresence } from 'framer-motion';
 import { createClient } from '@/lib/supabase/client';
-import type { Photo, Uploader } from '@/types/database';
+import { TIMING } from '@/lib/constants';
+import type { Photo, TvPhoto, Uploader } from '@/types/database';
 import idlePromptsData from '@/data/idle-prompts.json';
 
 type Guest = Pick<Uploader, 'id' | 'display_name' | 'created_at'>;
@@ -16,12 +17,53 @@ import styles from './page.module.css';
 const IDLE_TIME_MINUTES = 15;
 const IDLE_TIME_MS = IDLE_TIME_MINUTES * 60 * 1000;
 
-interface PhotoWithUploader extends Photo {
-  uploader: Pick<Uploader, 'display_name'> | null;
+const MAX_VISIBLE_PHOTOS = 20;
+
+// Visible photos with signed URLs for their files (the bucket is private); pass an ID for just that one
+async function fetchTvPhotos(partyId: string, photoId?: string): Promise<TvPhoto[]> {
+  const query = photoId ? `?photoId=${encodeURIComponent(photoId)}` : '';
+  const response = await fetch(`/api/parties/${partyId}/tv-photos${query}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load photos (HTTP ${response.status})`);
+  }
+  const data: { photos: TvPhoto[] } = await response.json();
+  return data.photos;
 }
 
-const STORAGE_BUCKET = 'photobooze-images';
-const MAX_VISIBLE_PHOTOS = 20;
+// The file URLs tv-photos signed; undefined where storage couldn't sign one
+function getTvImageUrl(photo: TvPhoto): string | undefined {
+  return photo.urls.tv ?? undefined;
+}
+
+function getClipUrl(photo: TvPhoto): string | undefined {
+  return photo.urls.clip ?? undefined;
+}
+
+// Small rendition for the remote
+function getThumbImageUrl(photo: TvPhoto): string | undefined {
+  return photo.urls.thumb ?? undefined;
+}
+
+// What <picture> shows when the browser can't decode the TV version's format: a JPEG,
+// never the full-size original
+function getFallbackImageUrl(photo: TvPhoto): string | undefined {
+  return photo.urls.fallback ?? undefined;
+}
+
+// Clips play muted on the TV, with their poster frame as the TV version
+function isClip(photo: Photo): boolean {
+  return photo.media_type === 'video';
+}
+
+// How long a photo stays on top before the next queued one comes in: clips play through once
+function getDisplayTime(photo: Photo): number {
+  return isClip(photo) && photo.duration_ms ? photo.duration_ms : TIMING.MIN_PHOTO_DISPLAY_MS;
+}
+
+// Order the deck by when photos were taken (upload time for photos without a capture time)
+function byCaptureTime(a: Photo, b: Photo): number {
+  return Date.parse(a.taken_at ?? a.created_at) - Date.parse(b.taken_at ?? b.created_at);
+}
 
 // Generate consistent random values based on photo ID
 // Uses viewport dimensions for full-screen scatter
@@ -63,7 +105,7 @@ export default function TvPage() {
   const partyId = params.partyId as string;
   const joinToken = searchParams.get('token');
   
-  const [photos, setPhotos] = useState<PhotoWithUploader[]>([]);
+  const [photos, setPhotos] = useState<TvPhoto[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -80,7 +122,7 @@ export default function TvPage() {
   
   const supabase = useMemo(() => createClient(), []);
   const stateChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
-  const photosRef = useRef<PhotoWithUploader[]>([]);
+  const photosRef = useRef<TvPhoto[]>([]);
   const qrTimerRef = useRef<NodeJS.Timeout | null>(null);
   const idleTimerRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -204,26 +246,21 @@ export default function TvPage() {
   // Load initial photos
   useEffect(() => {
     async function loadPhotos() {
-      const { data, error: fetchError } = await supabase
-        .from('photos')
-        .select('*, uploader:uploaders(display_name)')
-        .eq('party_id', partyId)
-        .order('created_at', { ascending: true });
-
-      if (fetchError) {
-        console.error('Failed to load photos:', fetchError);
-        setError('Failed to load photos');
-      } else {
-        setPhotos(data as PhotoWithUploader[]);
-        if (data && data.length > 0) {
+      try {
+        const data = await fetchTvPhotos(partyId);
+        setPhotos(data.sort(byCaptureTime));
+        if (data.length > 0) {
           setCurrentIndex(data.length - 1);
         }
+      } catch (fetchError) {
+        console.error('Failed to load photos:', fetchError);
+        setError('Failed to load photos');
       }
       setLoading(false);
     }
 
     loadPhotos();
-  }, [partyId, supabase]);
+  }, [partyId]);
 
   // Preload an image and return a promise that resolves when loaded
   const preloadImage = useCallback((url: string): Promise<void> => {
@@ -235,11 +272,11 @@ export default function TvPage() {
     });
   }, []);
 
-  // Queue system for photo introductions (minimum 10 seconds between each)
-  const photoQueueRef = useRef<PhotoWithUploader[]>([]);
+  // Queue system for photo introductions (each photo stays on top for its display time)
+  const photoQueueRef = useRef<TvPhoto[]>([]);
   const isProcessingQueueRef = useRef(false);
   const lastPhotoAddedTimeRef = useRef<number>(0);
-  const MIN_DISPLAY_TIME = 10000; // 10 seconds minimum between photos
+  const lastPhotoDisplayTimeRef = useRef<number>(TIMING.MIN_PHOTO_DISPLAY_MS);
 
   const processPhotoQueue = useCallback(async () => {
     if (isProcessingQueueRef.current || photoQueueRef.current.length === 0) {
@@ -250,7 +287,7 @@ export default function TvPage() {
 
     while (photoQueueRef.current.length > 0) {
       const timeSinceLastPhoto = Date.now() - lastPhotoAddedTimeRef.current;
-      const waitTime = Math.max(0, MIN_DISPLAY_TIME - timeSinceLastPhoto);
+      const waitTime = Math.max(0, lastPhotoDisplayTimeRef.current - timeSinceLastPhoto);
 
       if (waitTime > 0) {
         console.log(`⏳ Waiting ${waitTime}ms before showing next photo (${photoQueueRef.current.length} in queue)`);
@@ -261,8 +298,12 @@ export default function TvPage() {
       if (nextPhoto) {
         console.log(`📸 Adding photo to deck (${photoQueueRef.current.length} remaining in queue)`);
         lastPhotoAddedTimeRef.current = Date.now();
+        lastPhotoDisplayTimeRef.current = getDisplayTime(nextPhoto);
         
         setPhotos(prev => {
+          if (prev.some(p => p.id === nextPhoto.id)) {
+            return prev;
+          }
           const updatedPhotos = [...prev, nextPhoto];
           setCurrentIndex(updatedPhotos.length - 1);
           return updatedPhotos;
@@ -273,8 +314,131 @@ export default function TvPage() {
     isProcessingQueueRef.current = false;
   }, []);
 
-  // Subscribe to new photos via Realtime
+  // Photos hidden or deleted while they were being fetched or preloaded
+  const removedPhotoIdsRef = useRef<Set<string>>(new Set());
+
+  // Preload a visible photo's image and queue it for display
+  const queuePhoto = useCallback(async (photo: TvPhoto) => {
+    // Already on screen or waiting in the queue
+    if (
+      photosRef.current.some(p => p.id === photo.id) ||
+      photoQueueRef.current.some(p => p.id === photo.id)
+    ) {
+      return;
+    }
+
+    // Preload the image before adding to queue
+    try {
+      console.log('Preloading image before queueing...');
+      const { tv, fallback } = photo.urls;
+      await (tv ? preloadImage(tv) : Promise.reject(new Error('TV version could not be signed'))).catch((err) => {
+        if (!fallback || fallback === tv) throw err;
+        // Most likely a format this browser can't decode; the JPEG is shown instead
+        return preloadImage(fallback);
+      });
+      console.log('Image preloaded, adding to queue');
+    } catch (err) {
+      console.error('Failed to preload image, adding to queue anyway:', err);
+    }
+
+    if (
+      removedPhotoIdsRef.current.has(photo.id) ||
+      photoQueueRef.current.some(p => p.id === photo.id)
+    ) {
+      return;
+    }
+
+    // Add to queue instead of directly to state
+    photoQueueRef.current.push(photo);
+    processPhotoQueue();
+  }, [preloadImage, processPhotoQueue]);
+
+  // Fetch a photo and queue it for display
+  const enqueuePhoto = useCallback(async (photoId: string) => {
+    removedPhotoIdsRef.current.delete(photoId);
+
+    let newPhoto: TvPhoto | undefined;
+    try {
+      [newPhoto] = await fetchTvPhotos(partyId, photoId);
+    } catch (fetchError) {
+      console.error('Error fetching new photo:', fetchError);
+      return;
+    }
+
+    // Not visible (anymore)
+    if (!newPhoto || removedPhotoIdsRef.current.has(photoId)) {
+      return;
+    }
+
+    await queuePhoto(newPhoto);
+  }, [partyId, queuePhoto]);
+
+  // Take a photo off the screen (and out of the queue) when it is hidden or deleted
+  const removePhoto = useCallback((photoId: string) => {
+    removedPhotoIdsRef.current.add(photoId);
+    photoQueueRef.current = photoQueueRef.current.filter(p => p.id !== photoId);
+
+    setPhotos(prev => {
+      const removedIndex = prev.findIndex(p => p.id === photoId);
+      if (removedIndex === -1) {
+        return prev;
+      }
+
+      const remaining = prev.filter(p => p.id !== photoId);
+      setCurrentIndex(current => {
+        const next = removedIndex <= current ? current - 1 : current;
+        return Math.max(0, Math.min(next, remaining.length - 1));
+      });
+      return remaining;
+    });
+  }, []);
+
+  // Comment edits from the guest's gallery
+  const updatePhotoComment = useCallback((photoId: string, comment: string | null) => {
+    photoQueueRef.current = photoQueueRef.current.map(p => (p.id === photoId ? { ...p, comment } : p));
+
+    setPhotos(prev => (
+      prev.some(p => p.id === photoId && p.comment !== comment)
+        ? prev.map(p => (p.id === photoId ? { ...p, comment } : p))
+        : prev
+    ));
+  }, []);
+
+  // Reconcile with the database after a reconnect, since events sent while
+  // the websocket was down are not replayed
+  const resyncPhotos = useCallback(async () => {
+    let data: TvPhoto[];
+    try {
+      data = await fetchTvPhotos(partyId);
+    } catch (fetchError) {
+      console.error('Failed to resync photos:', fetchError);
+      return;
+    }
+
+    const visible = new Map(data.map(photo => [photo.id, photo]));
+    const known = [...photosRef.current, ...photoQueueRef.current];
+    console.log(`🔄 Resyncing photos after reconnect (${visible.size} visible, ${known.length} known)`);
+
+    for (const photo of known) {
+      const current = visible.get(photo.id);
+      if (!current) {
+        removePhoto(photo.id);
+      } else if (current.comment !== photo.comment) {
+        updatePhotoComment(photo.id, current.comment);
+      }
+    }
+
+    for (const photo of visible.values()) {
+      if (!known.some(p => p.id === photo.id)) {
+        removedPhotoIdsRef.current.delete(photo.id);
+        queuePhoto(photo);
+      }
+    }
+  }, [partyId, queuePhoto, removePhoto, updatePhotoComment]);
+
+  // Subscribe to new, moderated, edited and deleted photos via Realtime
   useEffect(() => {
+    let hasSubscribed = false;
     const channel = supabase
       .channel(`photos:${partyId}`)
       .on(
@@ -285,55 +449,69 @@ export default function TvPage() {
           table: 'photos',
           filter: `party_id=eq.${partyId}`,
         },
-        async (payload) => {
+        (payload) => {
           console.log('New photo received via Realtime:', payload.new);
-          
-          const { data: newPhoto, error: fetchError } = await supabase
-            .from('photos')
-            .select('*, uploader:uploaders(display_name)')
-            .eq('id', payload.new.id)
-            .single();
-
-          if (fetchError) {
-            console.error('Error fetching new photo:', fetchError);
-            return;
+          if (payload.new.status === 'visible') {
+            enqueuePhoto(payload.new.id);
           }
-
-          if (newPhoto) {
-            // Get the image URL and preload it before adding to queue
-            const { data: urlData } = supabase.storage
-              .from(STORAGE_BUCKET)
-              .getPublicUrl(newPhoto.tv_path);
-            
-            try {
-              console.log('Preloading image before queueing...');
-              await preloadImage(urlData.publicUrl);
-              console.log('Image preloaded, adding to queue');
-              
-              // Add to queue instead of directly to state
-              photoQueueRef.current.push(newPhoto as PhotoWithUploader);
-              processPhotoQueue();
-            } catch (err) {
-              console.error('Failed to preload image, adding to queue anyway:', err);
-              photoQueueRef.current.push(newPhoto as PhotoWithUploader);
-              processPhotoQueue();
-            }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'photos',
+          filter: `party_id=eq.${partyId}`,
+        },
+        (payload) => {
+          console.log('Photo moderated via Realtime:', payload.new.id, payload.new.status);
+          if (payload.new.status === 'visible') {
+            updatePhotoComment(payload.new.id, payload.new.comment);
+            enqueuePhoto(payload.new.id);
+          } else {
+            removePhoto(payload.new.id);
           }
         }
       )
-      .subscribe();
+      .on('broadcast', { event: 'photo-hidden' }, ({ payload }) => {
+        // Realtime doesn't send the update that hides a photo (the TV may only read visible ones)
+        console.log('Photo hidden by a host:', payload.photoId);
+        if (payload.photoId) {
+          removePhoto(payload.photoId);
+        }
+      })
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered; IDs from other parties are simply not found
+          event: 'DELETE',
+          schema: 'public',
+          table: 'photos',
+        },
+        (payload) => {
+          console.log('Photo deleted via Realtime:', payload.old.id);
+          if (payload.old.id) {
+            removePhoto(payload.old.id);
+          }
+        }
+      )
+      .subscribe((status) => {
+        console.log('Photos channel status:', status);
+        if (status !== 'SUBSCRIBED') {
+          return;
+        }
+        // The first subscription follows the initial load; later ones are reconnects
+        if (hasSubscribed) {
+          resyncPhotos();
+        }
+        hasSubscribed = true;
+      });
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [partyId, supabase, preloadImage, processPhotoQueue]);
-
-  const getTvImageUrl = useCallback((photo: Photo): string => {
-    const { data } = supabase.storage
-      .from(STORAGE_BUCKET)
-      .getPublicUrl(photo.tv_path);
-    return data.publicUrl;
-  }, [supabase]);
+  }, [partyId, supabase, enqueuePhoto, removePhoto, updatePhotoComment, resyncPhotos]);
 
   // Function to broadcast current state - can be called on demand
   const broadcastCurrentState = useCallback(() => {
@@ -358,7 +536,7 @@ export default function TvPage() {
     }
     
     const currentPhoto = photos[currentIndex];
-    const photoUrl = currentPhoto ? getTvImageUrl(currentPhoto) : null;
+    const photoUrl = currentPhoto ? getThumbImageUrl(currentPhoto) : null;
     
     console.log('Broadcasting TV state:', { currentIndex, totalPhotos: photos.length, isFullscreen });
     stateChannelRef.current.send({
@@ -373,7 +551,7 @@ export default function TvPage() {
         isFullscreen,
       },
     });
-  }, [currentIndex, photos, getTvImageUrl, isFullscreen]);
+  }, [currentIndex, photos, isFullscreen]);
 
   // Subscribe to remote control commands AND state requests
   useEffect(() => {
@@ -721,15 +899,30 @@ export default function TvPage() {
                 }}
               >
                 <div className={styles.polaroidInner}>
-                  <img 
-                    src={getTvImageUrl(photo)} 
-                    alt={`Photo by ${photo.uploader?.display_name || 'Anonymous'}`}
-                    className={styles.polaroidImage}
-                    draggable={false}
-                  />
+                  {isTop && isClip(photo) ? (
+                    <video
+                      src={getClipUrl(photo)}
+                      poster={getTvImageUrl(photo)}
+                      className={styles.polaroidImage}
+                      autoPlay
+                      muted
+                      loop
+                      playsInline
+                    />
+                  ) : (
+                    <picture className={styles.picture}>
+                      <source srcSet={getTvImageUrl(photo)} type={photo.tv_mime ?? 'image/jpeg'} />
+                      <img 
+                        src={getFallbackImageUrl(photo)} 
+                        alt={`Photo by ${photo.uploader?.display_name || 'Anonymous'}`}
+                        className={styles.polaroidImage}
+                        draggable={false}
+                      />
+                    </picture>
+                  )}
                   <div className={styles.polaroidCaption}>
                     <span className={styles.polaroidAuthor}>
-                      📷 {photo.uploader?.display_name || 'Anonymous'}
+                      {isClip(photo) ? '🎬' : '📷'} {photo.uploader?.display_name || 'Anonymous'}
                     </span>
                     {photo.comment && (
                       <span className={styles.polaroidComment}>
@@ -759,14 +952,29 @@ export default function TvPage() {
         >
           <div className={styles.fullscreenPolaroid}>
             <div className={styles.fullscreenPolaroidInner}>
-              <img 
-                src={getTvImageUrl(photos[currentIndex])} 
-                alt={`Photo by ${photos[currentIndex].uploader?.display_name || 'Anonymous'}`}
-                className={styles.fullscreenImage}
-              />
+              {isClip(photos[currentIndex]) ? (
+                <video
+                  src={getClipUrl(photos[currentIndex])}
+                  poster={getTvImageUrl(photos[currentIndex])}
+                  className={styles.fullscreenImage}
+                  autoPlay
+                  muted
+                  loop
+                  playsInline
+                />
+              ) : (
+                <picture className={styles.picture}>
+                  <source srcSet={getTvImageUrl(photos[currentIndex])} type={photos[currentIndex].tv_mime ?? 'image/jpeg'} />
+                  <img 
+                    src={getFallbackImageUrl(photos[currentIndex])} 
+                    alt={`Photo by ${photos[currentIndex].uploader?.display_name || 'Anonymous'}`}
+                    className={styles.fullscreenImage}
+                  />
+                </picture>
+              )}
               <div className={styles.fullscreenPolaroidCaption}>
                 <span className={styles.fullscreenAuthor}>
-                  📷 {photos[currentIndex].uploader?.display_name || 'Anonymous'}
+                  {isClip(photos[currentIndex]) ? '🎬' : '📷'} {photos[currentIndex].uploader?.display_name || 'Anonymous'}
                 </span>
                 {photos[currentIndex].comment && (
                   <span className={styles.fullscreenComment}>
@@ -20,18 +20,22 @@ import {
   CameraAlt as CameraIcon,
   SettingsRemote as RemoteIcon,
   QrCode2 as QrCodeIcon,
+  PhotoLibrary as GalleryIcon,
+  Download as DownloadIcon,
+  SwapHoriz as SwitchIcon,
 } from '@mui/icons-material';
 import CameraTab from '@/components/CameraTab';
+import GalleryTab, { type GuestPhoto } from '@/components/GalleryTab';
 import RemoteTab from '@/components/RemoteTab';
+import UploadQueueList from '@/components/UploadQueueList';
+import { useUploadQueue } from '@/hooks';
 import ShareTab from '@/components/ShareTab';
+import { TIMING } from '@/lib/constants';
+import { getRememberedJoinToken } from '@/lib/utils';
+import type { PartyOverlay } from '@/types/database';
 import styles from './page.module.css';
 
-interface UploadedPhoto {
-  id: string;
-  name: string;
-  size: number;
-  comment?: string;
-}
+const TABS = ['camera', 'gallery', 'remote', 'share'] as const;
 
 export default function UploadPage() {
   const params = useParams();
@@ -39,21 +43,37 @@ export default function UploadPage() {
   const partyId = params.partyId as string;
 
   const [displayName, setDisplayName] = useState<string>('');
-  const [uploadedPhotos, setUploadedPhotos] = useState<UploadedPhoto[]>([]);
+  const [myPhotos, setMyPhotos] = useState<GuestPhoto[]>([]);
+  const [myPhotosLoaded, setMyPhotosLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadSuccess, setUploadSuccess] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
   const [partyName, setPartyName] = useState<string | null>(null);
+  const [partyOverlay, setPartyOverlay] = useState<PartyOverlay | null>(null);
   const [errorDialogOpen, setErrorDialogOpen] = useState(false);
+  const [switchDialogOpen, setSwitchDialogOpen] = useState(false);
+  const [switchingGuest, setSwitchingGuest] = useState(false);
 
   // Sync activeTab with URL hash
   useEffect(() => {
     const hash = window.location.hash.slice(1);
-    if (hash === 'camera') setActiveTab(0);
-    else if (hash === 'remote') setActiveTab(1);
-    else if (hash === 'share') setActiveTab(2);
-    else if (!hash) setActiveTab(0);
+    const tabIndex = TABS.indexOf(hash as typeof TABS[number]);
+    setActiveTab(tabIndex === -1 ? 0 : tabIndex);
+  }, []);
+
+  // The guest's own photos, kept server-side so they survive a reload
+  const loadMyPhotos = useCallback(async () => {
+    try {
+      const response = await fetch('/api/photos/mine');
+      if (response.ok) {
+        setMyPhotos(await response.json());
+      }
+    } catch (err) {
+      console.error('[UploadPage] Failed to load own photos:', err);
+    } finally {
+      setMyPhotosLoaded(true);
+    }
   }, []);
 
   // Get user's display name from session
@@ -75,12 +95,19 @@ export default function UploadPage() {
               setDisplayName(uploader.display_name || 'Guest');
               console.log('[UploadPage] Uploader loaded:', uploader.display_name);
             }
+
+            loadMyPhotos();
             
             const partyRes = await fetch(`/api/parties/${partyId}`);
             if (partyRes.ok) {
               const party = await partyRes.json();
               setPartyName(party.name || null);
               console.log('[UploadPage] Party loaded:', party.name);
+
+              const overlayRes = await fetch(`/api/parties/${partyId}/overlay`);
+              if (overlayRes.ok) {
+                setPartyOverlay(await overlayRes.json());
+              }
             } else if (partyRes.status === 404) {
               console.error('[UploadPage] Party not found');
               setError('Party not found. It may have been deleted or the link is incorrect.');
@@ -109,38 +136,109 @@ export default function UploadPage() {
       }
     }
     getSessionInfo();
-  }, [partyId, router]);
+  }, [partyId, router, loadMyPhotos]);
+
+  // Check in while the page is open (and when the phone wakes up) so the session keeps
+  // sliding forward through a long party, and a guest signed out by a host is sent home
+  useEffect(() => {
+    async function checkSession() {
+      try {
+        const sessionRes = await fetch('/api/session');
+        if (sessionRes.ok) {
+          const session = await sessionRes.json();
+          if (!session.authenticated) {
+            console.warn('[UploadPage] Session ended, redirecting to home');
+            router.push('/');
+          }
+        }
+      } catch (err) {
+        console.error('[UploadPage] Session refresh error:', err);
+      }
+    }
+
+    function handleVisibilityChange() {
+      if (document.visibilityState === 'visible') {
+        checkSession();
+      }
+    }
+
+    const interval = setInterval(checkSession, TIMING.SESSION_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [router]);
 
   const openTvView = useCallback(() => {
     window.open(`/tv/${partyId}`, '_blank');
   }, [partyId]);
 
-  const handlePhotoUploaded = useCallback((photo: UploadedPhoto) => {
-    setUploadedPhotos(prev => [...prev, photo]);
-  }, []);
-
   const handleUploadSuccess = useCallback(() => {
     setUploadSuccess(true);
     setTimeout(() => setUploadSuccess(false), 2000);
   }, []);
 
+  const handlePhotoUploaded = useCallback(() => {
+    loadMyPhotos();
+    handleUploadSuccess();
+  }, [loadMyPhotos, handleUploadSuccess]);
+
+  const uploadQueue = useUploadQueue(partyId, { onUploaded: handlePhotoUploaded });
+
+  // Sign out so someone else can join on this phone under their own name
+  const switchGuest = useCallback(async () => {
+    setSwitchingGuest(true);
+    try {
+      const response = await fetch('/api/session', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to sign out');
+      }
+      const joinToken = getRememberedJoinToken(partyId);
+      router.push(joinToken ? `/join/${partyId}?token=${encodeURIComponent(joinToken)}` : '/');
+    } catch (err) {
+      console.error('[UploadPage] Switch guest error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+      setSwitchDialogOpen(false);
+      setSwitchingGuest(false);
+    }
+  }, [partyId, router]);
+
+  const handlePhotoUpdated = useCallback((photo: Pick<GuestPhoto, 'id' | 'comment'>) => {
+    setMyPhotos(prev => prev.map(p => (p.id === photo.id ? { ...p, comment: photo.comment } : p)));
+  }, []);
+
+  const handlePhotoDeleted = useCallback((photoId: string) => {
+    setMyPhotos(prev => prev.filter(p => p.id !== photoId));
+  }, []);
+
   const renderActiveTab = () => {
     switch (activeTab) {
       case 0:
         return (
           <CameraTab
             partyId={partyId}
-            onPhotoUploaded={handlePhotoUploaded}
+            onQueuePhoto={uploadQueue.enqueue}
+            overlay={partyOverlay}
             onError={setError}
-            onUploadSuccess={handleUploadSuccess}
             isUploading={isUploading}
             setIsUploading={setIsUploading}
             openTvView={openTvView}
           />
         );
       case 1:
-        return <RemoteTab partyId={partyId} openTvView={openTvView} />;
+        return (
+          <GalleryTab
+            photos={myPhotos}
+            loading={!myPhotosLoaded}
+            onPhotoUpdated={handlePhotoUpdated}
+            onPhotoDeleted={handlePhotoDeleted}
+            onError={setError}
+          />
+        );
       case 2:
+        return <RemoteTab partyId={partyId} openTvView={openTvView} />;
+      case 3:
         return <ShareTab partyId={partyId} />;
       default:
         return null;
@@ -160,8 +258,24 @@ export default function UploadPage() {
             Hi {displayName}! 👋
           </Typography>
           <Typography variant="body2" gutterBottom sx={{ color: 'rgba(255, 255, 255, 0.9)' }}>
-            {uploadedPhotos.length} {uploadedPhotos.length === 1 ? 'photo' : 'photos'} shared
+            {myPhotos.length} {myPhotos.length === 1 ? 'photo' : 'photos'} shared
           </Typography>
+          <Button
+            size="small"
+            href={`/api/parties/${partyId}/download?template={timestamp}_{comment}`}
+            startIcon={<DownloadIcon />}
+            sx={{ color: 'rgba(255, 255, 255, 0.9)' }}
+          >
+            Download my photos
+          </Button>
+          <Button
+            size="small"
+            onClick={() => setSwitchDialogOpen(true)}
+            startIcon={<SwitchIcon />}
+            sx={{ color: 'rgba(255, 255, 255, 0.9)' }}
+          >
+            Switch guest
+          </Button>
         </Box>
 
         {error && (
@@ -205,12 +319,58 @@ export default function UploadPage() {
           </DialogActions>
         </Dialog>
 
+        {/* Switch Guest Dialog */}
+        <Dialog
+          open={switchDialogOpen}
+          onClose={() => !switchingGuest && setSwitchDialogOpen(false)}
+          maxWidth="xs"
+          fullWidth
+        >
+          <DialogTitle>Switch guest</DialogTitle>
+          <DialogContent>
+            {uploadQueue.items.length > 0 ? (
+              <Typography>
+                {uploadQueue.items.length} {uploadQueue.items.length === 1 ? 'photo hasn\'t' : 'photos haven\'t'} been
+                sent yet. Wait for {uploadQueue.items.length === 1 ? 'it' : 'them'} to finish (or discard the failed
+                ones) before handing the phone over.
+              </Typography>
+            ) : (
+              <Typography>
+                {displayName || 'You'} will be signed out on this phone so someone else can join with their own
+                name. Photos already shared stay in the party.
+                {!getRememberedJoinToken(partyId) && ' They\'ll need to scan the party\'s QR code to join.'}
+              </Typography>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSwitchDialogOpen(false)} disabled={switchingGuest}>
+              Cancel
+            </Button>
+            <Button
+              onClick={switchGuest}
+              disabled={switchingGuest || uploadQueue.items.length > 0}
+              variant="contained"
+            >
+              Sign out
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {uploadSuccess && (
           <Alert severity="success" className={styles.alert}>
             Photo uploaded successfully! 🎉
           </Alert>
         )}
 
+        <UploadQueueList
+          items={uploadQueue.items}
+          totalProgress={uploadQueue.totalProgress}
+          uploadedCount={uploadQueue.uploadedCount}
+          online={uploadQueue.online}
+          onRetry={uploadQueue.retry}
+          onDiscard={uploadQueue.discard}
+        />
+
         <Box className={styles.tabContent}>
           {renderActiveTab()}
         </Box>
@@ -222,8 +382,7 @@ export default function UploadPage() {
           value={activeTab}
           onChange={(_, newValue) => {
             setActiveTab(newValue);
-            const tabs = ['camera', 'remote', 'share'];
-            window.history.pushState(null, '', `#${tabs[newValue]}`);
+            window.history.pushState(null, '', `#${TABS[newValue]}`);
           }}
           showLabels
           sx={{
@@ -257,6 +416,10 @@ export default function UploadPage() {
             label="Camera" 
             icon={<CameraIcon />} 
           />
+          <BottomNavigationAction 
+            label="My photos" 
+            icon={<GalleryIcon />} 
+          />
           <BottomNavigationAction 
             label="Remote" 
             icon={<RemoteIcon />} 
@@ -11,6 +11,9 @@ import {
   Card,
   CardMedia,
   CircularProgress,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   CameraAlt as CameraIcon,
@@ -19,29 +22,87 @@ import {
   Close as CloseIcon,
   Tv as TvIcon,
   Timer as TimerIcon,
+  Videocam as VideoIcon,
+  Tune as TuneIcon,
 } from '@mui/icons-material';
-import { processImage, type ProcessedImage } from '@/lib/image';
-import { createClient } from '@/lib/supabase/client';
+import {
+  isMediaFile,
+  isVideoFile,
+  pairLivePhotos,
+  processMedia,
+  processMediaBatch,
+  type MediaSelection,
+  type ProcessedMedia,
+} from '@/lib/media';
+import {
+  grabWebcamFrame,
+  composeStrip,
+  composeBoomerang,
+  createPreview,
+  fetchImageOverlay,
+  isPhotoEdited,
+  type ImageOverlay,
+} from '@/lib/image';
+import { BOOTH, CAPTURE_MODES, COMMENT_MAX_LENGTH, IMAGE, VIDEO, type CaptureMode } from '@/lib/constants';
+import { checkQuota } from '@/lib/quotas';
+import type { PartyOverlay, PhotoEdit, UploadQuota } from '@/types/database';
+import PhotoEditor from './PhotoEditor';
 import styles from '@/app/upload/[partyId]/page.module.css';
 
-interface UploadedPhoto {
-  id: string;
-  name: string;
-  size: number;
-  comment?: string;
-}
-
-interface PendingPhoto {
-  file: File;
+interface PendingPhoto extends MediaSelection {
+  /** Object URL of the clip, or of the photo (the still for Live Photos) */
   preview: string;
   comment: string;
+  /** Crop, rotation and filter picked in the editor */
+  edit: PhotoEdit | null;
+}
+
+function toPendingPhoto({ file, still }: MediaSelection): PendingPhoto {
+  return { file, still, preview: URL.createObjectURL(still ?? file), comment: '', edit: null };
+}
+
+/**
+ * Whether the editor can work on a pending photo (clips and boomerangs play as recorded).
+ */
+/**
+ * The party's upload limits and the guest's usage, or null if they can't be loaded
+ * (the server still enforces them when the photo uploads).
+ */
+async function fetchUploadQuota(): Promise<UploadQuota | null> {
+  try {
+    const response = await fetch('/api/photos/quota');
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bytes a processed photo or clip takes against the party's storage limit */
+function storedBytes(processed: ProcessedMedia): number {
+  return processed.original.size + (processed.tv ? processed.tv.size : 0);
+}
+
+function isEditable({ file }: PendingPhoto): boolean {
+  return !isVideoFile(file) && file.type !== 'image/gif';
+}
+
+/**
+ * Preview of a pending photo; clips play muted on a loop.
+ */
+function PendingPreview({ photo, alt, className }: { photo: PendingPhoto; alt: string; className: string }) {
+  if (isVideoFile(photo.file) && !photo.still) {
+    return <CardMedia component="video" src={photo.preview} autoPlay muted loop playsInline className={className} />;
+  }
+  return <CardMedia component="img" image={photo.preview} alt={alt} className={className} />;
 }
 
 interface CameraTabProps {
   partyId: string;
-  onPhotoUploaded: (photo: UploadedPhoto) => void;
+  /** Add a processed photo to the upload queue; uploading continues in the background */
+  onQueuePhoto: (processed: ProcessedMedia, comment: string) => Promise<void>;
+  /** Party frame and text, stamped on photos and shown in the preview */
+  overlay?: PartyOverlay | null;
   onError: (error: string | null) => void;
-  onUploadSuccess: () => void;
   isUploading: boolean;
   setIsUploading: (uploading: boolean) => void;
   openTvView: () => void;
@@ -49,25 +110,41 @@ interface CameraTabProps {
 
 export default function CameraTab({
   partyId,
-  onPhotoUploaded,
+  onQueuePhoto,
+  overlay,
   onError,
-  onUploadSuccess,
   isUploading,
   setIsUploading,
   openTvView,
 }: CameraTabProps) {
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
+  const clipInputRef = useRef<HTMLInputElement>(null);
   const commentInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const countdownTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const [pendingPhoto, setPendingPhoto] = useState<PendingPhoto | null>(null);
+  const [pendingBatch, setPendingBatch] = useState<PendingPhoto[] | null>(null);
+  const [batchProcessed, setBatchProcessed] = useState(0);
+  // Percent done of the photos being processed right now, by batch index for batches
+  const [processingProgress, setProcessingProgress] = useState<Record<number, number>>({});
   const [showCamera, setShowCamera] = useState(false);
   const [countdown, setCountdown] = useState<number | null>(null);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('photo');
+  // A strip or boomerang is being taken
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [boothStatus, setBoothStatus] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<number>(0);
+  const [imageOverlay, setImageOverlay] = useState<ImageOverlay | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  // Pending photo with the edit and overlay drawn on, keyed by the preview and edit it replaces
+  const [renderedPreview, setRenderedPreview] = useState<{
+    source: string;
+    edit: PhotoEdit | null;
+    url: string;
+  } | null>(null);
 
   // Detect if mobile device
   useEffect(() => {
@@ -86,6 +163,49 @@ export default function CameraTab({
     }
   }, [pendingPhoto]);
 
+  // Fetch the party frame once; photos upload without it if it can't be loaded
+  useEffect(() => {
+    if (!overlay) return;
+    let cancelled = false;
+
+    fetchImageOverlay(overlay)
+      .then(loaded => {
+        if (!cancelled) setImageOverlay(loaded);
+      })
+      .catch(err => console.warn('Could not load the party overlay:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [overlay]);
+
+  // Show the pending photo as the TV will (clips and boomerangs aren't edited or stamped)
+  const pendingFile = pendingPhoto?.file;
+  const pendingPreview = pendingPhoto?.preview;
+  const pendingEdit = pendingPhoto?.edit ?? null;
+  useEffect(() => {
+    if (!pendingFile || !pendingPreview) return;
+    if (!imageOverlay && !isPhotoEdited(pendingEdit)) return;
+    if (isVideoFile(pendingFile) || pendingFile.type === 'image/gif') return;
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    createPreview(pendingFile, { edit: pendingEdit, overlay: imageOverlay })
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setRenderedPreview({ source: pendingPreview, edit: pendingEdit, url });
+      })
+      // Browsers that can't draw the file (HEIC) keep the plain preview
+      .catch(err => console.warn('Could not preview the photo:', err));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [pendingFile, pendingPreview, pendingEdit, imageOverlay]);
+
   // Cleanup camera stream on unmount
   useEffect(() => {
     return () => {
@@ -98,171 +218,29 @@ export default function CameraTab({
     };
   }, []);
 
-  const uploadPhoto = useCallback(async (
-    file: File,
-    processed: ProcessedImage,
-    comment: string
-  ): Promise<UploadedPhoto | null> => {
-    const inputFileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
-    const originalSizeMB = (processed.original.size / (1024 * 1024)).toFixed(2);
-    const tvSizeMB = processed.tv ? (processed.tv.size / (1024 * 1024)).toFixed(2) : 'N/A';
-    
-    console.log('🚀 Starting direct upload:', {
-      inputFile: `${inputFileSizeMB}MB`,
-      processedOriginal: `${originalSizeMB}MB`,
-      processedTV: processed.tv ? `${tvSizeMB}MB` : 'using same as original',
-      useSameForTv: processed.useSameForTv,
-      compressionRatio: ((file.size / processed.original.size) * 100).toFixed(1) + '%',
-      analysis: processed.analysis
-    });
-    
-    try {
-      setUploadProgress(5);
-      
-      // Step 1: Get signed upload URLs
-      const prepareResponse = await fetch('/api/photos/prepare-upload', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          originalExt: processed.originalExt,
-          createTvVersion: !processed.useSameForTv && !!processed.tv
-        })
-      });
-
-      if (!prepareResponse.ok) {
-        const data = await prepareResponse.json();
-        throw new Error(data.error || 'Failed to prepare upload');
-      }
-
-      const uploadMeta = await prepareResponse.json();
-      console.log('✅ Upload URLs prepared:', uploadMeta.photoId);
-      
-      setUploadProgress(10);
-
-      // Step 2: Upload original to Supabase Storage using signed URL
-      console.log('📤 Uploading original...');
-      const originalUpload = await new Promise<void>((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        
-        xhr.upload.onprogress = (e) => {
-          if (e.lengthComputable) {
-            const percentOriginal = Math.round((e.loaded / e.total) * 40); // 10-50%
-            setUploadProgress(10 + percentOriginal);
-          }
-        };
-        
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve();
-          } else {
-            reject(new Error(`Original upload failed: ${xhr.status} ${xhr.statusText}`));
-          }
-        };
-        
-        xhr.onerror = () => reject(new Error('Network error uploading original'));
-        
-        xhr.open('PUT', uploadMeta.originalSignedUrl);
-        xhr.setRequestHeader('Content-Type', processed.originalMime);
-        xhr.send(processed.original);
-      });
-
-      console.log('✅ Original uploaded');
-      setUploadProgress(50);
-
-      // Step 3: Upload TV version (if separate)
-      if (!processed.useSameForTv && processed.tv && uploadMeta.tvSignedUrl) {
-        console.log('📤 Uploading TV version...');
-        await new Promise<void>((resolve, reject) => {
-          const xhr = new XMLHttpRequest();
-          
-          xhr.upload.onprogress = (e) => {
-            if (e.lengthComputable) {
-              const percentTv = Math.round((e.loaded / e.total) * 30); // 50-80%
-              setUploadProgress(50 + percentTv);
-            }
-          };
-          
-          xhr.onload = () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-              resolve();
-            } else {
-              reject(new Error(`TV upload failed: ${xhr.status} ${xhr.statusText}`));
-            }
-          };
-          
-          xhr.onerror = () => reject(new Error('Network error uploading TV version'));
-          
-          xhr.open('PUT', uploadMeta.tvSignedUrl);
-          xhr.setRequestHeader('Content-Type', 'image/jpeg');
-          xhr.send(processed.tv);
-        });
-        
-        console.log('✅ TV version uploaded');
-      }
-      
-      setUploadProgress(80);
-
-      // Step 4: Create database record using Supabase client
-      console.log('💾 Creating database record...');
-      const supabase = createClient();
-      
-      const { data: photo, error: dbError } = await supabase
-        .from('photos')
-        .insert({
-          id: uploadMeta.photoId,
-          party_id: uploadMeta.partyId,
-          uploader_id: uploadMeta.uploaderId,
-          original_path: uploadMeta.originalPath,
-          tv_path: uploadMeta.tvPath || uploadMeta.originalPath, // Use original if no separate TV
-          original_mime: processed.originalMime,
-          tv_mime: 'image/jpeg',
-          original_bytes: processed.original.size,
-          tv_bytes: processed.tv?.size || processed.original.size,
-          comment: comment || null,
-        })
-        .select('id, created_at')
-        .single();
-
-      if (dbError || !photo) {
-        console.error('❌ Database insert failed:', dbError);
-        throw new Error(dbError?.message || 'Failed to save photo record');
-      }
-
-      console.log('✅ Upload complete:', photo.id);
-      setUploadProgress(100);
-
-      return {
-        id: photo.id,
-        name: file.name,
-        size: file.size,
-        comment,
-      };
-    } catch (err) {
-      console.error('❌ Upload failed:', err);
-      throw err;
-    } finally {
-      // Reset progress after a short delay
-      setTimeout(() => setUploadProgress(0), 500);
-    }
-  }, []);
-
   const handleFileSelect = useCallback((file: File) => {
-    if (!file.type.startsWith('image/') && 
-        !file.name.toLowerCase().endsWith('.heic') && 
-        !file.name.toLowerCase().endsWith('.heif')) {
-      onError('Please select an image file');
+    if (!isMediaFile(file)) {
+      onError('Please select a photo or video clip');
       return;
     }
 
-    const preview = URL.createObjectURL(file);
-    setPendingPhoto({
-      file,
-      preview,
-      comment: '',
-    });
+    setPendingPhoto(toPendingPhoto({ file }));
     onError(null);
   }, [onError]);
 
+  const handleFilesSelect = useCallback((files: File[]) => {
+    const selections = pairLivePhotos(files.filter(isMediaFile));
+    if (selections.length === 0) {
+      onError('Please select photos or video clips');
+      return;
+    }
+
+    setPendingBatch(selections.slice(0, IMAGE.MAX_BATCH_PHOTOS).map(toPendingPhoto));
+    onError(selections.length > IMAGE.MAX_BATCH_PHOTOS
+      ? `Only the first ${IMAGE.MAX_BATCH_PHOTOS} photos were picked`
+      : null);
+  }, [onError]);
+
   const handleCameraClick = useCallback(async () => {
     if (isMobile) {
       cameraInputRef.current?.click();
@@ -291,54 +269,127 @@ export default function CameraTab({
     }
   }, [isMobile, onError]);
 
+  // Close the webcam and show the capture for a comment
+  const finishCapture = useCallback((file: File) => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setShowCamera(false);
+    setPendingPhoto(toPendingPhoto({ file }));
+  }, []);
+
   const handleCapturePhoto = useCallback(() => {
     if (!videoRef.current || !streamRef.current) return;
 
-    const video = videoRef.current;
-    const canvas = document.createElement('canvas');
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.drawImage(video, 0, 0);
-    
-    canvas.toBlob((blob) => {
+    grabWebcamFrame(videoRef.current).toBlob((blob) => {
       if (!blob) return;
-      
-      const file = new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' });
-      
-      streamRef.current?.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-      setShowCamera(false);
-      
-      const preview = URL.createObjectURL(file);
-      setPendingPhoto({
-        file,
-        preview,
-        comment: '',
-      });
+      finishCapture(new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' }));
     }, 'image/jpeg', 0.9);
-  }, []);
+  }, [finishCapture]);
+
+  /**
+   * Count down on the overlay. Never resolves if the camera is closed meanwhile.
+   */
+  const runCountdown = useCallback((seconds: number) => new Promise<void>((resolve) => {
+    let remaining = seconds;
+    setCountdown(remaining);
+
+    countdownTimerRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+        return;
+      }
+      if (countdownTimerRef.current) {
+        clearInterval(countdownTimerRef.current);
+        countdownTimerRef.current = null;
+      }
+      setCountdown(null);
+      resolve();
+    }, 1000);
+  }), []);
+
+  /**
+   * Run a timed capture; it stops if the webcam is closed (or reopened) meanwhile.
+   */
+  const runBoothCapture = useCallback(async (
+    capture: (video: () => HTMLVideoElement | null) => Promise<File | null>
+  ) => {
+    const stream = streamRef.current;
+    const video = () => (streamRef.current === stream ? videoRef.current : null);
+
+    setIsCapturing(true);
+    onError(null);
+    try {
+      const file = await capture(video);
+      if (file && video()) {
+        finishCapture(file);
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Could not take the photo');
+    } finally {
+      setIsCapturing(false);
+      setBoothStatus(null);
+    }
+  }, [finishCapture, onError]);
 
   const handleTimerCapture = useCallback(() => {
-    setCountdown(5);
-    
-    const timer = setInterval(() => {
-      setCountdown(prev => {
-        if (prev === null || prev <= 1) {
-          clearInterval(timer);
-          countdownTimerRef.current = null;
-          handleCapturePhoto();
-          return null;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    
-    countdownTimerRef.current = timer;
-  }, [handleCapturePhoto]);
+    runBoothCapture(async () => {
+      await runCountdown(BOOTH.PHOTO_COUNTDOWN_S);
+      handleCapturePhoto();
+      return null;
+    });
+  }, [runBoothCapture, runCountdown, handleCapturePhoto]);
+
+  const handleCaptureStrip = useCallback(() => {
+    runBoothCapture(async (video) => {
+      const shots: HTMLCanvasElement[] = [];
+      for (let shot = 1; shot <= BOOTH.STRIP_SHOTS; shot++) {
+        setBoothStatus(`Shot ${shot} of ${BOOTH.STRIP_SHOTS}`);
+        await runCountdown(BOOTH.STRIP_COUNTDOWN_S);
+
+        const current = video();
+        if (!current) return null;
+        shots.push(grabWebcamFrame(current, BOOTH.STRIP_SHOT_WIDTH));
+      }
+
+      setBoothStatus('Developing your strip...');
+      return composeStrip(shots);
+    });
+  }, [runBoothCapture, runCountdown]);
+
+  const handleCaptureBoomerang = useCallback(() => {
+    runBoothCapture(async (video) => {
+      setBoothStatus('Get ready to move!');
+      await runCountdown(BOOTH.BOOMERANG_COUNTDOWN_S);
+
+      setBoothStatus('Recording...');
+      const frames: HTMLCanvasElement[] = [];
+      for (let frame = 0; frame < BOOTH.BOOMERANG_FRAMES; frame++) {
+        const current = video();
+        if (!current) return null;
+        frames.push(grabWebcamFrame(current, BOOTH.BOOMERANG_WIDTH));
+        await new Promise(resolve => setTimeout(resolve, BOOTH.BOOMERANG_FRAME_MS));
+      }
+
+      setBoothStatus('Making your boomerang...');
+      // Let the status show before encoding holds the main thread
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return composeBoomerang(frames);
+    });
+  }, [runBoothCapture, runCountdown]);
+
+  const handleCapture = useCallback(() => {
+    switch (captureMode) {
+      case 'strip':
+        handleCaptureStrip();
+        break;
+      case 'boomerang':
+        handleCaptureBoomerang();
+        break;
+      default:
+        handleCapturePhoto();
+    }
+  }, [captureMode, handleCapturePhoto, handleCaptureStrip, handleCaptureBoomerang]);
 
   const handleCancelCamera = useCallback(() => {
     if (countdownTimerRef.current) {
@@ -346,6 +397,8 @@ export default function CameraTab({
       countdownTimerRef.current = null;
     }
     setCountdown(null);
+    setIsCapturing(false);
+    setBoothStatus(null);
     streamRef.current?.getTracks().forEach(track => track.stop());
     streamRef.current = null;
     setShowCamera(false);
@@ -355,12 +408,19 @@ export default function CameraTab({
     galleryInputRef.current?.click();
   }, []);
 
+  const handleClipClick = useCallback(() => {
+    clipInputRef.current?.click();
+  }, []);
+
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      handleFileSelect(e.target.files[0]);
-      e.target.value = '';
+    const files = e.target.files;
+    if (files && files.length === 1) {
+      handleFileSelect(files[0]);
+    } else if (files && files.length > 1) {
+      handleFilesSelect(Array.from(files));
     }
-  }, [handleFileSelect]);
+    e.target.value = '';
+  }, [handleFileSelect, handleFilesSelect]);
 
   const handleCommentChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (pendingPhoto) {
@@ -372,16 +432,30 @@ export default function CameraTab({
     if (!pendingPhoto) return;
 
     setIsUploading(true);
+    setProcessingProgress({});
     onError(null);
 
     try {
-      const processed = await processImage(pendingPhoto.file);
-      const uploaded = await uploadPhoto(pendingPhoto.file, processed, pendingPhoto.comment);
-      
-      if (uploaded) {
-        onPhotoUploaded(uploaded);
-        onUploadSuccess();
+      const quota = await fetchUploadQuota();
+      const countCheck = quota ? checkQuota(quota, 1, 0) : null;
+      if (countCheck && !countCheck.ok) {
+        onError(countCheck.error);
+        return;
+      }
+
+      const processed = await processMedia(pendingPhoto, {
+        overlay: imageOverlay,
+        edit: pendingPhoto.edit,
+        maxOriginalSize: quota?.limits.maxOriginalSize,
+        onProgress: ({ percent }) => setProcessingProgress({ 0: percent }),
+      });
+
+      const storageCheck = quota ? checkQuota(quota, 1, storedBytes(processed)) : null;
+      if (storageCheck && !storageCheck.ok) {
+        onError(storageCheck.error);
+        return;
       }
+      await onQueuePhoto(processed, pendingPhoto.comment);
 
       URL.revokeObjectURL(pendingPhoto.preview);
       setPendingPhoto(null);
@@ -390,11 +464,17 @@ export default function CameraTab({
         commentInputRef.current?.focus();
       }, 100);
     } catch (err) {
-      onError(err instanceof Error ? err.message : 'Upload failed');
+      onError(err instanceof Error ? err.message : 'Could not save photo');
     } finally {
       setIsUploading(false);
+      setProcessingProgress({});
     }
-  }, [pendingPhoto, uploadPhoto, onPhotoUploaded, onUploadSuccess, onError, setIsUploading]);
+  }, [pendingPhoto, imageOverlay, onQueuePhoto, onError, setIsUploading]);
+
+  const handleSaveEdit = useCallback((edit: PhotoEdit) => {
+    setPendingPhoto(prev => prev && { ...prev, edit: isPhotoEdited(edit) ? edit : null });
+    setIsEditing(false);
+  }, []);
 
   const handleCancelPhoto = useCallback(() => {
     if (pendingPhoto) {
@@ -403,6 +483,76 @@ export default function CameraTab({
     }
   }, [pendingPhoto]);
 
+  const handleBatchCommentChange = useCallback((index: number, comment: string) => {
+    setPendingBatch(prev => prev && prev.map((photo, i) => (i === index ? { ...photo, comment } : photo)));
+  }, []);
+
+  const handleRemoveFromBatch = useCallback((index: number) => {
+    setPendingBatch(prev => {
+      if (!prev) return prev;
+      URL.revokeObjectURL(prev[index].preview);
+      const remaining = prev.filter((_, i) => i !== index);
+      return remaining.length > 0 ? remaining : null;
+    });
+  }, []);
+
+  const handleCancelBatch = useCallback(() => {
+    pendingBatch?.forEach(photo => URL.revokeObjectURL(photo.preview));
+    setPendingBatch(null);
+  }, [pendingBatch]);
+
+  const handleSendBatch = useCallback(async () => {
+    if (!pendingBatch) return;
+    const batch = pendingBatch;
+
+    setIsUploading(true);
+    setBatchProcessed(0);
+    setProcessingProgress({});
+    onError(null);
+
+    try {
+      const quota = await fetchUploadQuota();
+      const countCheck = quota ? checkQuota(quota, batch.length, 0) : null;
+      if (countCheck && !countCheck.ok) {
+        onError(countCheck.error);
+        return;
+      }
+
+      const failures = await processMediaBatch(batch, async (index, processed) => {
+        await onQueuePhoto(processed, batch[index].comment);
+        setBatchProcessed(count => count + 1);
+        setProcessingProgress(prev => {
+          const next = { ...prev };
+          delete next[index];
+          return next;
+        });
+      }, {
+        overlay: imageOverlay,
+        maxOriginalSize: quota?.limits.maxOriginalSize,
+        onProgress: (index, { percent }) => setProcessingProgress(prev => ({ ...prev, [index]: percent })),
+      });
+
+      // Keep the photos that failed so the guest can try them again
+      const failedIndexes = new Set(failures.map(failure => failure.index));
+      batch.forEach((photo, index) => {
+        if (!failedIndexes.has(index)) URL.revokeObjectURL(photo.preview);
+      });
+      setPendingBatch(failures.length > 0 ? batch.filter((_, index) => failedIndexes.has(index)) : null);
+
+      if (failures.length > 0) {
+        const firstError = failures[0].error;
+        onError(`${failures.length} of ${batch.length} photos could not be prepared: ${
+          firstError instanceof Error ? firstError.message : 'processing failed'
+        }`);
+      }
+    } finally {
+      setIsUploading(false);
+      setProcessingProgress({});
+    }
+  }, [pendingBatch, imageOverlay, onQueuePhoto, onError, setIsUploading]);
+
+  const processingPercent = Object.values(processingProgress).reduce((sum, percent) => sum + percent, 0);
+
   if (showCamera) {
     return (
       <Box className={styles.cameraContainer}>
@@ -430,23 +580,48 @@ export default function CameraTab({
               </Typography>
             </Box>
           )}
+
+          {boothStatus && (
+            <Typography variant="subtitle1" className={styles.boothStatus}>
+              {boothStatus}
+            </Typography>
+          )}
         </Box>
 
-        <Box className={styles.captureSection}>
-          <IconButton
+        <Box className={styles.captureModes}>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
             color="primary"
-            size="large"
-            onClick={handleTimerCapture}
-            disabled={countdown !== null}
-            className={styles.timerButton}
+            value={captureMode}
+            onChange={(_, mode: CaptureMode | null) => mode && setCaptureMode(mode)}
+            disabled={isCapturing}
           >
-            <TimerIcon fontSize="large" />
-          </IconButton>
+            {CAPTURE_MODES.map(({ mode, label }) => (
+              <ToggleButton key={mode} value={mode}>
+                {label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box className={styles.captureSection}>
+          {captureMode === 'photo' && (
+            <IconButton
+              color="primary"
+              size="large"
+              onClick={handleTimerCapture}
+              disabled={countdown !== null || isCapturing}
+              className={styles.timerButton}
+            >
+              <TimerIcon fontSize="large" />
+            </IconButton>
+          )}
           <Fab
             color="primary"
             size="large"
-            onClick={handleCapturePhoto}
-            disabled={countdown !== null}
+            onClick={handleCapture}
+            disabled={countdown !== null || isCapturing}
             className={styles.captureButton}
           >
             <CameraIcon fontSize="large" />
@@ -456,11 +631,100 @@ export default function CameraTab({
     );
   }
 
+  if (pendingBatch) {
+    return (
+      <Box className={styles.previewContainer}>
+        <Box className={styles.previewHeader}>
+          <IconButton
+            onClick={handleCancelBatch}
+            className={styles.closeButton}
+            disabled={isUploading}
+          >
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Typography variant="h6" sx={{ color: 'white', alignSelf: 'flex-start' }}>
+          {pendingBatch.length} {pendingBatch.length === 1 ? 'photo' : 'photos'} selected
+        </Typography>
+
+        <Box className={styles.batchGrid}>
+          {pendingBatch.map((photo, index) => (
+            <Card key={photo.preview} className={styles.batchItem}>
+              <Box className={styles.batchImageContainer}>
+                <PendingPreview
+                  photo={photo}
+                  alt={`Selected photo ${index + 1}`}
+                  className={styles.batchImage}
+                />
+                <IconButton
+                  size="small"
+                  onClick={() => handleRemoveFromBatch(index)}
+                  disabled={isUploading}
+                  className={styles.batchRemoveButton}
+                  title="Remove from selection"
+                >
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Box>
+              <TextField
+                fullWidth
+                size="small"
+                variant="standard"
+                placeholder="Comment (optional)"
+                value={photo.comment}
+                onChange={(e) => handleBatchCommentChange(index, e.target.value)}
+                disabled={isUploading}
+                slotProps={{ htmlInput: { maxLength: COMMENT_MAX_LENGTH } }}
+                sx={{ px: 1, pb: 1 }}
+              />
+            </Card>
+          ))}
+        </Box>
+
+        {isUploading && (
+          <Box sx={{ width: '100%' }}>
+            <LinearProgress
+              variant="determinate"
+              value={(batchProcessed * 100 + processingPercent) / pendingBatch.length}
+              sx={{ borderRadius: 2, height: 8 }}
+            />
+            <Typography variant="caption" sx={{ color: 'white' }}>
+              Preparing {Math.min(batchProcessed + 1, pendingBatch.length)} of {pendingBatch.length}...
+            </Typography>
+          </Box>
+        )}
+
+        <Button
+          variant="contained"
+          size="large"
+          startIcon={isUploading ? <CircularProgress size={20} color="inherit" /> : <SendIcon />}
+          onClick={handleSendBatch}
+          disabled={isUploading}
+          fullWidth
+          className={styles.galleryButton}
+        >
+          Send {pendingBatch.length} {pendingBatch.length === 1 ? 'photo' : 'photos'}
+        </Button>
+      </Box>
+    );
+  }
+
   if (pendingPhoto) {
     return (
       <Box className={styles.previewContainer}>
         <Card className={styles.previewCard} sx={{ borderRadius: 0 }}>
           <Box className={styles.previewHeader}>
+            {isEditable(pendingPhoto) && (
+              <IconButton
+                onClick={() => setIsEditing(true)}
+                className={styles.editButton}
+                disabled={isUploading}
+                aria-label="Edit photo"
+              >
+                <TuneIcon />
+              </IconButton>
+            )}
             <IconButton
               onClick={handleCancelPhoto}
               className={styles.closeButton}
@@ -470,9 +734,10 @@ export default function CameraTab({
             </IconButton>
           </Box>
           <Box className={styles.polaroidImageContainer}>
-            <CardMedia
-              component="img"
-              image={pendingPhoto.preview}
+            <PendingPreview
+              photo={renderedPreview?.source === pendingPhoto.preview && renderedPreview.edit === pendingPhoto.edit
+                ? { ...pendingPhoto, preview: renderedPreview.url }
+                : pendingPhoto}
               alt="Preview"
               className={styles.previewImage}
             />
@@ -487,6 +752,7 @@ export default function CameraTab({
               value={pendingPhoto.comment}
               onChange={handleCommentChange}
               disabled={isUploading}
+              slotProps={{ htmlInput: { maxLength: COMMENT_MAX_LENGTH } }}
               className={styles.commentField}
               variant="outlined"
               size="small"
@@ -499,36 +765,11 @@ export default function CameraTab({
               className={styles.sendButton}
             >
               {isUploading ? (
-                <Box sx={{ position: 'relative', display: 'inline-flex' }}>
-                  <CircularProgress 
-                    variant={uploadProgress > 0 ? "determinate" : "indeterminate"}
-                    value={uploadProgress}
-                    size={24}
-                  />
-                  {uploadProgress > 0 && (
-                    <Box
-                      sx={{
-                        top: 0,
-                        left: 0,
-                        bottom: 0,
-                        right: 0,
-                        position: 'absolute',
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                      }}
-                    >
-                      <Typography
-                        variant="caption"
-                        component="div"
-                        color="text.secondary"
-                        sx={{ fontSize: '8px' }}
-                      >
-                        {`${Math.round(uploadProgress)}%`}
-                      </Typography>
-                    </Box>
-                  )}
-                </Box>
+                <CircularProgress
+                  size={24}
+                  variant={processingPercent > 0 ? 'determinate' : 'indeterminate'}
+                  value={processingPercent}
+                />
               ) : (
                 <SendIcon />
               )}
@@ -536,6 +777,15 @@ export default function CameraTab({
           </Box>
         </Card>
 
+        {isEditing && (
+          <PhotoEditor
+            file={pendingPhoto.file}
+            edit={pendingPhoto.edit}
+            onClose={() => setIsEditing(false)}
+            onSave={handleSaveEdit}
+          />
+        )}
+
         <input
           ref={cameraInputRef}
           type="file"
@@ -548,7 +798,8 @@ export default function CameraTab({
         <input
           ref={galleryInputRef}
           type="file"
-          accept="image/*,.heic,.heif"
+          accept="image/*,video/*,.heic,.heif"
+          multiple
           onChange={handleInputChange}
           className={styles.hiddenInput}
         />
@@ -584,6 +835,16 @@ export default function CameraTab({
         >
           Choose from Gallery
         </Button>
+        <Button
+          variant="text"
+          size="large"
+          startIcon={<VideoIcon />}
+          onClick={handleClipClick}
+          disabled={isUploading}
+          fullWidth
+        >
+          Record a Clip (up to {VIDEO.MAX_DURATION_MS / 1000}s)
+        </Button>
       </Box>
 
       <input
@@ -598,7 +859,17 @@ export default function CameraTab({
       <input
         ref={galleryInputRef}
         type="file"
-        accept="image/*,.heic,.heif"
+        accept="image/*,video/*,.heic,.heif"
+        multiple
+        onChange={handleInputChange}
+        className={styles.hiddenInput}
+      />
+
+      <input
+        ref={clipInputRef}
+        type="file"
+        accept="video/*"
+        capture="environment"
         onChange={handleInputChange}
         className={styles.hiddenInput}
       />
@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  TextField,
+  Button,
+  Chip,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  PersonRemove as RemoveIcon,
+  PersonAdd as AddIcon,
+} from '@mui/icons-material';
+import type { PartyHostRole } from '@/types/database';
+
+interface PartyHost {
+  id: string;
+  email: string;
+  displayName: string | null;
+  role: PartyHostRole;
+}
+
+interface CoHostsModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+  currentHostId: string | null;
+  role: PartyHostRole;
+  onLeft: () => void;
+}
+
+export default function CoHostsModal({
+  open,
+  onClose,
+  partyId,
+  partyName,
+  currentHostId,
+  role,
+  onLeft,
+}: CoHostsModalProps) {
+  const [hosts, setHosts] = useState<PartyHost[]>([]);
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const loadHosts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/hosts`);
+      if (!response.ok) {
+        throw new Error('Failed to load hosts');
+      }
+      const data: PartyHost[] = await response.json();
+      setHosts(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load hosts');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadHosts();
+    }
+  }, [open, partyId, loadHosts]);
+
+  const inviteCoHost = useCallback(async () => {
+    setInviting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/hosts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to invite co-host');
+      }
+
+      setHosts(prev => [...prev, data]);
+      setInviteEmail('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to invite co-host');
+    } finally {
+      setInviting(false);
+    }
+  }, [partyId, inviteEmail]);
+
+  const removeCoHost = useCallback(async (hostId: string) => {
+    const leaving = hostId === currentHostId;
+    if (leaving && !confirm('Leave this party? You will no longer be able to manage it.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/hosts/${hostId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove co-host');
+      }
+
+      if (leaving) {
+        onLeft();
+        return;
+      }
+      setHosts(prev => prev.filter(h => h.id !== hostId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove co-host');
+    }
+  }, [partyId, currentHostId, onLeft]);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            🤝 Hosts
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 2 }}>
+            {hosts.map(host => (
+              <Box
+                key={host.id}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  py: 1,
+                  borderBottom: '1px solid rgba(16,24,40,0.08)',
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body1" sx={{ fontWeight: 600 }} noWrap>
+                    {host.displayName || host.email}
+                  </Typography>
+                  {host.displayName && (
+                    <Typography variant="caption" sx={{ color: 'rgba(17,24,39,0.6)' }} noWrap component="p">
+                      {host.email}
+                    </Typography>
+                  )}
+                </Box>
+                <Chip
+                  label={host.role === 'owner' ? 'Owner' : 'Co-host'}
+                  size="small"
+                  color={host.role === 'owner' ? 'primary' : 'default'}
+                />
+                {host.role === 'cohost' && (role === 'owner' || host.id === currentHostId) && (
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => removeCoHost(host.id)}
+                    title={host.id === currentHostId ? 'Leave party' : 'Remove co-host'}
+                  >
+                    <RemoveIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        {role === 'owner' && (
+          <Box
+            component="form"
+            onSubmit={(e) => { e.preventDefault(); inviteCoHost(); }}
+            sx={{ display: 'flex', gap: 1, mt: 3 }}
+          >
+            <TextField
+              type="email"
+              size="small"
+              fullWidth
+              label="Co-host email"
+              placeholder="Their host account email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              disabled={inviting}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              startIcon={inviting ? <CircularProgress size={16} color="inherit" /> : <AddIcon />}
+              disabled={inviting || !inviteEmail.trim()}
+            >
+              Invite
+            </Button>
+          </Box>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Videocam as VideoIcon,
+} from '@mui/icons-material';
+import { COMMENT_MAX_LENGTH } from '@/lib/constants';
+import type { MediaType, PhotoStatus } from '@/types/database';
+
+export interface GuestPhoto {
+  id: string;
+  status: PhotoStatus;
+  comment: string | null;
+  createdAt: string;
+  thumbUrl: string | null;
+  mediaType: MediaType;
+}
+
+interface GalleryTabProps {
+  photos: GuestPhoto[];
+  loading: boolean;
+  onPhotoUpdated: (photo: Pick<GuestPhoto, 'id' | 'comment'>) => void;
+  onPhotoDeleted: (photoId: string) => void;
+  onError: (error: string) => void;
+}
+
+const STATUS_LABELS: Partial<Record<PhotoStatus, string>> = {
+  pending: 'Waiting for approval',
+  hidden: 'Hidden by host',
+};
+
+export default function GalleryTab({
+  photos,
+  loading,
+  onPhotoUpdated,
+  onPhotoDeleted,
+  onError,
+}: GalleryTabProps) {
+  const [editingPhoto, setEditingPhoto] = useState<GuestPhoto | null>(null);
+  const [editComment, setEditComment] = useState('');
+  const [busyPhotoId, setBusyPhotoId] = useState<string | null>(null);
+
+  const startEditing = useCallback((photo: GuestPhoto) => {
+    setEditingPhoto(photo);
+    setEditComment(photo.comment ?? '');
+  }, []);
+
+  const saveComment = useCallback(async () => {
+    if (!editingPhoto) return;
+    setBusyPhotoId(editingPhoto.id);
+
+    try {
+      const response = await fetch(`/api/photos/mine/${editingPhoto.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comment: editComment }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update comment');
+      }
+
+      onPhotoUpdated(data);
+      setEditingPhoto(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update comment');
+    } finally {
+      setBusyPhotoId(null);
+    }
+  }, [editingPhoto, editComment, onPhotoUpdated, onError]);
+
+  const deletePhoto = useCallback(async (photoId: string) => {
+    if (!confirm('Delete this photo? It will also disappear from the TV.')) {
+      return;
+    }
+    setBusyPhotoId(photoId);
+
+    try {
+      const response = await fetch(`/api/photos/mine/${photoId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete photo');
+      }
+
+      onPhotoDeleted(photoId);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete photo');
+    } finally {
+      setBusyPhotoId(null);
+    }
+  }, [onPhotoDeleted, onError]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress sx={{ color: 'white' }} />
+      </Box>
+    );
+  }
+
+  if (photos.length === 0) {
+    return (
+      <Box sx={{ py: 4, textAlign: 'center' }}>
+        <Typography variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.8)', fontStyle: 'italic' }}>
+          Your photos will show up here once you share some
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, 1fr)',
+          gap: 1.5,
+          width: '100%',
+          pb: 2,
+        }}
+      >
+        {photos.map(photo => (
+          <Box
+            key={photo.id}
+            sx={{
+              position: 'relative',
+              borderRadius: '12px',
+              overflow: 'hidden',
+              background: 'white',
+              opacity: busyPhotoId === photo.id ? 0.5 : 1,
+            }}
+          >
+            <Box
+              component="img"
+              src={photo.thumbUrl ?? undefined}
+              alt={photo.comment || 'Your photo'}
+              sx={{ width: '100%', aspectRatio: '1', objectFit: 'cover', display: 'block' }}
+            />
+            {STATUS_LABELS[photo.status] && (
+              <Chip
+                label={STATUS_LABELS[photo.status]}
+                size="small"
+                color={photo.status === 'pending' ? 'warning' : 'default'}
+                sx={{ position: 'absolute', top: 8, left: 8 }}
+              />
+            )}
+            {photo.mediaType === 'video' && (
+              <VideoIcon
+                titleAccess="Video clip"
+                sx={{ position: 'absolute', top: 8, right: 8, color: 'white', filter: 'drop-shadow(0 1px 2px rgba(0,0,0,0.6))' }}
+              />
+            )}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, p: 1 }}>
+              <Typography
+                variant="caption"
+                sx={{ flex: 1, minWidth: 0, color: 'rgba(17, 24, 39, 0.7)' }}
+                noWrap
+              >
+                {photo.comment || 'No comment'}
+              </Typography>
+              <IconButton
+                size="small"
+                disabled={busyPhotoId === photo.id}
+                onClick={() => startEditing(photo)}
+                title="Edit comment"
+              >
+                <EditIcon fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                color="error"
+                disabled={busyPhotoId === photo.id}
+                onClick={() => deletePhoto(photo.id)}
+                title="Delete photo"
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          </Box>
+        ))}
+      </Box>
+
+      <Dialog
+        open={!!editingPhoto}
+        onClose={() => setEditingPhoto(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Edit comment</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            rows={2}
+            placeholder="Add a comment (optional)..."
+            value={editComment}
+            onChange={(e) => setEditComment(e.target.value)}
+            disabled={busyPhotoId !== null}
+            slotProps={{ htmlInput: { maxLength: COMMENT_MAX_LENGTH } }}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingPhoto(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={saveComment}
+            disabled={busyPhotoId !== null}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
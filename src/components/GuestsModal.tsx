@@ -0,0 +1,364 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  Alert,
+  Chip,
+  TextField,
+  MenuItem,
+  Button,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Logout as SignOutIcon,
+  Edit as EditIcon,
+  Check as CheckIcon,
+  CallMerge as MergeIcon,
+  Block as BanIcon,
+  HowToReg as UnbanIcon,
+} from '@mui/icons-material';
+import { DISPLAY_NAME_MAX_LENGTH } from '@/lib/uploaders';
+import type { PartyGuest } from '@/types/database';
+
+interface GuestsModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+}
+
+function describeGuest(guest: PartyGuest): string {
+  const photos = `${guest.photoCount} ${guest.photoCount === 1 ? 'photo' : 'photos'}`;
+  if (guest.activeSessions === 0) {
+    return `${photos} · signed out`;
+  }
+  return `${photos} · signed in on ${guest.activeSessions} ${guest.activeSessions === 1 ? 'device' : 'devices'}`;
+}
+
+export default function GuestsModal({ open, onClose, partyId, partyName }: GuestsModalProps) {
+  const [guests, setGuests] = useState<PartyGuest[]>([]);
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeIntoId, setMergeIntoId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const loadGuests = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/uploaders`);
+      if (!response.ok) {
+        throw new Error('Failed to load guests');
+      }
+      const data: { guests: PartyGuest[] } = await response.json();
+      setGuests(data.guests);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load guests');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadGuests();
+    }
+  }, [open, partyId, loadGuests]);
+
+  const signOutGuest = useCallback(async (guest: PartyGuest) => {
+    if (!confirm(`Sign ${guest.displayName} out on all their devices? They can join again by scanning a QR code.`)) {
+      return;
+    }
+
+    setBusyId(guest.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/uploaders/${guest.id}/sessions`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to sign the guest out');
+      }
+
+      setGuests(prev => prev.map(g => (g.id === guest.id ? { ...g, activeSessions: 0 } : g)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign the guest out');
+    } finally {
+      setBusyId(null);
+    }
+  }, [partyId]);
+
+  const updateGuest = useCallback(async (guestId: string, changes: { displayName?: string; banned?: boolean }) => {
+    setBusyId(guestId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/uploaders/${guestId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update guest');
+      }
+
+      setGuests(prev => prev.map(g => (g.id === guestId ? {
+        ...g,
+        displayName: data.displayName,
+        banned: data.banned,
+        activeSessions: data.banned ? 0 : g.activeSessions,
+      } : g)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update guest');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  }, [partyId]);
+
+  const saveName = useCallback(async (guestId: string) => {
+    if (await updateGuest(guestId, { displayName: editedName })) {
+      setEditingId(null);
+    }
+  }, [updateGuest, editedName]);
+
+  const toggleBan = useCallback((guest: PartyGuest) => {
+    if (!guest.banned && !confirm(
+      `Ban ${guest.displayName}? They'll be signed out on all their devices and can't join again under this name. ` +
+      'Their photos stay; hide them in moderation if needed.'
+    )) {
+      return;
+    }
+    updateGuest(guest.id, { banned: !guest.banned });
+  }, [updateGuest]);
+
+  const mergeGuest = useCallback(async (guest: PartyGuest) => {
+    const into = guests.find(g => g.id === mergeIntoId);
+    if (!into || !confirm(
+      `Move ${guest.displayName}'s photos to ${into.displayName} and remove ${guest.displayName}? ` +
+      `Devices signed in as ${guest.displayName} will be signed out.`
+    )) {
+      return;
+    }
+
+    setBusyId(guest.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/uploaders/${guest.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ intoId: into.id }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge guests');
+      }
+
+      setMergingId(null);
+      await loadGuests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge guests');
+    } finally {
+      setBusyId(null);
+    }
+  }, [partyId, guests, mergeIntoId, loadGuests]);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            🙋 Guests
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        ) : guests.length === 0 ? (
+          <Typography sx={{ mt: 3, textAlign: 'center', color: 'rgba(17,24,39,0.6)' }}>
+            No guests have joined yet
+          </Typography>
+        ) : (
+          <Box sx={{ mt: 2 }}>
+            {guests.map(guest => (
+              <Box
+                key={guest.id}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  py: 1,
+                  borderBottom: '1px solid rgba(16,24,40,0.08)',
+                }}
+              >
+                {editingId === guest.id ? (
+                  <Box
+                    component="form"
+                    onSubmit={(e) => { e.preventDefault(); saveName(guest.id); }}
+                    sx={{ flex: 1, display: 'flex', alignItems: 'center', gap: 1 }}
+                  >
+                    <TextField
+                      size="small"
+                      fullWidth
+                      autoFocus
+                      value={editedName}
+                      onChange={(e) => setEditedName(e.target.value)}
+                      disabled={busyId === guest.id}
+                      slotProps={{ htmlInput: { maxLength: DISPLAY_NAME_MAX_LENGTH } }}
+                    />
+                    <IconButton type="submit" size="small" color="primary" disabled={busyId === guest.id || !editedName.trim()}>
+                      <CheckIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => setEditingId(null)}>
+                      <CloseIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ) : mergingId === guest.id ? (
+                  <Box sx={{ flex: 1, display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <TextField
+                      select
+                      size="small"
+                      fullWidth
+                      label={`Merge ${guest.displayName} into`}
+                      value={mergeIntoId}
+                      onChange={(e) => setMergeIntoId(e.target.value)}
+                      disabled={busyId === guest.id}
+                    >
+                      {guests.filter(g => g.id !== guest.id).map(g => (
+                        <MenuItem key={g.id} value={g.id}>
+                          {g.displayName} ({g.photoCount} {g.photoCount === 1 ? 'photo' : 'photos'})
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      onClick={() => mergeGuest(guest)}
+                      disabled={busyId === guest.id || !mergeIntoId}
+                    >
+                      Merge
+                    </Button>
+                    <IconButton size="small" onClick={() => setMergingId(null)}>
+                      <CloseIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ) : (
+                  <>
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 600 }} noWrap>
+                        {guest.displayName}
+                      </Typography>
+                      <Typography variant="caption" sx={{ color: 'rgba(17,24,39,0.6)' }} noWrap component="p">
+                        {describeGuest(guest)}
+                      </Typography>
+                    </Box>
+                    {guest.banned && <Chip label="Banned" size="small" color="error" />}
+                    {busyId === guest.id ? (
+                      <CircularProgress size={16} sx={{ mx: 1 }} />
+                    ) : (
+                      <>
+                        <IconButton
+                          size="small"
+                          onClick={() => { setEditingId(guest.id); setEditedName(guest.displayName); setMergingId(null); }}
+                          title="Rename"
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        {guests.length > 1 && (
+                          <IconButton
+                            size="small"
+                            onClick={() => { setMergingId(guest.id); setMergeIntoId(''); setEditingId(null); }}
+                            title="Merge into another guest"
+                          >
+                            <MergeIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        {guest.activeSessions > 0 && (
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => signOutGuest(guest)}
+                            title="Sign out on all devices"
+                          >
+                            <SignOutIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        <IconButton
+                          size="small"
+                          color={guest.banned ? 'primary' : 'error'}
+                          onClick={() => toggleBan(guest)}
+                          title={guest.banned ? 'Unban' : 'Ban'}
+                        >
+                          {guest.banned ? <UnbanIcon fontSize="small" /> : <BanIcon fontSize="small" />}
+                        </IconButton>
+                      </>
+                    )}
+                  </>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  TextField,
+  Button,
+  Chip,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  QrCode2 as QrCodeIcon,
+  Block as RevokeIcon,
+  Restore as RestoreIcon,
+} from '@mui/icons-material';
+import { JOIN_TOKEN_LABEL_MAX_LENGTH } from '@/lib/join-tokens';
+import type { JoinTokenInfo, JoinTokenStatus } from '@/types/database';
+
+const STATUS_CHIPS: Record<JoinTokenStatus, { label: string; color: 'success' | 'default' | 'warning' | 'error' }> = {
+  active: { label: 'Active', color: 'success' },
+  expired: { label: 'Expired', color: 'default' },
+  exhausted: { label: 'Used up', color: 'warning' },
+  revoked: { label: 'Revoked', color: 'error' },
+};
+
+interface JoinTokensModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+  /** Show this token's QR code on the party card */
+  onShowQr: (tokenId: string) => void;
+}
+
+function describeToken(token: JoinTokenInfo): string {
+  const joins = token.maxJoins !== null
+    ? `${token.joinCount} of ${token.maxJoins} joins`
+    : `${token.joinCount} ${token.joinCount === 1 ? 'join' : 'joins'}`;
+  if (!token.expiresAt) return joins;
+
+  const expiry = new Date(token.expiresAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  return `${joins} · ${token.status === 'expired' ? 'expired' : 'expires'} ${expiry}`;
+}
+
+export default function JoinTokensModal({
+  open,
+  onClose,
+  partyId,
+  partyName,
+  onShowQr,
+}: JoinTokensModalProps) {
+  const [tokens, setTokens] = useState<JoinTokenInfo[]>([]);
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxJoins, setMaxJoins] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/tokens`);
+      if (!response.ok) {
+        throw new Error('Failed to load QR codes');
+      }
+      const data: { tokens: JoinTokenInfo[] } = await response.json();
+      setTokens(data.tokens);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load QR codes');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadTokens();
+    }
+  }, [open, partyId, loadTokens]);
+
+  const createToken = useCallback(async () => {
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label: label.trim(),
+          // datetime-local is in the host's time zone
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+          maxJoins: maxJoins ? Number(maxJoins) : null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create QR code');
+      }
+
+      setTokens(prev => [...prev, data]);
+      setLabel('');
+      setExpiresAt('');
+      setMaxJoins('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create QR code');
+    } finally {
+      setCreating(false);
+    }
+  }, [partyId, label, expiresAt, maxJoins]);
+
+  const setRevoked = useCallback(async (token: JoinTokenInfo, revoked: boolean) => {
+    if (revoked && !confirm(`Revoke "${token.label}"? Guests scanning it will no longer be able to join.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/tokens/${token.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revoked }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update QR code');
+      }
+
+      setTokens(prev => prev.map(t => (t.id === token.id ? data : t)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update QR code');
+    }
+  }, [partyId]);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            🔗 QR Codes
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 2 }}>
+            {tokens.map(token => (
+              <Box
+                key={token.id}
+                sx={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  py: 1,
+                  borderBottom: '1px solid rgba(16,24,40,0.08)',
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body1" sx={{ fontWeight: 600 }} noWrap>
+                    {token.label}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'rgba(17,24,39,0.6)' }} noWrap component="p">
+                    {describeToken(token)}
+                  </Typography>
+                </Box>
+                <Chip
+                  label={STATUS_CHIPS[token.status].label}
+                  size="small"
+                  color={STATUS_CHIPS[token.status].color}
+                />
+                <IconButton
+                  size="small"
+                  color="primary"
+                  onClick={() => onShowQr(token.id)}
+                  disabled={token.status !== 'active'}
+                  title="Show QR code"
+                >
+                  <QrCodeIcon fontSize="small" />
+                </IconButton>
+                {token.status === 'revoked' ? (
+                  <IconButton size="small" onClick={() => setRevoked(token, false)} title="Restore">
+                    <RestoreIcon fontSize="small" />
+                  </IconButton>
+                ) : (
+                  <IconButton size="small" color="error" onClick={() => setRevoked(token, true)} title="Revoke">
+                    <RevokeIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+
+        <Box
+          component="form"
+          onSubmit={(e) => { e.preventDefault(); createToken(); }}
+          sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 3 }}
+        >
+          <TextField
+            size="small"
+            label="Name"
+            placeholder="e.g. Table cards, TV screen, Invite email"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            slotProps={{ htmlInput: { maxLength: JOIN_TOKEN_LABEL_MAX_LENGTH } }}
+            disabled={creating}
+          />
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              size="small"
+              type="datetime-local"
+              label="Expires"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              disabled={creating}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Max joins"
+              placeholder="No limit"
+              value={maxJoins}
+              onChange={(e) => setMaxJoins(e.target.value)}
+              slotProps={{ htmlInput: { min: 1, step: 1 } }}
+              disabled={creating}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+          <Button
+            type="submit"
+            variant="contained"
+            startIcon={creating ? <CircularProgress size={16} color="inherit" /> : <AddIcon />}
+            disabled={creating || !label.trim()}
+          >
+            Add QR code
+          </Button>
+        </Box>
+      </DialogContent>
+    </Dialog>
+  );
+}
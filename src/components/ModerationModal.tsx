@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  Tabs,
+  Tab,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  CheckCircle as ApproveIcon,
+  VisibilityOff as HideIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import type { MediaType, ModerationMode, PhotoStatus } from '@/types/database';
+
+interface ModeratedPhoto {
+  id: string;
+  status: PhotoStatus;
+  comment: string | null;
+  createdAt: string;
+  uploaderName: string;
+  thumbUrl: string | null;
+  mediaType: MediaType;
+  clipUrl: string | null;
+}
+
+interface ModerationModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+  moderationMode: ModerationMode;
+  onModerationModeChange: (mode: ModerationMode) => Promise<void>;
+  onPendingCountChange?: (count: number) => void;
+}
+
+const STATUS_TABS: { status: PhotoStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'visible', label: 'On screen' },
+  { status: 'hidden', label: 'Hidden' },
+];
+
+const MODE_DESCRIPTIONS: Record<ModerationMode, string> = {
+  off: 'Photos go straight to the TV.',
+  post: 'Photos go straight to the TV, you can hide them afterwards.',
+  pre: 'Photos wait here until you approve them.',
+};
+
+export default function ModerationModal({
+  open,
+  onClose,
+  partyId,
+  partyName,
+  moderationMode,
+  onModerationModeChange,
+  onPendingCountChange,
+}: ModerationModalProps) {
+  const [photos, setPhotos] = useState<ModeratedPhoto[]>([]);
+  const [statusTab, setStatusTab] = useState<PhotoStatus>('pending');
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyPhotoId, setBusyPhotoId] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const applyPhotos = useCallback((next: ModeratedPhoto[]) => {
+    setPhotos(next);
+    onPendingCountChange?.(next.filter(p => p.status === 'pending').length);
+  }, [onPendingCountChange]);
+
+  const loadPhotos = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/photos`);
+      if (!response.ok) {
+        throw new Error('Failed to load photos');
+      }
+      const data: ModeratedPhoto[] = await response.json();
+      applyPhotos(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load photos');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId, applyPhotos]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadPhotos();
+    }
+  }, [open, partyId, loadPhotos]);
+
+  const moderatePhoto = useCallback(async (photoId: string, action: 'approve' | 'hide') => {
+    setBusyPhotoId(photoId);
+    try {
+      const response = await fetch(`/api/parties/${partyId}/photos/${photoId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update photo');
+      }
+
+      const updated: { id: string; status: PhotoStatus } = await response.json();
+      applyPhotos(photos.map(p => (p.id === updated.id ? { ...p, status: updated.status } : p)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update photo');
+    } finally {
+      setBusyPhotoId(null);
+    }
+  }, [partyId, photos, applyPhotos]);
+
+  const deletePhoto = useCallback(async (photoId: string) => {
+    if (!confirm('Delete this photo permanently?')) {
+      return;
+    }
+
+    setBusyPhotoId(photoId);
+    try {
+      const response = await fetch(`/api/parties/${partyId}/photos/${photoId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete photo');
+      }
+
+      applyPhotos(photos.filter(p => p.id !== photoId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete photo');
+    } finally {
+      setBusyPhotoId(null);
+    }
+  }, [partyId, photos, applyPhotos]);
+
+  const visiblePhotos = photos.filter(p => p.status === statusTab);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            🛡️ Moderation
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 0 }}>
+        <Box sx={{ px: 3, pt: 2, pb: 1 }}>
+          <ToggleButtonGroup
+            value={moderationMode}
+            exclusive
+            size="small"
+            onChange={(_, mode: ModerationMode | null) => mode && onModerationModeChange(mode)}
+          >
+            <ToggleButton value="off">Off</ToggleButton>
+            <ToggleButton value="post">Post-moderation</ToggleButton>
+            <ToggleButton value="pre">Pre-approval</ToggleButton>
+          </ToggleButtonGroup>
+          <Typography variant="caption" component="p" sx={{ mt: 1, color: 'rgba(17,24,39,0.6)' }}>
+            {MODE_DESCRIPTIONS[moderationMode]}
+          </Typography>
+        </Box>
+
+        <Tabs
+          value={statusTab}
+          onChange={(_, value: PhotoStatus) => setStatusTab(value)}
+          sx={{ px: 2, borderBottom: '1px solid rgba(16,24,40,0.08)' }}
+        >
+          {STATUS_TABS.map(tab => (
+            <Tab
+              key={tab.status}
+              value={tab.status}
+              label={`${tab.label} (${photos.filter(p => p.status === tab.status).length})`}
+            />
+          ))}
+        </Tabs>
+
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        )}
+
+        {error && (
+          <Box sx={{ p: 3, textAlign: 'center' }}>
+            <Typography color="error">{error}</Typography>
+          </Box>
+        )}
+
+        {!loading && visiblePhotos.length === 0 && (
+          <Box sx={{ p: 4, textAlign: 'center' }}>
+            <Typography variant="body2" sx={{ opacity: 0.5, fontStyle: 'italic' }}>
+              No photos here
+            </Typography>
+          </Box>
+        )}
+
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
+            gap: 2,
+            p: 2,
+          }}
+        >
+          {visiblePhotos.map(photo => (
+            <Box
+              key={photo.id}
+              sx={{
+                borderRadius: '12px',
+                overflow: 'hidden',
+                background: 'white',
+                border: '1px solid rgba(16,24,40,0.08)',
+                opacity: busyPhotoId === photo.id ? 0.5 : 1,
+              }}
+            >
+              {photo.clipUrl ? (
+                <Box
+                  component="video"
+                  src={photo.clipUrl}
+                  poster={photo.thumbUrl ?? undefined}
+                  controls
+                  muted
+                  playsInline
+                  preload="none"
+                  sx={{ width: '100%', height: 140, objectFit: 'cover', display: 'block', background: 'black' }}
+                />
+              ) : (
+                <Box
+                  component="img"
+                  src={photo.thumbUrl ?? undefined}
+                  alt={`Photo by ${photo.uploaderName}`}
+                  sx={{ width: '100%', height: 140, objectFit: 'cover', display: 'block' }}
+                />
+              )}
+              <Box sx={{ p: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }} noWrap>
+                  {photo.mediaType === 'video' ? '🎬' : '📷'} {photo.uploaderName}
+                </Typography>
+                {photo.comment && (
+                  <Typography variant="caption" sx={{ color: 'rgba(17,24,39,0.7)' }} noWrap component="p">
+                    {photo.comment}
+                  </Typography>
+                )}
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 0.5 }}>
+                  {photo.status !== 'visible' && (
+                    <Tooltip title="Approve">
+                      <IconButton
+                        size="small"
+                        color="success"
+                        disabled={busyPhotoId === photo.id}
+                        onClick={() => moderatePhoto(photo.id, 'approve')}
+                      >
+                        <ApproveIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {photo.status !== 'hidden' && (
+                    <Tooltip title="Hide">
+                      <IconButton
+                        size="small"
+                        color="warning"
+                        disabled={busyPhotoId === photo.id}
+                        onClick={() => moderatePhoto(photo.id, 'hide')}
+                      >
+                        <HideIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="Delete">
+                    <IconButton
+                      size="small"
+                      color="error"
+                      disabled={busyPhotoId === photo.id}
+                      onClick={() => deletePhoto(photo.id)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      </DialogContent>
+    </Dialog>
+  );
+}
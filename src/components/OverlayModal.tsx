@@ -0,0 +1,322 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  TextField,
+  Button,
+  Switch,
+  FormControlLabel,
+  Alert,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Upload as UploadIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { OVERLAY } from '@/lib/constants';
+import type { PartyOverlay } from '@/types/database';
+
+interface OverlayModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+}
+
+export default function OverlayModal({
+  open,
+  onClose,
+  partyId,
+  partyName,
+}: OverlayModalProps) {
+  const frameInputRef = useRef<HTMLInputElement>(null);
+  const [overlay, setOverlay] = useState<PartyOverlay | null>(null);
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [date, setDate] = useState('');
+  const [applyToOriginal, setApplyToOriginal] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [uploadingFrame, setUploadingFrame] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const applyOverlay = useCallback((data: PartyOverlay) => {
+    setOverlay(data);
+    setText(data.text ?? '');
+    setDate(data.date ?? '');
+    setApplyToOriginal(data.applyToOriginal);
+  }, []);
+
+  const loadOverlay = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/overlay`);
+      if (!response.ok) {
+        throw new Error('Failed to load overlay');
+      }
+      applyOverlay(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load overlay');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId, applyOverlay]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadOverlay();
+    }
+  }, [open, partyId, loadOverlay]);
+
+  const saveSettings = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/overlay`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: text.trim() || null, date: date || null, applyToOriginal }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save overlay');
+      }
+      applyOverlay(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save overlay');
+    } finally {
+      setSaving(false);
+    }
+  }, [partyId, text, date, applyToOriginal, applyOverlay]);
+
+  const uploadFrame = useCallback(async (file: File) => {
+    setUploadingFrame(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('frame', file);
+
+      const response = await fetch(`/api/parties/${partyId}/overlay`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload frame');
+      }
+      setOverlay(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload frame');
+    } finally {
+      setUploadingFrame(false);
+    }
+  }, [partyId]);
+
+  const removeFrame = useCallback(async () => {
+    setUploadingFrame(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/overlay`, { method: 'DELETE' });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove frame');
+      }
+      setOverlay(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove frame');
+    } finally {
+      setUploadingFrame(false);
+    }
+  }, [partyId]);
+
+  const dirty = !!overlay && (
+    (text.trim() || null) !== overlay.text ||
+    (date || null) !== overlay.date ||
+    applyToOriginal !== overlay.applyToOriginal
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            🖼️ Frame &amp; Text
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="body2" sx={{ color: 'rgba(17,24,39,0.7)' }}>
+              Guests&apos; phones stamp this on every photo before it goes to the TV.
+            </Typography>
+
+            {/* Rough preview: the frame is stretched over the photo, the text sits at the bottom */}
+            <Box
+              sx={{
+                position: 'relative',
+                aspectRatio: '4 / 3',
+                borderRadius: 2,
+                overflow: 'hidden',
+                background: 'linear-gradient(135deg, #cbd5e1 0%, #94a3b8 100%)',
+              }}
+            >
+              {overlay?.frameUrl && (
+                <Box
+                  component="img"
+                  src={overlay.frameUrl}
+                  alt="Party frame"
+                  sx={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+                />
+              )}
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  bottom: '5%',
+                  textAlign: 'center',
+                  color: 'white',
+                  fontWeight: 700,
+                  textShadow: '0 0 6px rgba(0,0,0,0.7)',
+                }}
+              >
+                {text.trim() && <Typography sx={{ fontWeight: 700 }}>{text.trim()}</Typography>}
+                {date && (
+                  <Typography variant="caption" sx={{ fontWeight: 700 }}>
+                    {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { dateStyle: 'long' })}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button
+                variant="outlined"
+                startIcon={uploadingFrame ? <CircularProgress size={16} color="inherit" /> : <UploadIcon />}
+                onClick={() => frameInputRef.current?.click()}
+                disabled={uploadingFrame}
+              >
+                {overlay?.frameUrl ? 'Replace frame' : 'Upload frame (PNG)'}
+              </Button>
+              {overlay?.frameUrl && (
+                <Button
+                  color="error"
+                  startIcon={<DeleteIcon />}
+                  onClick={removeFrame}
+                  disabled={uploadingFrame}
+                >
+                  Remove
+                </Button>
+              )}
+              <input
+                ref={frameInputRef}
+                type="file"
+                accept="image/png"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadFrame(file);
+                  e.target.value = '';
+                }}
+              />
+            </Box>
+
+            <TextField
+              size="small"
+              label="Text"
+              placeholder={partyName || 'e.g. Anna & Ben'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              slotProps={{ htmlInput: { maxLength: OVERLAY.TEXT_MAX_LENGTH } }}
+              disabled={saving}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="Date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+              disabled={saving}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={applyToOriginal}
+                  onChange={(e) => setApplyToOriginal(e.target.checked)}
+                  disabled={saving}
+                />
+              }
+              label="Also stamp the original photos (downloads)"
+            />
+
+            <Button
+              variant="contained"
+              onClick={saveSettings}
+              disabled={saving || !dirty}
+              startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Save
+            </Button>
+          </Box>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,7 @@ import {
 } from '@mui/material';
 import { Close as CloseIcon } from '@mui/icons-material';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { JoinTokenInfo, PartyUploadLimits } from '@/types/database';
 
 interface Trophy {
   emoji: string;
@@ -29,6 +30,16 @@ interface StatsData {
     totalGuests: number;
     totalComments: number;
   };
+  usage: {
+    storageBytes: number;
+    limits: PartyUploadLimits;
+    guestsAtPhotoLimit: number;
+  };
+  joinTokens: JoinTokenInfo[];
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
 }
 
 interface PartyStatsModalProps {
@@ -148,6 +159,26 @@ export default function PartyStatsModal({ open, onClose, partyId, partyName }: P
               </Box>
             </Box>
 
+            {/* Usage against the upload limits */}
+            <Box sx={{ px: 3, pb: 2, background: 'rgba(102,126,234,0.04)', textAlign: 'center' }}>
+              <Typography variant="body2" sx={{ color: 'rgba(17,24,39,0.7)' }}>
+                💾 {formatMegabytes(stats.usage.storageBytes)}
+                {stats.usage.limits.maxStorageBytes !== null && ` of ${formatMegabytes(stats.usage.limits.maxStorageBytes)}`} stored
+                {stats.usage.limits.maxPhotosPerGuest !== null && (
+                  <> · {stats.usage.guestsAtPhotoLimit} {stats.usage.guestsAtPhotoLimit === 1 ? 'guest' : 'guests'} at the {stats.usage.limits.maxPhotosPerGuest}-photo limit</>
+                )}
+              </Typography>
+              {/* Joins per QR code */}
+              {stats.joinTokens.length > 0 && (
+                <Typography variant="body2" sx={{ color: 'rgba(17,24,39,0.7)', mt: 0.5 }}>
+                  🔗 {stats.joinTokens.map(token => (
+                    `${token.label}: ${token.joinCount}${token.maxJoins !== null ? `/${token.maxJoins}` : ''}` +
+                    (token.status === 'active' ? '' : ` (${token.status})`)
+                  )).join(' · ')}
+                </Typography>
+              )}
+            </Box>
+
             <Divider sx={{ borderColor: 'rgba(16,24,40,0.08)' }} />
 
             {/* Trophies */}
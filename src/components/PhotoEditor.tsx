@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+} from '@mui/material';
+import {
+  RotateLeft as RotateLeftIcon,
+  RotateRight as RotateRightIcon,
+} from '@mui/icons-material';
+import { NO_EDIT, convertHeicToJpeg, createPreview, isHeicFile } from '@/lib/image';
+import { CROP_ASPECTS, PHOTO_FILTERS, ROTATIONS, type CropAspect, type PhotoFilter } from '@/lib/constants';
+import type { PhotoEdit } from '@/types/database';
+
+interface PhotoEditorProps {
+  file: File;
+  /** Edit to start from */
+  edit: PhotoEdit | null;
+  onClose: () => void;
+  onSave: (edit: PhotoEdit) => void;
+}
+
+/**
+ * Crop, rotate and filter a photo before sending it. Edits are previewed on a
+ * downscaled copy; the pipeline applies them to the TV version when the photo is sent.
+ */
+export default function PhotoEditor({ file, edit, onClose, onSave }: PhotoEditorProps) {
+  const [draft, setDraft] = useState<PhotoEdit>(edit ?? NO_EDIT);
+  // Upright, preview-sized copy of the photo, decoded once
+  const [workingCopy, setWorkingCopy] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (isHeicFile(file) ? convertHeicToJpeg(file) : Promise.resolve<Blob>(file))
+      .then(source => createPreview(source))
+      .then(blob => {
+        if (!cancelled) setWorkingCopy(blob);
+      })
+      .catch(err => {
+        console.warn('Could not open the photo editor:', err);
+        if (!cancelled) setError('This photo can\'t be edited on this device');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (!workingCopy) return;
+    let cancelled = false;
+    let url: string | null = null;
+
+    createPreview(workingCopy, { edit: draft })
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreview(url);
+      })
+      .catch(err => console.warn('Could not preview the edit:', err));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [workingCopy, draft]);
+
+  const rotate = (quarterTurns: number) => {
+    setDraft(prev => ({
+      ...prev,
+      rotation: ROTATIONS[(ROTATIONS.indexOf(prev.rotation) + quarterTurns + ROTATIONS.length) % ROTATIONS.length],
+    }));
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Edit photo</DialogTitle>
+      <DialogContent>
+        <Box
+          sx={{
+            height: '45vh',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            bgcolor: 'action.hover',
+            borderRadius: 1,
+          }}
+        >
+          {error ? (
+            <Typography color="text.secondary">{error}</Typography>
+          ) : preview ? (
+            <Box
+              component="img"
+              src={preview}
+              alt="Edited photo"
+              sx={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
+            />
+          ) : (
+            <CircularProgress />
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mt: 2 }}>
+          <Tooltip title="Rotate left">
+            <IconButton onClick={() => rotate(-1)} disabled={!!error}>
+              <RotateLeftIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Rotate right">
+            <IconButton onClick={() => rotate(1)} disabled={!!error}>
+              <RotateRightIcon />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        <Typography variant="subtitle2" sx={{ mt: 1 }}>Crop</Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={draft.aspect}
+          onChange={(_, aspect: CropAspect | null) => aspect && setDraft(prev => ({ ...prev, aspect }))}
+          disabled={!!error}
+          sx={{ flexWrap: 'wrap', mt: 0.5 }}
+        >
+          {CROP_ASPECTS.map(({ aspect, label }) => (
+            <ToggleButton key={aspect} value={aspect}>{label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <Typography variant="subtitle2" sx={{ mt: 2 }}>Filter</Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={draft.filter}
+          onChange={(_, filter: PhotoFilter | null) => filter && setDraft(prev => ({ ...prev, filter }))}
+          disabled={!!error}
+          sx={{ flexWrap: 'wrap', mt: 0.5 }}
+        >
+          {PHOTO_FILTERS.map(({ filter, label }) => (
+            <ToggleButton key={filter} value={filter}>{label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setDraft(NO_EDIT)} disabled={!!error} sx={{ mr: 'auto' }}>
+          Reset
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => onSave(draft)} disabled={!!error}>
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
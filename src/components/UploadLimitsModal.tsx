@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  IconButton,
+  CircularProgress,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { ORIGINAL_SIZE_OPTIONS } from '@/lib/constants';
+import type { PartyUploadLimits } from '@/types/database';
+
+const MB = 1024 * 1024;
+
+interface UploadLimitsModalProps {
+  open: boolean;
+  onClose: () => void;
+  partyId: string;
+  partyName?: string;
+}
+
+/**
+ * Whole number from a text field, null when empty (no limit), NaN when invalid.
+ */
+function parseLimit(value: string): number | null {
+  if (!value.trim()) return null;
+  const number = Number(value);
+  return Number.isSafeInteger(number) && number > 0 ? number : NaN;
+}
+
+export default function UploadLimitsModal({
+  open,
+  onClose,
+  partyId,
+  partyName,
+}: UploadLimitsModalProps) {
+  const [limits, setLimits] = useState<PartyUploadLimits | null>(null);
+  const [storageBytes, setStorageBytes] = useState(0);
+  const [loadedPartyId, setLoadedPartyId] = useState<string | null>(null);
+  const [maxPhotos, setMaxPhotos] = useState('');
+  const [maxStorageMb, setMaxStorageMb] = useState('');
+  const [maxOriginalSize, setMaxOriginalSize] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loading = open && loadedPartyId !== partyId;
+
+  const applyLimits = useCallback((data: { limits: PartyUploadLimits; storageBytes: number }) => {
+    setLimits(data.limits);
+    setStorageBytes(data.storageBytes);
+    setMaxPhotos(data.limits.maxPhotosPerGuest?.toString() ?? '');
+    setMaxStorageMb(data.limits.maxStorageBytes ? Math.round(data.limits.maxStorageBytes / MB).toString() : '');
+    setMaxOriginalSize(data.limits.maxOriginalSize?.toString() ?? '');
+  }, []);
+
+  const loadLimits = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/parties/${partyId}/limits`);
+      if (!response.ok) {
+        throw new Error('Failed to load upload limits');
+      }
+      applyLimits(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load upload limits');
+    } finally {
+      setLoadedPartyId(partyId);
+    }
+  }, [partyId, applyLimits]);
+
+  useEffect(() => {
+    if (open && partyId) {
+      loadLimits();
+    }
+  }, [open, partyId, loadLimits]);
+
+  const photosLimit = parseLimit(maxPhotos);
+  const storageLimitMb = parseLimit(maxStorageMb);
+  const invalid = Number.isNaN(photosLimit) || Number.isNaN(storageLimitMb);
+
+  const saveLimits = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/parties/${partyId}/limits`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          maxPhotosPerGuest: photosLimit,
+          maxStorageBytes: storageLimitMb === null ? null : storageLimitMb * MB,
+          maxOriginalSize: maxOriginalSize ? Number(maxOriginalSize) : null,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save upload limits');
+      }
+      applyLimits(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save upload limits');
+    } finally {
+      setSaving(false);
+    }
+  }, [partyId, photosLimit, storageLimitMb, maxOriginalSize, applyLimits]);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          borderRadius: '20px',
+          background: 'linear-gradient(180deg, #ffffff 0%, #f4f6ff 100%)',
+          color: '#1a202c',
+          overflow: 'hidden',
+          boxShadow: '0 6px 24px rgba(16,24,40,0.08)',
+        },
+      }}
+    >
+      <DialogTitle
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          background: 'linear-gradient(135deg, #667eea 0%, #8b5cf6 100%)',
+          py: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'white' }}>
+            📦 Upload Limits
+          </Typography>
+          {partyName && (
+            <Typography variant="body2" sx={{ color: 'white', opacity: 0.9, mt: 0.5 }}>
+              {partyName}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent sx={{ p: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#667eea' }} />
+          </Box>
+        ) : (
+          <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="body2" sx={{ color: 'rgba(17,24,39,0.7)' }}>
+              {(storageBytes / MB).toFixed(1)} MB stored so far. Leave a field empty for no limit.
+            </Typography>
+
+            <TextField
+              size="small"
+              type="number"
+              label="Photos per guest"
+              placeholder="No limit"
+              value={maxPhotos}
+              onChange={(e) => setMaxPhotos(e.target.value)}
+              error={Number.isNaN(photosLimit)}
+              slotProps={{ htmlInput: { min: 1, step: 1 } }}
+              disabled={saving}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Total storage (MB)"
+              placeholder="No limit"
+              value={maxStorageMb}
+              onChange={(e) => setMaxStorageMb(e.target.value)}
+              error={Number.isNaN(storageLimitMb)}
+              slotProps={{ htmlInput: { min: 1, step: 1 } }}
+              disabled={saving}
+            />
+            <TextField
+              select
+              size="small"
+              label="Original resolution"
+              value={maxOriginalSize}
+              onChange={(e) => setMaxOriginalSize(e.target.value)}
+              helperText="Longest side of the stored originals"
+              disabled={saving}
+            >
+              <MenuItem value="">Full ({ORIGINAL_SIZE_OPTIONS[0]}px)</MenuItem>
+              {ORIGINAL_SIZE_OPTIONS.slice(1).map(size => (
+                <MenuItem key={size} value={size.toString()}>{size}px</MenuItem>
+              ))}
+            </TextField>
+
+            <Button
+              variant="contained"
+              onClick={saveLimits}
+              disabled={saving || invalid || !limits}
+              startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Save
+            </Button>
+          </Box>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  LinearProgress,
+} from '@mui/material';
+import {
+  Refresh as RetryIcon,
+  Close as DiscardIcon,
+  CloudOff as OfflineIcon,
+} from '@mui/icons-material';
+import type { UploadQueueItem } from '@/lib/upload-queue';
+
+interface UploadQueueListProps {
+  items: UploadQueueItem[];
+  totalProgress: number;
+  uploadedCount: number;
+  online: boolean;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+function QueueThumbnail({ blob }: { blob: Blob }) {
+  const url = useMemo(() => URL.createObjectURL(blob), [blob]);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <Box
+      component="img"
+      src={url}
+      alt="Queued photo"
+      sx={{ width: 40, height: 40, borderRadius: '6px', objectFit: 'cover', flexShrink: 0 }}
+    />
+  );
+}
+
+function describeStatus(item: UploadQueueItem, online: boolean): string {
+  switch (item.status) {
+    case 'uploading':
+      return 'Uploading...';
+    case 'failed':
+      return item.lastError || 'Upload failed';
+    default:
+      if (!online) return 'Waiting for connection';
+      return item.attempts > 0 ? `Retrying soon (${item.lastError || 'upload failed'})` : 'Queued';
+  }
+}
+
+export default function UploadQueueList({
+  items,
+  totalProgress,
+  uploadedCount,
+  online,
+  onRetry,
+  onDiscard,
+}: UploadQueueListProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        mb: 2,
+        p: 1.5,
+        borderRadius: '12px',
+        background: 'rgba(255, 255, 255, 0.9)',
+        color: '#1a202c',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        {!online && <OfflineIcon fontSize="small" color="warning" />}
+        <Typography variant="subtitle2" sx={{ fontWeight: 700, flex: 1 }}>
+          {items.length} {items.length === 1 ? 'photo' : 'photos'} waiting to upload
+        </Typography>
+        {uploadedCount > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {uploadedCount} sent
+          </Typography>
+        )}
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={totalProgress}
+        sx={{ mb: 1, borderRadius: 2, height: 6 }}
+      />
+
+      {items.map(item => (
+        <Box key={item.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+          <QueueThumbnail blob={item.tv ?? item.original} />
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <Typography
+              variant="caption"
+              component="p"
+              noWrap
+              color={item.status === 'failed' ? 'error' : 'text.secondary'}
+            >
+              {describeStatus(item, online)}
+            </Typography>
+          </Box>
+          {item.status === 'failed' && (
+            <IconButton size="small" onClick={() => onRetry(item.id)} title="Try again">
+              <RetryIcon fontSize="small" />
+            </IconButton>
+          )}
+          {item.status !== 'uploading' && (
+            <IconButton size="small" onClick={() => onDiscard(item.id)} title="Discard photo">
+              <DiscardIcon fontSize="small" />
+            </IconButton>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -3,3 +3,4 @@
  */
 
 export { useBroadcastCommand, TV_EVENTS, type TvEvent } from './useBroadcastCommand';
+export { useUploadQueue } from './useUploadQueue';
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ProcessedMedia } from '@/lib/media';
+import {
+  enqueueUpload,
+  retryUpload,
+  discardUpload,
+  processUploadQueue,
+  requestBackgroundSync,
+  listUploads,
+  UPLOAD_QUEUE_CHANNEL,
+  UPLOAD_SERVICE_WORKER_URL,
+  type UploadQueueItem,
+} from '@/lib/upload-queue';
+
+interface UseUploadQueueOptions {
+  /** Called once a queued photo is saved on the server */
+  onUploaded?: (item: UploadQueueItem, photoId: string) => void;
+}
+
+/**
+ * Hook for the guest's persistent upload queue.
+ * Keeps working through queued photos while the page is open (retrying when
+ * the connection comes back) and hands over to the service worker otherwise.
+ *
+ * @param partyId - The party whose queued uploads to show and process
+ * @returns The queued items, per-item and combined upload progress, and queue actions
+ *
+ * @example
+ * const { items, enqueue } = useUploadQueue(partyId, { onUploaded: reloadPhotos });
+ * await enqueue(processed, comment);
+ */
+export function useUploadQueue(partyId: string, { onUploaded }: UseUploadQueueOptions = {}) {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [online, setOnline] = useState(true);
+  // Uploads finished since the queue was last empty, for the combined progress
+  const [uploadedCount, setUploadedCount] = useState(0);
+
+  const onUploadedRef = useRef(onUploaded);
+  const processingRef = useRef(false);
+  const rerunRef = useRef(false);
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    onUploadedRef.current = onUploaded;
+  }, [onUploaded]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await listUploads(partyId);
+      setItems(next);
+      if (next.length === 0) {
+        setUploadedCount(0);
+      }
+    } catch (err) {
+      console.error('Failed to read upload queue:', err);
+    }
+  }, [partyId]);
+
+  const flush = useCallback(async () => {
+    if (processingRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    processingRef.current = true;
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    let nextDueAt: number | null = null;
+    try {
+      do {
+        rerunRef.current = false;
+        nextDueAt = await processUploadQueue(partyId, {
+          onProgress: (id, percent) => setProgress(prev => ({ ...prev, [id]: percent })),
+          onUploaded: (item, photoId) => {
+            setUploadedCount(count => count + 1);
+            onUploadedRef.current?.(item, photoId);
+          },
+        });
+      } while (rerunRef.current);
+    } catch (err) {
+      console.error('Upload queue failed:', err);
+    } finally {
+      processingRef.current = false;
+      setProgress({});
+    }
+
+    if (nextDueAt !== null) {
+      // Also covers browsers without Background Sync
+      requestBackgroundSync();
+      retryTimerRef.current = setTimeout(flush, Math.max(0, nextDueAt - Date.now()));
+    }
+  }, [partyId]);
+
+  // Register the service worker, follow queue changes and retry when back online
+  useEffect(() => {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register(UPLOAD_SERVICE_WORKER_URL).catch(err => {
+        console.warn('Upload service worker registration failed:', err);
+      });
+    }
+
+    const channel = typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(UPLOAD_QUEUE_CHANNEL)
+      : null;
+    if (channel) {
+      channel.onmessage = () => refresh();
+    }
+
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Pick up anything left over from a previous visit
+    Promise.resolve().then(() => {
+      setOnline(navigator.onLine);
+      refresh();
+      flush();
+    });
+
+    return () => {
+      channel?.close();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [refresh, flush]);
+
+  const enqueue = useCallback(async (processed: ProcessedMedia, comment: string) => {
+    await enqueueUpload(partyId, processed, comment);
+    await refresh();
+    flush();
+  }, [partyId, refresh, flush]);
+
+  const retry = useCallback(async (id: string) => {
+    await retryUpload(id);
+    flush();
+  }, [flush]);
+
+  const discard = useCallback(async (id: string) => {
+    await discardUpload(id);
+  }, []);
+
+  // Finished uploads count as 100%, queued ones by their current progress
+  const totalProgress = items.length === 0 ? 0 : (
+    (uploadedCount * 100 + items.reduce((sum, item) => sum + (progress[item.id] ?? 0), 0)) /
+    (uploadedCount + items.length)
+  );
+
+  return { items, progress, totalProgress, uploadedCount, online, enqueue, retry, discard };
+}
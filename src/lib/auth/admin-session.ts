@@ -0,0 +1,94 @@
+/**
+ * Host (admin) session management.
+ * Works like the guest session but uses its own cookie and JWT audience,
+ * so a guest token can never be used as a host token or vice versa.
+ */
+
+import { SignJWT, jwtVerify } from 'jose';
+import { cookies } from 'next/headers';
+import type { NextRequest } from 'next/server';
+import type { AdminSessionPayload } from '@/types/auth';
+import { getSecretKey } from './session';
+
+export const ADMIN_SESSION_COOKIE_NAME = 'photobooze_admin';
+const ADMIN_SESSION_AUDIENCE = 'photobooze:admin';
+const ADMIN_SESSION_EXPIRY_HOURS = 24;
+
+/**
+ * Create a session JWT for a host.
+ */
+export async function createAdminSession(hostId: string, email: string): Promise<string> {
+  const secretKey = getSecretKey();
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_EXPIRY_HOURS * 60 * 60 * 1000);
+
+  return new SignJWT({
+    hostId,
+    email,
+  } satisfies Omit<AdminSessionPayload, 'iat' | 'exp'>)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(ADMIN_SESSION_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(expiresAt)
+    .sign(secretKey);
+}
+
+/**
+ * Verify and decode a host session JWT.
+ * Returns null if invalid, expired or not a host token.
+ */
+export async function verifyAdminSession(token: string): Promise<AdminSessionPayload | null> {
+  try {
+    const secretKey = getSecretKey();
+    const { payload } = await jwtVerify(token, secretKey, {
+      audience: ADMIN_SESSION_AUDIENCE,
+    });
+
+    if (typeof payload.hostId !== 'string' || typeof payload.email !== 'string') {
+      return null;
+    }
+
+    return {
+      hostId: payload.hostId,
+      email: payload.email,
+      iat: payload.iat as number,
+      exp: payload.exp as number,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and verify the host session from a request.
+ */
+export async function getAdminSession(request: NextRequest): Promise<AdminSessionPayload | null> {
+  const token = request.cookies.get(ADMIN_SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+  return verifyAdminSession(token);
+}
+
+/**
+ * Set the host session cookie after a successful login.
+ */
+export async function setAdminSessionCookie(hostId: string, email: string): Promise<void> {
+  const token = await createAdminSession(hostId, email);
+  const cookieStore = await cookies();
+
+  cookieStore.set(ADMIN_SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ADMIN_SESSION_EXPIRY_HOURS * 60 * 60,
+  });
+}
+
+/**
+ * Clear the host session cookie (logout).
+ */
+export async function clearAdminSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(ADMIN_SESSION_COOKIE_NAME);
+}
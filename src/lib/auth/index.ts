@@ -1,7 +1,30 @@
 // Auth utilities
-export { generateJoinToken, hashPin, verifyPin } from './tokens';
+export { generateJoinToken, hashPin, verifyPin, isLegacyPinHash, type PinVerification } from './tokens';
+export { hashPassword, verifyPassword } from './passwords';
 export {
   createSession,
   verifySession,
+  getGuestSession,
   setSessionCookie,
+  refreshSessionCookie,
+  clearSessionCookie,
+  revokeSession,
+  revokeUploaderSessions,
+  getReturningUploaderId,
+  clearReturningGuestCookie,
 } from './session';
+export {
+  createAdminSession,
+  verifyAdminSession,
+  getAdminSession,
+  setAdminSessionCookie,
+  clearAdminSessionCookie,
+} from './admin-session';
+export {
+  requireHost,
+  requirePartyHost,
+  getHostPartyIds,
+  getPartyHostRole,
+  type PartyAccess,
+  type PartyHostAccess,
+} from './party-access';
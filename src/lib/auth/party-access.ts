@@ -0,0 +1,101 @@
+/**
+ * Party ownership checks for host-only API routes.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { AdminSessionPayload } from '@/types/auth';
+import type { PartyHostRole } from '@/types/database';
+import { getAdminSession } from './admin-session';
+
+export type PartyAccess =
+  | { ok: true; host: AdminSessionPayload }
+  | { ok: false; status: 401; error: string };
+
+export type PartyHostAccess =
+  | { ok: true; host: AdminSessionPayload; role: PartyHostRole }
+  | { ok: false; status: 401 | 403 | 404; error: string };
+
+/**
+ * Require a signed-in host.
+ */
+export async function requireHost(request: NextRequest): Promise<PartyAccess> {
+  const host = await getAdminSession(request);
+  if (!host) {
+    return { ok: false, status: 401, error: 'Not authenticated' };
+  }
+  return { ok: true, host };
+}
+
+/**
+ * Get the IDs of all parties a host owns or co-hosts.
+ */
+export async function getHostPartyIds(
+  supabase: SupabaseClient<Database>,
+  hostId: string
+): Promise<string[]> {
+  const [{ data: owned, error: ownedError }, { data: cohosted, error: cohostedError }] = await Promise.all([
+    supabase.from('parties').select('id').eq('host_id', hostId),
+    supabase.from('party_hosts').select('party_id').eq('host_id', hostId),
+  ]);
+
+  if (ownedError || cohostedError) {
+    throw new Error(ownedError?.message || cohostedError?.message);
+  }
+
+  return [
+    ...(owned ?? []).map(p => p.id),
+    ...(cohosted ?? []).map(p => p.party_id),
+  ];
+}
+
+/**
+ * Get a host's role for a party, or null if they can't manage it.
+ */
+export async function getPartyHostRole(
+  supabase: SupabaseClient<Database>,
+  partyId: string,
+  hostId: string
+): Promise<PartyHostRole | null> {
+  const [{ data: party }, { data: cohost }] = await Promise.all([
+    supabase.from('parties').select('host_id').eq('id', partyId).maybeSingle(),
+    supabase.from('party_hosts').select('host_id').eq('party_id', partyId).eq('host_id', hostId).maybeSingle(),
+  ]);
+
+  if (!party) {
+    return null;
+  }
+  if (party.host_id === hostId) {
+    return 'owner';
+  }
+  return cohost ? 'cohost' : null;
+}
+
+/**
+ * Require a signed-in host who owns or co-hosts the given party.
+ * Parties managed by someone else are reported as not found so their
+ * existence isn't leaked to other hosts.
+ * With ownerOnly, co-hosts get a 403 (e.g. deleting the party, managing co-hosts).
+ */
+export async function requirePartyHost(
+  request: NextRequest,
+  supabase: SupabaseClient<Database>,
+  partyId: string,
+  options: { ownerOnly?: boolean } = {}
+): Promise<PartyHostAccess> {
+  const access = await requireHost(request);
+  if (!access.ok) {
+    return access;
+  }
+
+  const role = await getPartyHostRole(supabase, partyId, access.host.hostId);
+  if (!role) {
+    return { ok: false, status: 404, error: 'Party not found' };
+  }
+  if (options.ownerOnly && role !== 'owner') {
+    return { ok: false, status: 403, error: 'Only the party owner can do this' };
+  }
+
+  return { ok: true, host: access.host, role };
+}
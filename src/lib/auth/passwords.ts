@@ -0,0 +1,78 @@
+/**
+ * Password hashing for host accounts.
+ * Uses scrypt with a per-password salt. Hashes are stored as a versioned string
+ * so parameters can be raised later without invalidating existing hashes:
+ *   scrypt$<N>$<r>$<p>$<salt base64url>$<hash base64url>
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const HASH_PREFIX = 'scrypt';
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Cost parameters for new hashes (~64MB memory, well under a second on a server)
+const DEFAULT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number },
+  keyLength = KEY_LENGTH
+): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, options, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, DEFAULT_PARAMS);
+  const { N, r, p } = DEFAULT_PARAMS;
+  return [HASH_PREFIX, N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$');
+}
+
+/**
+ * Check whether a stored value is a hash produced by hashPassword.
+ */
+export function isPasswordHash(storedHash: string): boolean {
+  return storedHash.startsWith(`${HASH_PREFIX}$`);
+}
+
+/**
+ * Verify a password against a stored hash.
+ * Returns false for malformed hashes instead of throwing.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return false;
+  }
+
+  const [, n, r, p, saltB64, keyB64] = parts;
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  if (!Number.isInteger(params.N) || !Number.isInteger(params.r) || !Number.isInteger(params.p)) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyB64, 'base64url');
+  if (expected.length === 0) {
+    return false;
+  }
+
+  try {
+    const actual = await deriveKey(password, Buffer.from(saltB64, 'base64url'), params, expected.length);
+    // Constant-time comparison to prevent timing attacks
+    return timingSafeEqual(expected, actual);
+  } catch {
+    // Invalid scrypt parameters in the stored hash
+    return false;
+  }
+}
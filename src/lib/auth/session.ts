@@ -1,20 +1,32 @@
 /**
  * Session management using JWT stored in HttpOnly cookies.
  * Uses jose library for JWT operations (edge-compatible).
+ * Each session's jti has a row in guest_sessions, so a guest can sign out and a host
+ * can kick or ban a guest before the cookie expires; a token without a recorded jti is
+ * refused. GET /api/session slides the expiry.
  */
 
 import { SignJWT, jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
+import type { NextRequest } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { createServerClient } from '@/lib/supabase/server';
 import type { SessionPayload, SessionData } from '@/types/auth';
 
 const SESSION_COOKIE_NAME = 'photobooze_session';
 const SESSION_EXPIRY_HOURS = 12;
+// Sessions with less than this left are re-issued when the guest's page checks in
+const SESSION_REFRESH_HOURS = 6;
+// Proof that this device joined as a guest, so it (and only it) can come back under that name
+const RETURNING_GUEST_COOKIE_PREFIX = 'photobooze_returning_';
+const RETURNING_GUEST_AUDIENCE = 'photobooze:returning-guest';
+const RETURNING_GUEST_EXPIRY_DAYS = 30;
 
 /**
  * Get the secret key for JWT signing.
  * Must be at least 32 characters.
  */
-function getSecretKey(): Uint8Array {
+export function getSecretKey(): Uint8Array {
   const secret = process.env.SESSION_SECRET;
   if (!secret || secret.length < 32) {
     throw new Error('SESSION_SECRET must be set and at least 32 characters');
@@ -25,15 +37,20 @@ function getSecretKey(): Uint8Array {
 /**
  * Create a session JWT for a guest.
  */
-export async function createSession(partyId: string, uploaderId: string): Promise<string> {
+export async function createSession(
+  partyId: string,
+  uploaderId: string,
+  jti: string,
+  expiresAt: Date = sessionExpiry()
+): Promise<string> {
   const secretKey = getSecretKey();
-  const expiresAt = new Date(Date.now() + SESSION_EXPIRY_HOURS * 60 * 60 * 1000);
 
   const token = await new SignJWT({
     partyId,
     uploaderId,
-  } satisfies Omit<SessionPayload, 'iat' | 'exp'>)
+  } satisfies Omit<SessionPayload, 'jti' | 'iat' | 'exp'>)
     .setProtectedHeader({ alg: 'HS256' })
+    .setJti(jti)
     .setIssuedAt()
     .setExpirationTime(expiresAt)
     .sign(secretKey);
@@ -41,6 +58,27 @@ export async function createSession(partyId: string, uploaderId: string): Promis
   return token;
 }
 
+function sessionExpiry(): Date {
+  return new Date(Date.now() + SESSION_EXPIRY_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a session is still in guest_sessions, hasn't been revoked and its guest isn't banned.
+ */
+async function isSessionActive(jti: string): Promise<boolean> {
+  const supabase = createServerClient();
+  const { data, error } = await supabase
+    .from('guest_sessions')
+    .select('revoked_at, uploaders(banned_at)')
+    .eq('jti', jti)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return !!data && !data.revoked_at && !!data.uploaders && !data.uploaders.banned_at;
+}
+
 /**
  * Verify and decode a session JWT.
  * Returns null if invalid or expired.
@@ -58,9 +96,15 @@ export async function verifySession(token: string): Promise<SessionPayload | nul
       return null;
     }
 
+    // Sessions issued before jti existed can't be revoked or checked for bans: the guest joins again
+    if (!payload.jti || !(await isSessionActive(payload.jti))) {
+      return null;
+    }
+
     return {
       partyId: payload.partyId,
       uploaderId: payload.uploaderId,
+      jti: payload.jti,
       iat: payload.iat as number,
       exp: payload.exp as number,
     };
@@ -70,10 +114,18 @@ export async function verifySession(token: string): Promise<SessionPayload | nul
 }
 
 /**
- * Set the session cookie for a guest.
+ * Get the guest session from a request's cookie.
+ * Returns null if missing, invalid or expired.
  */
-export async function setSessionCookie(partyId: string, uploaderId: string): Promise<void> {
-  const token = await createSession(partyId, uploaderId);
+export async function getGuestSession(request: NextRequest): Promise<SessionPayload | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+  return verifySession(token);
+}
+
+async function writeSessionCookie(token: string): Promise<void> {
   const cookieStore = await cookies();
 
   cookieStore.set(SESSION_COOKIE_NAME, token, {
@@ -84,3 +136,147 @@ export async function setSessionCookie(partyId: string, uploaderId: string): Pro
     maxAge: SESSION_EXPIRY_HOURS * 60 * 60,
   });
 }
+
+/**
+ * Start a session for a guest: record it in guest_sessions and set the cookie.
+ */
+export async function setSessionCookie(partyId: string, uploaderId: string): Promise<void> {
+  const jti = uuidv4();
+  const expiresAt = sessionExpiry();
+
+  const supabase = createServerClient();
+  const { error } = await supabase.from('guest_sessions').insert({
+    jti,
+    party_id: partyId,
+    uploader_id: uploaderId,
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) {
+    throw new Error(`Failed to record session: ${error.message}`);
+  }
+
+  await writeSessionCookie(await createSession(partyId, uploaderId, jti, expiresAt));
+  await setReturningGuestCookie(partyId, uploaderId);
+}
+
+/**
+ * Remember on this device which guest it joined a party as. Outlives the session,
+ * so the guest can come back under their name after it expires; nobody else can.
+ */
+async function setReturningGuestCookie(partyId: string, uploaderId: string): Promise<void> {
+  const token = await new SignJWT({ partyId, uploaderId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(RETURNING_GUEST_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${RETURNING_GUEST_EXPIRY_DAYS}d`)
+    .sign(getSecretKey());
+
+  const cookieStore = await cookies();
+  cookieStore.set(`${RETURNING_GUEST_COOKIE_PREFIX}${partyId}`, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: RETURNING_GUEST_EXPIRY_DAYS * 24 * 60 * 60,
+  });
+}
+
+/**
+ * The guest this device joined the party as before, if it did.
+ */
+export async function getReturningUploaderId(request: NextRequest, partyId: string): Promise<string | null> {
+  const token = request.cookies.get(`${RETURNING_GUEST_COOKIE_PREFIX}${partyId}`)?.value;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), { audience: RETURNING_GUEST_AUDIENCE });
+    return payload.partyId === partyId && typeof payload.uploaderId === 'string' ? payload.uploaderId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Forget which guest this device joined the party as (after signing out to hand the phone over).
+ */
+export async function clearReturningGuestCookie(partyId: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(`${RETURNING_GUEST_COOKIE_PREFIX}${partyId}`);
+}
+
+/**
+ * Re-issue the cookie with a fresh expiry once less than SESSION_REFRESH_HOURS is left,
+ * so a party running past midnight doesn't sign everyone out. Returns the new expiry,
+ * or null if the session didn't need refreshing yet.
+ */
+export async function refreshSessionCookie(session: SessionPayload): Promise<Date | null> {
+  if (session.exp * 1000 - Date.now() > SESSION_REFRESH_HOURS * 60 * 60 * 1000) {
+    return null;
+  }
+
+  const expiresAt = sessionExpiry();
+
+  // Only extends a session that's still recorded and not revoked; never creates one
+  const supabase = createServerClient();
+  const { data, error } = await supabase
+    .from('guest_sessions')
+    .update({ expires_at: expiresAt.toISOString() })
+    .eq('jti', session.jti)
+    .is('revoked_at', null)
+    .select('jti');
+  if (error) {
+    throw new Error(`Failed to refresh session: ${error.message}`);
+  }
+  if (data.length === 0) {
+    return null;
+  }
+
+  await writeSessionCookie(await createSession(session.partyId, session.uploaderId, session.jti, expiresAt));
+  return expiresAt;
+}
+
+/**
+ * Clear the guest session cookie (logout).
+ */
+export async function clearSessionCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Revoke one session so its cookie stops working, e.g. when the guest signs out.
+ */
+export async function revokeSession(jti: string): Promise<void> {
+  const supabase = createServerClient();
+  const { error } = await supabase
+    .from('guest_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('jti', jti)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to revoke session: ${error.message}`);
+  }
+}
+
+/**
+ * Revoke every active session of a guest, on all their devices.
+ * Returns how many sessions were signed out.
+ */
+export async function revokeUploaderSessions(uploaderId: string): Promise<number> {
+  const supabase = createServerClient();
+  const { data, error } = await supabase
+    .from('guest_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('uploader_id', uploaderId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('jti');
+
+  if (error) {
+    throw new Error(`Failed to revoke sessions: ${error.message}`);
+  }
+  return data.length;
+}
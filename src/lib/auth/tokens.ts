@@ -1,10 +1,13 @@
 /**
  * Token and PIN utilities.
  * - Join tokens: URL-safe random strings for party access
- * - PINs: 6-digit codes for admin authentication
+ * - PINs: 6-digit codes for admin authentication, stored as salted scrypt hashes
+ *   (same versioned format as host passwords). Parties whose PIN was set before that
+ *   still have an unsalted SHA-256 hex digest, which is upgraded on the next correct PIN.
  */
 
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { hashPassword, isPasswordHash, verifyPassword } from './passwords';
 
 const JOIN_TOKEN_LENGTH = 32; // 32 bytes = 256 bits of entropy
 
@@ -18,27 +21,45 @@ export function generateJoinToken(): string {
   return bytes.toString('base64url');
 }
 
+export interface PinVerification {
+  valid: boolean;
+  /** Replacement hash to store when the PIN was right but stored in the legacy format */
+  rehash: string | null;
+}
+
 /**
- * Hash a PIN using SHA-256.
- * This is what we store in the database for admin PINs.
+ * Hash a PIN for storage (scrypt with a random salt).
  */
-export function hashPin(pin: string): string {
-  return createHash('sha256').update(pin).digest('hex');
+export function hashPin(pin: string): Promise<string> {
+  return hashPassword(pin);
 }
 
 /**
- * Verify a PIN against a stored hash.
- * Uses constant-time comparison to prevent timing attacks.
+ * Check whether a stored PIN hash is the legacy unsalted SHA-256 format.
  */
-export function verifyPin(pin: string, storedHash: string): boolean {
-  const pinHash = hashPin(pin);
+export function isLegacyPinHash(storedHash: string): boolean {
+  return !isPasswordHash(storedHash);
+}
+
+function verifyLegacyPin(pin: string, storedHash: string): boolean {
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = createHash('sha256').update(pin).digest();
   // Constant-time comparison to prevent timing attacks
-  if (pinHash.length !== storedHash.length) {
-    return false;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Verify a PIN against a stored hash in either format.
+ * A correct PIN checked against a legacy hash comes back with a scrypt rehash
+ * for the caller to save.
+ */
+export async function verifyPin(pin: string, storedHash: string): Promise<PinVerification> {
+  if (!isLegacyPinHash(storedHash)) {
+    return { valid: await verifyPassword(pin, storedHash), rehash: null };
   }
-  let result = 0;
-  for (let i = 0; i < pinHash.length; i++) {
-    result |= pinHash.charCodeAt(i) ^ storedHash.charCodeAt(i);
+
+  if (!verifyLegacyPin(pin, storedHash)) {
+    return { valid: false, rehash: null };
   }
-  return result === 0;
+  return { valid: true, rehash: await hashPin(pin) };
 }
@@ -0,0 +1,39 @@
+/**
+ * Photo booth capture modes (desktop webcam).
+ */
+
+export const BOOTH = {
+  /** Countdown before a single photo, in seconds */
+  PHOTO_COUNTDOWN_S: 5,
+
+  /** Shots in a strip, and the countdown before each one */
+  STRIP_SHOTS: 4,
+  STRIP_COUNTDOWN_S: 3,
+
+  /** Width of each shot in the strip, and the border around them */
+  STRIP_SHOT_WIDTH: 640,
+  STRIP_BORDER: 24,
+  STRIP_FOOTER_HEIGHT: 96,
+  STRIP_QUALITY: 0.9,
+
+  /** Countdown before a boomerang */
+  BOOMERANG_COUNTDOWN_S: 3,
+
+  /** Frames recorded for a boomerang (played forwards, then backwards) */
+  BOOMERANG_FRAMES: 12,
+  BOOMERANG_FRAME_MS: 100,
+
+  /** Width of the boomerang animation; GIFs grow fast with size */
+  BOOMERANG_WIDTH: 400,
+
+  /** Largest animated GIF kept as-is (it is its own TV version) */
+  ANIMATION_MAX_FILE_SIZE_BYTES: 8 * 1024 * 1024,
+} as const;
+
+export const CAPTURE_MODES = [
+  { mode: 'photo', label: 'Photo' },
+  { mode: 'strip', label: 'Strip' },
+  { mode: 'boomerang', label: 'Boomerang' },
+] as const;
+
+export type CaptureMode = (typeof CAPTURE_MODES)[number]['mode'];
@@ -0,0 +1,32 @@
+/**
+ * Photo editor (crop, rotate, filters) shown before sending a photo.
+ */
+
+/**
+ * Crops offered in the editor, centred on the photo. ratio is width / height
+ * after rotating; null keeps the whole photo.
+ */
+export const CROP_ASPECTS = [
+  { aspect: 'original', label: 'Original', ratio: null },
+  { aspect: '1:1', label: 'Square', ratio: 1 },
+  { aspect: '4:3', label: '4:3', ratio: 4 / 3 },
+  { aspect: '3:4', label: '3:4', ratio: 3 / 4 },
+  { aspect: '16:9', label: '16:9', ratio: 16 / 9 },
+  { aspect: '9:16', label: '9:16', ratio: 9 / 16 },
+] as const;
+
+export type CropAspect = (typeof CROP_ASPECTS)[number]['aspect'];
+
+export const PHOTO_FILTERS = [
+  { filter: 'none', label: 'None' },
+  { filter: 'bw', label: 'B&W' },
+  { filter: 'warm', label: 'Warm' },
+  { filter: 'vintage', label: 'Vintage' },
+] as const;
+
+export type PhotoFilter = (typeof PHOTO_FILTERS)[number]['filter'];
+
+/** Clockwise quarter turns */
+export const ROTATIONS = [0, 90, 180, 270] as const;
+
+export type Rotation = (typeof ROTATIONS)[number];
@@ -19,10 +19,48 @@ export const IMAGE = {
   /** Maximum file size for storage optimization (3MB) */
   MAX_FILE_SIZE_BYTES: 3 * 1024 * 1024,
   
+  /** Maximum dimension and JPEG quality for thumbnails (grids, the remote) */
+  THUMB_MAX_SIZE: 400,
+  THUMB_QUALITY: 0.75,
+
+  /** Largest preview drawn in the guest's confirm step and the photo editor */
+  PREVIEW_MAX_SIZE: 1080,
+
   /** Minimum savings threshold to justify TV version (300KB) */
   MIN_TV_SAVINGS_BYTES: 300 * 1024,
+
+  /** Photos processed at the same time in a batch (each one holds full-size bitmaps) */
+  PROCESSING_CONCURRENCY: 2,
+
+  /** Maximum number of photos picked from the gallery at once */
+  MAX_BATCH_PHOTOS: 50,
 } as const;
 
+/**
+ * Formats for the TV rendition, best first.
+ * The client encodes the first one its browser can produce; JPEG always works.
+ */
+export const TV_FORMATS = [
+  { ext: 'avif', mime: 'image/avif', quality: 0.6 },
+  { ext: 'webp', mime: 'image/webp', quality: 0.75 },
+  { ext: 'jpg', mime: 'image/jpeg', quality: 0.8 },
+] as const;
+
+export type TvFormat = (typeof TV_FORMATS)[number];
+
+/**
+ * Formats photo originals are stored in. Anything else (HEIC, a redrawn or shrunk
+ * photo) is converted to JPEG on the guest's phone first.
+ */
+export const PHOTO_FORMATS = [
+  { ext: 'jpg', mime: 'image/jpeg' },
+  { ext: 'png', mime: 'image/png' },
+  { ext: 'webp', mime: 'image/webp' },
+  { ext: 'gif', mime: 'image/gif' },
+] as const;
+
+export type PhotoFormat = (typeof PHOTO_FORMATS)[number];
+
 export const IMAGE_QUALITY_LEVELS = [
   { quality: 0.90, label: 'High quality' },
   { quality: 0.85, label: 'Good quality' },
@@ -35,8 +73,17 @@ export const IMAGE_RESIZE_LEVELS = [
   { size: 2048, quality: 0.80, label: '2K' },
 ] as const;
 
+/**
+ * Resolution caps hosts can pick for stored originals (longest side, px), largest first.
+ * The first one is the default, IMAGE.ORIGINAL_MAX_SIZE.
+ */
+export const ORIGINAL_SIZE_OPTIONS = [4096, 3072, 2048, 1024] as const;
+
 /** Valid PIN format: exactly 6 digits */
 export const PIN_FORMAT_REGEX = /^\d{6}$/;
 
 /** PIN length */
 export const PIN_LENGTH = 6;
+
+/** Longest comment on a photo (shown under it on the TV) */
+export const COMMENT_MAX_LENGTH = 200;
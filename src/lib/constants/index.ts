@@ -5,3 +5,7 @@
 export * from './theme';
 export * from './timing';
 export * from './image';
+export * from './video';
+export * from './booth';
+export * from './overlay';
+export * from './edit';
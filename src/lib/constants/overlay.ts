@@ -0,0 +1,14 @@
+/**
+ * Party overlay constants (frame and text stamped on photos).
+ */
+
+export const OVERLAY = {
+  /** Largest frame PNG a host can upload */
+  FRAME_MAX_FILE_SIZE_BYTES: 2 * 1024 * 1024,
+
+  /** Longest overlay text */
+  TEXT_MAX_LENGTH: 60,
+
+  /** Text height, as a share of the photo's shorter side */
+  TEXT_SIZE_RATIO: 0.05,
+} as const;
@@ -36,6 +36,9 @@ export const TIMING = {
   
   /** Time without photos before showing idle prompt */
   IDLE_THRESHOLD_MS: 120000,
+  
+  /** How often the upload page checks in to keep the guest session fresh */
+  SESSION_CHECK_INTERVAL_MS: 30 * 60 * 1000,
 } as const;
 
 export const TIMING_SECONDS = {
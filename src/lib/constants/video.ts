@@ -0,0 +1,28 @@
+/**
+ * Video clip constants.
+ */
+
+export const VIDEO = {
+  /** Longest clip guests can upload */
+  MAX_DURATION_MS: 15000,
+
+  /** Largest clip guests can upload (the storage bucket's file size limit) */
+  MAX_FILE_SIZE_BYTES: 25 * 1024 * 1024,
+
+  /** Where the poster frame is taken, in seconds (earlier for shorter clips) */
+  POSTER_TIME_S: 0.5,
+
+  /** Quality of the poster frame grabbed from the clip */
+  POSTER_QUALITY: 0.9,
+} as const;
+
+/**
+ * Clip formats guests can upload, as stored (clips are never re-encoded).
+ */
+export const VIDEO_FORMATS = [
+  { ext: 'mp4', mime: 'video/mp4' },
+  { ext: 'mov', mime: 'video/quicktime' },
+  { ext: 'webm', mime: 'video/webm' },
+] as const;
+
+export type VideoFormat = (typeof VIDEO_FORMATS)[number];
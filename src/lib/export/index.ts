@@ -0,0 +1,13 @@
+// Photo export (ZIP download) options
+export {
+  parseExportOptions,
+  matchesExportFilters,
+  buildExportPath,
+  getExportTime,
+  ExportOptionsError,
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_TOKENS,
+  type ExportOptions,
+  type ExportPhoto,
+  type ExportFolders,
+} from './options';
@@ -0,0 +1,179 @@
+/**
+ * Photo export options: which photos to include in a ZIP download and how to name them.
+ * Options can come from query parameters (GET) or a JSON body (POST).
+ * from/to bound the same time the names and the archive order use: the capture time,
+ * or the upload time for photos without one.
+ */
+
+import { validate as isUuid } from 'uuid';
+
+export type ExportFolders = 'none' | 'uploader';
+
+export interface ExportOptions {
+  uploaderIds: string[];
+  ids: string[];
+  from: Date | null;
+  to: Date | null;
+  hasComment: boolean | null;
+  template: string;
+  folders: ExportFolders;
+}
+
+export interface ExportPhoto {
+  id: string;
+  uploaderId: string;
+  uploaderName: string;
+  comment: string | null;
+  createdAt: string;
+  /** Capture time from the photo's EXIF, if it had one */
+  takenAt: string | null;
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = '{index}_{uploader}';
+
+// Placeholders available in filename templates
+export const FILENAME_TOKENS = ['index', 'timestamp', 'date', 'uploader', 'comment', 'id'] as const;
+
+const MAX_TEMPLATE_LENGTH = 100;
+const MAX_COMMENT_SLUG_LENGTH = 40;
+
+export class ExportOptionsError extends Error {}
+
+function toIdList(value: unknown, field: string): string[] {
+  let ids: string[] = [];
+  if (Array.isArray(value)) {
+    ids = value.filter((v): v is string => typeof v === 'string' && v.length > 0);
+  } else if (typeof value === 'string') {
+    ids = value.split(',').map(v => v.trim()).filter(Boolean);
+  }
+  if (ids.some(id => !isUuid(id))) {
+    throw new ExportOptionsError(`${field} must be a list of IDs`);
+  }
+  return ids;
+}
+
+function toDate(value: unknown, field: string): Date | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ExportOptionsError(`Invalid ${field} date`);
+  }
+  return date;
+}
+
+function toBoolean(value: unknown, field: string): boolean | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value === true || value === 'true' || value === '1') return true;
+  if (value === false || value === 'false' || value === '0') return false;
+  throw new ExportOptionsError(`${field} must be true or false`);
+}
+
+/**
+ * Parse export options from query parameters or a JSON body.
+ * Throws ExportOptionsError for invalid values.
+ */
+export function parseExportOptions(source: URLSearchParams | Record<string, unknown>): ExportOptions {
+  const get = (key: string): unknown =>
+    source instanceof URLSearchParams ? source.get(key) ?? undefined : source[key];
+
+  const template = typeof get('template') === 'string' && get('template') ? String(get('template')) : DEFAULT_FILENAME_TEMPLATE;
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new ExportOptionsError('Filename template is too long');
+  }
+  const unknownToken = Array.from(template.matchAll(/\{(\w+)\}/g))
+    .map(match => match[1])
+    .find(token => !(FILENAME_TOKENS as readonly string[]).includes(token));
+  if (unknownToken) {
+    throw new ExportOptionsError(`Unknown filename token {${unknownToken}}. Use: ${FILENAME_TOKENS.map(t => `{${t}}`).join(', ')}`);
+  }
+
+  const folders = get('folders') ?? 'none';
+  if (folders !== 'none' && folders !== 'uploader') {
+    throw new ExportOptionsError('folders must be "none" or "uploader"');
+  }
+
+  const from = toDate(get('from'), 'from');
+  const to = toDate(get('to'), 'to');
+  if (from && to && from > to) {
+    throw new ExportOptionsError('from must be before to');
+  }
+
+  return {
+    uploaderIds: toIdList(get('uploaderId'), 'uploaderId'),
+    ids: toIdList(get('ids'), 'ids'),
+    from,
+    to,
+    hasComment: toBoolean(get('hasComment'), 'hasComment'),
+    template,
+    folders,
+  };
+}
+
+/**
+ * Whether a photo passes the filters that can't be pushed into the database query.
+ */
+export function matchesExportFilters(photo: ExportPhoto, options: ExportOptions): boolean {
+  const time = getExportTime(photo);
+  if ((options.from && time < options.from) || (options.to && time > options.to)) {
+    return false;
+  }
+  if (options.hasComment !== null && !!photo.comment?.trim() !== options.hasComment) {
+    return false;
+  }
+  return true;
+}
+
+function sanitizeName(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_COMMENT_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+function formatTimestamp(date: Date): string {
+  // 20241231-235958 (UTC)
+  return date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+}
+
+/**
+ * When the photo was taken: its capture time, or the upload time as a fallback.
+ */
+export function getExportTime(photo: ExportPhoto): Date {
+  return new Date(photo.takenAt ?? photo.createdAt);
+}
+
+/**
+ * Build the archive path of a photo from the filename template (without extension).
+ * Empty tokens collapse so a template like {index}_{comment} doesn't leave a trailing "_".
+ */
+export function buildExportPath(photo: ExportPhoto, index: number, options: ExportOptions): string {
+  const time = getExportTime(photo);
+  const values: Record<(typeof FILENAME_TOKENS)[number], string> = {
+    index: String(index).padStart(3, '0'),
+    timestamp: formatTimestamp(time),
+    date: time.toISOString().slice(0, 10),
+    uploader: sanitizeName(photo.uploaderName),
+    comment: photo.comment ? slugify(photo.comment) : '',
+    id: photo.id.slice(0, 8),
+  };
+
+  const baseName = options.template
+    .replace(/\{(\w+)\}/g, (_, token: keyof typeof values) => values[token])
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .replace(/([_\-. ])[_\-. ]+/g, '$1')
+    .replace(/^[_\-. ]+|[_\-. ]+$/g, '') || values.index;
+
+  return options.folders === 'uploader' ? `${values.uploader}/${baseName}` : baseName;
+}
@@ -0,0 +1,235 @@
+/**
+ * Image decoding/encoding backends for the processing pipeline.
+ */
+
+import { applyFilter, rotateContext } from './edit';
+import type { DrawOverlay, ImageBackend, LoadedImage } from './pipeline';
+
+/**
+ * Load an image from a blob into an HTMLImageElement.
+ */
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
+  });
+}
+
+/**
+ * Draw an image upright, applying its EXIF orientation by hand.
+ * width/height are the upright output size.
+ */
+function drawOriented(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: LoadedImage,
+  width: number,
+  height: number
+): void {
+  const orientation = image.orientation ?? 1;
+  // Size as stored, before rotating
+  const [w, h] = orientation >= 5 ? [height, width] : [width, height];
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+
+  ctx.drawImage(image.source, 0, 0, w, h);
+}
+
+/**
+ * Draw an image with the guest's crop, rotation and filter, if it has any.
+ * width/height are the edited output size.
+ */
+function drawEdited(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  image: LoadedImage,
+  width: number,
+  height: number
+): void {
+  const { edit } = image;
+  if (!edit) {
+    drawOriented(ctx, image, width, height);
+    return;
+  }
+
+  rotateContext(ctx, edit.rotation, width, height);
+
+  // Size of the crop before turning, and of the whole photo at that scale
+  const [w, h] = edit.rotation === 90 || edit.rotation === 270 ? [height, width] : [width, height];
+  const fullWidth = w / edit.crop.width;
+  const fullHeight = h / edit.crop.height;
+  ctx.translate(-edit.crop.x * fullWidth, -edit.crop.y * fullHeight);
+  drawOriented(ctx, image, fullWidth, fullHeight);
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  applyFilter(ctx, width, height, edit.filter);
+}
+
+/**
+ * Draw the overlay upright, over the whole output.
+ */
+function drawOverlay(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  overlay?: DrawOverlay
+): void {
+  if (!overlay) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  overlay(ctx, width, height);
+}
+
+/**
+ * Upright size of a decoded image.
+ */
+function orientedSize(width: number, height: number, orientation: number): { width: number; height: number } {
+  return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+// Encoder support per backend and type, probed once
+const encodeSupport = new Map<string, Promise<boolean>>();
+
+function probeOnce(key: string, probe: () => Promise<boolean>): Promise<boolean> {
+  let support = encodeSupport.get(key);
+  if (!support) {
+    support = probe().catch(() => false);
+    encodeSupport.set(key, support);
+  }
+  return support;
+}
+
+/**
+ * Main-thread backend: HTMLImageElement + canvas.
+ * Used when the browser can't run the pipeline in a worker.
+ */
+export const canvasBackend: ImageBackend = {
+  async load(blob: Blob, orientation = 1): Promise<LoadedImage> {
+    const img = await loadImage(blob);
+    return { ...orientedSize(img.width, img.height, orientation), source: img, orientation };
+  },
+
+  encode(image: LoadedImage, width: number, height: number, type: string, quality: number, overlay?: DrawOverlay): Promise<Blob> {
+    // Create canvas and draw resized image
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return Promise.reject(new Error('Failed to get canvas context'));
+    }
+
+    // Use better image smoothing for resize
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    drawEdited(ctx, image, width, height);
+    drawOverlay(ctx, width, height, overlay);
+
+    // Convert to blob (browsers fall back to PNG for types they can't encode)
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (result) => {
+          if (result && result.type === type) {
+            resolve(result);
+          } else {
+            reject(new Error('Failed to create image blob'));
+          }
+        },
+        type,
+        quality
+      );
+    });
+  },
+
+  canEncode(type: string): Promise<boolean> {
+    return probeOnce(`canvas:${type}`, () => new Promise(resolve => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 1;
+      canvas.height = 1;
+      canvas.toBlob(blob => resolve(blob?.type === type), type);
+    }));
+  },
+};
+
+/**
+ * Worker backend: createImageBitmap + OffscreenCanvas.
+ */
+export const bitmapBackend: ImageBackend = {
+  async load(blob: Blob, orientation = 1): Promise<LoadedImage> {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(blob);
+    } catch {
+      throw new Error('Failed to load image');
+    }
+    return {
+      ...orientedSize(bitmap.width, bitmap.height, orientation),
+      source: bitmap,
+      orientation,
+      close: () => bitmap.close(),
+    };
+  },
+
+  async encode(image: LoadedImage, width: number, height: number, type: string, quality: number, overlay?: DrawOverlay): Promise<Blob> {
+    const canvas = new OffscreenCanvas(width, height);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    drawEdited(ctx, image, width, height);
+    drawOverlay(ctx, width, height, overlay);
+
+    const blob = await canvas.convertToBlob({ type, quality });
+    if (blob.type !== type) {
+      throw new Error('Failed to create image blob');
+    }
+    return blob;
+  },
+
+  canEncode(type: string): Promise<boolean> {
+    return probeOnce(`bitmap:${type}`, async () => {
+      const canvas = new OffscreenCanvas(1, 1);
+      canvas.getContext('2d');
+      return (await canvas.convertToBlob({ type })).type === type;
+    });
+  },
+};
+
+/**
+ * Whether this context has what the bitmap backend needs.
+ * Safari before 16.4 has OffscreenCanvas without a 2D context, so check that too.
+ */
+export function supportsBitmapBackend(): boolean {
+  if (typeof createImageBitmap !== 'function' || typeof OffscreenCanvas === 'undefined') {
+    return false;
+  }
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Photo booth composition for the desktop webcam.
+ * A strip stacks a burst of shots into one JPEG (uploaded like any photo);
+ * a boomerang plays a short burst forwards then backwards as an animated GIF.
+ */
+
+import { BOOTH } from '@/lib/constants';
+import { encodeGif } from './gif';
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return { canvas, ctx };
+}
+
+/**
+ * Copy the current webcam frame, scaled down to maxWidth if wider.
+ */
+export function grabWebcamFrame(video: HTMLVideoElement, maxWidth = video.videoWidth): HTMLCanvasElement {
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const { canvas, ctx } = createCanvas(
+    Math.round(video.videoWidth * scale),
+    Math.round(video.videoHeight * scale)
+  );
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Stack the shots into a classic photo booth strip.
+ */
+export function composeStrip(shots: readonly HTMLCanvasElement[]): Promise<File> {
+  const border = BOOTH.STRIP_BORDER;
+  const shotWidth = BOOTH.STRIP_SHOT_WIDTH;
+  const shotHeight = Math.round(shotWidth * (shots[0].height / shots[0].width));
+
+  const { canvas, ctx } = createCanvas(
+    shotWidth + border * 2,
+    shots.length * (shotHeight + border) + border + BOOTH.STRIP_FOOTER_HEIGHT
+  );
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  shots.forEach((shot, index) => {
+    ctx.drawImage(shot, border, border + index * (shotHeight + border), shotWidth, shotHeight);
+  });
+
+  ctx.fillStyle = '#333333';
+  ctx.font = `bold ${Math.round(BOOTH.STRIP_FOOTER_HEIGHT / 3)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(
+    `📸 PhotoBooze · ${new Date().toLocaleDateString()}`,
+    canvas.width / 2,
+    canvas.height - BOOTH.STRIP_FOOTER_HEIGHT / 2
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob
+        ? resolve(new File([blob], `strip-${Date.now()}.jpg`, { type: 'image/jpeg' }))
+        : reject(new Error('Failed to create photo strip')),
+      'image/jpeg',
+      BOOTH.STRIP_QUALITY
+    );
+  });
+}
+
+/**
+ * Loop the frames forwards then backwards as an animated GIF.
+ */
+export function composeBoomerang(frames: readonly HTMLCanvasElement[]): File {
+  const { width, height } = frames[0];
+  const pixels = frames.map(frame => {
+    const ctx = frame.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    return ctx.getImageData(0, 0, width, height);
+  });
+
+  // The end frames aren't repeated, so the turnarounds don't stutter
+  const loop = [...pixels, ...pixels.slice(1, -1).reverse()];
+  const gif = encodeGif(loop, BOOTH.BOOMERANG_FRAME_MS);
+
+  return new File([gif], `boomerang-${Date.now()}.gif`, { type: 'image/gif' });
+}
@@ -0,0 +1,131 @@
+/**
+ * Guest edits made before sending a photo: a centred crop to a common aspect
+ * ratio, quarter turns and a colour filter. Filters work on the pixels, so they
+ * look the same in every browser, in the worker and in the rendition scripts
+ * (scripts/lib/render.mjs mirrors this file).
+ */
+
+import { CROP_ASPECTS, type PhotoFilter, type Rotation } from '@/lib/constants';
+import type { PhotoEdit } from '@/types/database';
+
+/** No crop, no rotation, no filter */
+export const NO_EDIT: PhotoEdit = { aspect: 'original', rotation: 0, filter: 'none' };
+
+/**
+ * Part of the upright photo that is kept, as fractions of its size.
+ */
+export interface EditCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An edit worked out for one image, as the backends draw it.
+ */
+export interface DrawEdit {
+  crop: EditCrop;
+  rotation: Rotation;
+  filter: PhotoFilter;
+}
+
+export function isPhotoEdited(edit: PhotoEdit | null | undefined): edit is PhotoEdit {
+  return !!edit && (edit.aspect !== NO_EDIT.aspect || edit.rotation !== NO_EDIT.rotation || edit.filter !== NO_EDIT.filter);
+}
+
+/**
+ * Work out the crop of an upright width x height photo and the size it comes out at.
+ */
+export function resolveEdit(edit: PhotoEdit, width: number, height: number): {
+  edit: DrawEdit;
+  width: number;
+  height: number;
+} {
+  const turned = edit.rotation === 90 || edit.rotation === 270;
+  const ratio = CROP_ASPECTS.find(option => option.aspect === edit.aspect)?.ratio ?? null;
+
+  let crop: EditCrop = { x: 0, y: 0, width: 1, height: 1 };
+  if (ratio) {
+    // The ratio is for the rotated result; crop the photo before turning it
+    const target = turned ? 1 / ratio : ratio;
+    crop = width / height > target
+      ? { x: 0, y: 0, width: (height * target) / width, height: 1 }
+      : { x: 0, y: 0, width: 1, height: width / target / height };
+    crop.x = (1 - crop.width) / 2;
+    crop.y = (1 - crop.height) / 2;
+  }
+
+  const croppedWidth = Math.max(1, Math.round(width * crop.width));
+  const croppedHeight = Math.max(1, Math.round(height * crop.height));
+  return {
+    edit: { crop, rotation: edit.rotation, filter: edit.filter },
+    width: turned ? croppedHeight : croppedWidth,
+    height: turned ? croppedWidth : croppedHeight,
+  };
+}
+
+/**
+ * Turn the context so that drawing the cropped photo at its unrotated size
+ * fills a width x height output.
+ */
+export function rotateContext(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  rotation: Rotation,
+  width: number,
+  height: number
+): void {
+  switch (rotation) {
+    case 90: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 180: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 270: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+}
+
+/**
+ * Apply a colour filter to what is drawn on the context.
+ */
+export function applyFilter(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  filter: PhotoFilter
+): void {
+  if (filter === 'none') return;
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const data = pixels.data; // Clamped, so out-of-range values are fine
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    switch (filter) {
+      case 'bw': {
+        const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+        data[i] = luma;
+        data[i + 1] = luma;
+        data[i + 2] = luma;
+        break;
+      }
+      case 'warm':
+        data[i] = r * 1.08 + 10;
+        data[i + 1] = g * 1.02 + 4;
+        data[i + 2] = b * 0.86;
+        break;
+      case 'vintage': {
+        // Sepia blended with the original colours, with faded blacks
+        const sepiaR = 0.393 * r + 0.769 * g + 0.189 * b;
+        const sepiaG = 0.349 * r + 0.686 * g + 0.168 * b;
+        const sepiaB = 0.272 * r + 0.534 * g + 0.131 * b;
+        data[i] = (0.6 * sepiaR + 0.4 * r) * 0.85 + 28;
+        data[i + 1] = (0.6 * sepiaG + 0.4 * g) * 0.85 + 22;
+        data[i + 2] = (0.6 * sepiaB + 0.4 * b) * 0.85 + 18;
+        break;
+      }
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+}
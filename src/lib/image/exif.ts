@@ -0,0 +1,328 @@
+/**
+ * Photo metadata policy.
+ * Guest photos keep two things from their EXIF: the orientation and the capture time
+ * (DateTimeOriginal). GPS, device serials, maker notes, XMP, IPTC and comments never leave
+ * the device - JPEGs get their metadata segments replaced by a minimal EXIF block, and
+ * anything redrawn through canvas comes out without metadata anyway.
+ */
+
+export interface ImageMetadata {
+  /** Whether the file had an EXIF block at all */
+  hasExif: boolean;
+  /** EXIF orientation, 1 (upright) to 8 */
+  orientation: number;
+  /** Raw DateTimeOriginal ("YYYY:MM:DD HH:MM:SS", camera local time) */
+  dateTimeOriginal: string | null;
+  /** Raw OffsetTimeOriginal ("+02:00"), when the camera recorded its UTC offset */
+  offsetTimeOriginal: string | null;
+}
+
+export const EMPTY_METADATA: ImageMetadata = {
+  hasExif: false,
+  orientation: 1,
+  dateTimeOriginal: null,
+  offsetTimeOriginal: null,
+};
+
+// JPEG APP1 segments sit at the start of the file; HEIC keeps its Exif item near the start too
+const EXIF_SCAN_BYTES = 512 * 1024;
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const DATE_TIME_PATTERN = /^\d{4}:\d{2}:\d{2} \d{2}:\d{2}:\d{2}$/;
+const OFFSET_PATTERN = /^[+-]\d{2}:\d{2}$/;
+
+// JPEG markers
+const SOI = 0xd8;
+const EOI = 0xd9;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP14 = 0xee;
+const ICC_PROFILE_HEADER = 'ICC_PROFILE\0';
+
+/**
+ * Find the TIFF header following an "Exif\0\0" marker.
+ * Returns its offset, or -1.
+ */
+function findTiffHeader(bytes: Uint8Array): number {
+  outer: for (let i = 0; i + EXIF_HEADER.length + 4 <= bytes.length; i++) {
+    for (let j = 0; j < EXIF_HEADER.length; j++) {
+      if (bytes[i + j] !== EXIF_HEADER[j]) continue outer;
+    }
+    const start = i + EXIF_HEADER.length;
+    const isLittleEndian = bytes[start] === 0x49 && bytes[start + 1] === 0x49 && bytes[start + 2] === 0x2a && bytes[start + 3] === 0x00;
+    const isBigEndian = bytes[start] === 0x4d && bytes[start + 1] === 0x4d && bytes[start + 2] === 0x00 && bytes[start + 3] === 0x2a;
+    if (isLittleEndian || isBigEndian) {
+      return start;
+    }
+  }
+  return -1;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the 4-byte value/offset field */
+  valueField: number;
+}
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    entries.set(view.getUint16(entry, littleEndian), {
+      type: view.getUint16(entry + 2, littleEndian),
+      count: view.getUint32(entry + 4, littleEndian),
+      valueField: entry + 8,
+    });
+  }
+  return entries;
+}
+
+function readAscii(view: DataView, entry: IfdEntry | undefined, littleEndian: boolean): string | null {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  const start = entry.count <= 4 ? entry.valueField : view.getUint32(entry.valueField, littleEndian);
+  let value = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    value += String.fromCharCode(code);
+  }
+  return value.trim();
+}
+
+function parseTiff(view: DataView): ImageMetadata {
+  const littleEndian = view.getUint16(0) === 0x4949;
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+
+  const orientationEntry = ifd0.get(TAG_ORIENTATION);
+  const orientation = orientationEntry?.type === TYPE_SHORT
+    ? view.getUint16(orientationEntry.valueField, littleEndian)
+    : 1;
+
+  let dateTimeOriginal: string | null = null;
+  let offsetTimeOriginal: string | null = null;
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer?.type === TYPE_LONG) {
+    const exifIfd = readIfd(view, view.getUint32(exifPointer.valueField, littleEndian), littleEndian);
+    dateTimeOriginal =
+      readAscii(view, exifIfd.get(TAG_DATE_TIME_ORIGINAL), littleEndian) ??
+      readAscii(view, exifIfd.get(TAG_DATE_TIME_DIGITIZED), littleEndian);
+    offsetTimeOriginal = readAscii(view, exifIfd.get(TAG_OFFSET_TIME_ORIGINAL), littleEndian);
+  }
+
+  return {
+    hasExif: true,
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+    dateTimeOriginal: dateTimeOriginal && DATE_TIME_PATTERN.test(dateTimeOriginal) ? dateTimeOriginal : null,
+    offsetTimeOriginal: offsetTimeOriginal && OFFSET_PATTERN.test(offsetTimeOriginal) ? offsetTimeOriginal : null,
+  };
+}
+
+/**
+ * Read the orientation and capture time from a JPEG or HEIC file.
+ * Files without (readable) EXIF get EMPTY_METADATA.
+ */
+export async function readImageMetadata(blob: Blob): Promise<ImageMetadata> {
+  const bytes = new Uint8Array(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  const tiffStart = findTiffHeader(bytes);
+  if (tiffStart === -1) {
+    return EMPTY_METADATA;
+  }
+
+  try {
+    return parseTiff(new DataView(bytes.buffer, bytes.byteOffset + tiffStart));
+  } catch {
+    // Offsets pointing outside the block: treat as unreadable, but still strip it
+    return { ...EMPTY_METADATA, hasExif: true };
+  }
+}
+
+/**
+ * Capture time as an ISO timestamp, or null if the camera didn't record a usable one.
+ */
+export function getTakenAt({ dateTimeOriginal, offsetTimeOriginal }: ImageMetadata): string | null {
+  if (!dateTimeOriginal) return null;
+
+  const [date, time] = dateTimeOriginal.split(' ');
+  const [year, month, day] = date.split(':').map(Number);
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+
+  const takenAt = offsetTimeOriginal
+    ? new Date(`${date.replace(/:/g, '-')}T${time}${offsetTimeOriginal}`)
+    // No offset recorded: assume the camera was in the same timezone as this device
+    : new Date(year, month - 1, day, hours, minutes, seconds);
+
+  // Unset camera clocks write zeros
+  if (isNaN(takenAt.getTime()) || year < 1990) {
+    return null;
+  }
+  return takenAt.toISOString();
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    bytes[offset + i] = value.charCodeAt(i);
+  }
+}
+
+/**
+ * Build an APP1 segment holding only the orientation and capture time.
+ * Returns null when there is nothing worth keeping.
+ */
+function buildExifSegment(metadata: ImageMetadata, orientation: number): Uint8Array<ArrayBuffer> | null {
+  const { dateTimeOriginal, offsetTimeOriginal } = metadata;
+  if (orientation === 1 && !dateTimeOriginal) {
+    return null;
+  }
+
+  // Big-endian TIFF: header, IFD0, Exif IFD, then the strings
+  const ifd0Count = (orientation !== 1 ? 1 : 0) + (dateTimeOriginal ? 1 : 0);
+  const exifCount = dateTimeOriginal ? (offsetTimeOriginal ? 2 : 1) : 0;
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + 2 + ifd0Count * 12 + 4;
+  const dataOffset = exifOffset + (exifCount > 0 ? 2 + exifCount * 12 + 4 : 0);
+  const dateLength = dateTimeOriginal ? dateTimeOriginal.length + 1 : 0;
+  const offsetLength = dateTimeOriginal && offsetTimeOriginal ? offsetTimeOriginal.length + 1 : 0;
+  const tiffLength = dataOffset + dateLength + offsetLength;
+
+  const segmentLength = 2 + EXIF_HEADER.length + tiffLength;
+  const segment = new Uint8Array(2 + segmentLength);
+  const view = new DataView(segment.buffer);
+  const tiff = 4 + EXIF_HEADER.length;
+
+  view.setUint16(0, 0xff00 | APP1);
+  view.setUint16(2, segmentLength);
+  segment.set(EXIF_HEADER, 4);
+  view.setUint16(tiff, 0x4d4d);
+  view.setUint16(tiff + 2, 0x002a);
+  view.setUint32(tiff + 4, ifd0Offset);
+
+  const writeEntry = (at: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(tiff + at, tag);
+    view.setUint16(tiff + at + 2, type);
+    view.setUint32(tiff + at + 4, count);
+    if (type === TYPE_SHORT) {
+      view.setUint16(tiff + at + 8, value);
+    } else {
+      view.setUint32(tiff + at + 8, value);
+    }
+  };
+
+  // IFD0 (entries sorted by tag, next-IFD offset left at 0)
+  view.setUint16(tiff + ifd0Offset, ifd0Count);
+  let entry = ifd0Offset + 2;
+  if (orientation !== 1) {
+    writeEntry(entry, TAG_ORIENTATION, TYPE_SHORT, 1, orientation);
+    entry += 12;
+  }
+  if (dateTimeOriginal) {
+    writeEntry(entry, TAG_EXIF_IFD, TYPE_LONG, 1, exifOffset);
+
+    view.setUint16(tiff + exifOffset, exifCount);
+    writeEntry(exifOffset + 2, TAG_DATE_TIME_ORIGINAL, TYPE_ASCII, dateLength, dataOffset);
+    writeAscii(segment, tiff + dataOffset, dateTimeOriginal);
+    if (offsetTimeOriginal) {
+      writeEntry(exifOffset + 14, TAG_OFFSET_TIME_ORIGINAL, TYPE_ASCII, offsetLength, dataOffset + dateLength);
+      writeAscii(segment, tiff + dataOffset + dateLength, offsetTimeOriginal);
+    }
+  }
+
+  return segment;
+}
+
+function isKeptSegment(marker: number, bytes: Uint8Array, start: number): boolean {
+  // Application segments carry the camera metadata; keep only JFIF, ICC colour profiles and Adobe's colour transform
+  if (marker >= APP0 && marker <= 0xef) {
+    if (marker === APP2) {
+      const header = String.fromCharCode(...bytes.subarray(start + 4, start + 4 + ICC_PROFILE_HEADER.length));
+      return header === ICC_PROFILE_HEADER;
+    }
+    return marker === APP0 || marker === APP14;
+  }
+  // Comments
+  return marker !== 0xfe;
+}
+
+/**
+ * Rewrite a JPEG's metadata without re-encoding it: every metadata segment is dropped
+ * (along with anything appended after the image, like embedded secondary images) and
+ * a minimal EXIF block with the given orientation and the capture time takes its place.
+ * Returns null if the file can't be parsed, in which case it has to be redrawn instead.
+ */
+export async function rewriteJpegMetadata(
+  blob: Blob,
+  metadata: ImageMetadata,
+  orientation: number
+): Promise<Blob | null> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== SOI) {
+    return null;
+  }
+
+  const kept: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 2;
+  let scanStart = -1;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      // Fill byte
+      offset++;
+      continue;
+    }
+    if (marker === SOS) {
+      scanStart = offset;
+      break;
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) {
+      return null;
+    }
+    if (isKeptSegment(marker, bytes, offset)) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (scanStart === -1) {
+    return null;
+  }
+
+  // Markers can't appear inside entropy-coded data (0xFF is stuffed as 0xFF00), so the
+  // first EOI after the scan ends the primary image
+  let scanEnd = bytes.length;
+  for (let i = scanStart; i + 1 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === EOI) {
+      scanEnd = i + 2;
+      break;
+    }
+  }
+
+  const parts: BlobPart[] = [bytes.subarray(0, 2)];
+  // JFIF wants to come first; the EXIF block goes right after it
+  if (kept[0]?.[1] === APP0) {
+    parts.push(kept.shift() as Uint8Array<ArrayBuffer>);
+  }
+  const exif = buildExifSegment(metadata, orientation);
+  if (exif) {
+    parts.push(exif);
+  }
+  parts.push(...kept, bytes.subarray(scanStart, scanEnd));
+
+  return new Blob(parts, { type: 'image/jpeg' });
+}
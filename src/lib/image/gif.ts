@@ -0,0 +1,275 @@
+/**
+ * Minimal animated GIF encoder for webcam boomerangs.
+ * One global 256-colour palette (median cut over all frames), no dithering,
+ * LZW-compressed frames, looping forever. Browsers can't encode animated
+ * images natively, and a boomerang only needs a few small frames.
+ */
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+const MIN_CODE_SIZE = 8;
+
+// Colours are bucketed to 5 bits per channel before building the palette
+const BUCKET_BITS = 5;
+const BUCKET_SHIFT = 8 - BUCKET_BITS;
+
+interface ColorBox {
+  buckets: number[];
+}
+
+function bucketChannels(bucket: number): [number, number, number] {
+  return [(bucket >> (2 * BUCKET_BITS)) & 31, (bucket >> BUCKET_BITS) & 31, bucket & 31];
+}
+
+/**
+ * Median cut over a histogram of 15-bit colour buckets.
+ */
+function buildPalette(histogram: Uint32Array): Uint8Array {
+  const used: number[] = [];
+  histogram.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+
+  const boxes: ColorBox[] = [{ buckets: used }];
+  while (boxes.length < MAX_COLORS) {
+    // Split the box covering the widest colour range
+    let widest = -1;
+    let widestRange = 0;
+    let widestChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.buckets.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 31;
+        let max = 0;
+        for (const bucket of box.buckets) {
+          const value = bucketChannels(bucket)[channel];
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        if (max - min > widestRange) {
+          widest = index;
+          widestRange = max - min;
+          widestChannel = channel;
+        }
+      }
+    });
+    if (widest === -1) break;
+
+    const sorted = boxes[widest].buckets.sort(
+      (a, b) => bucketChannels(a)[widestChannel] - bucketChannels(b)[widestChannel]
+    );
+    const total = sorted.reduce((sum, bucket) => sum + histogram[bucket], 0);
+    let seen = 0;
+    let split = 1;
+    for (; split < sorted.length - 1; split++) {
+      seen += histogram[sorted[split - 1]];
+      if (seen >= total / 2) break;
+    }
+    boxes.splice(widest, 1, { buckets: sorted.slice(0, split) }, { buckets: sorted.slice(split) });
+  }
+
+  // Each palette entry is the weighted average of its box
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0, total = 0;
+    for (const bucket of box.buckets) {
+      const count = histogram[bucket];
+      const [br, bg, bb] = bucketChannels(bucket);
+      r += br * count;
+      g += bg * count;
+      b += bb * count;
+      total += count;
+    }
+    const center = (value: number) => Math.min(255, Math.round((value / Math.max(total, 1)) * 8 + 4));
+    palette.set([center(r), center(g), center(b)], index * 3);
+  });
+  return palette;
+}
+
+/**
+ * Map every pixel to its nearest palette entry (cached per colour bucket).
+ */
+function indexFrame(frame: ImageData, palette: Uint8Array, cache: Int16Array): Uint8Array {
+  const { data } = frame;
+  const indexes = new Uint8Array(frame.width * frame.height);
+
+  for (let i = 0; i < indexes.length; i++) {
+    const bucket = ((data[i * 4] >> BUCKET_SHIFT) << (2 * BUCKET_BITS)) |
+      ((data[i * 4 + 1] >> BUCKET_SHIFT) << BUCKET_BITS) |
+      (data[i * 4 + 2] >> BUCKET_SHIFT);
+
+    let index = cache[bucket];
+    if (index === -1) {
+      const [r, g, b] = bucketChannels(bucket).map(value => value * 8 + 4);
+      let best = Infinity;
+      for (let p = 0; p < MAX_COLORS; p++) {
+        const dr = palette[p * 3] - r;
+        const dg = palette[p * 3 + 1] - g;
+        const db = palette[p * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < best) {
+          best = distance;
+          index = p;
+        }
+      }
+      cache[bucket] = index;
+    }
+    indexes[i] = index;
+  }
+  return indexes;
+}
+
+/**
+ * Growable byte buffer.
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(64 * 1024);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  uint16(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * LZW-compress a frame's palette indexes into GIF data sub-blocks.
+ */
+function writeLzw(out: ByteWriter, indexes: Uint8Array): void {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  let block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.array(block);
+        block = [];
+      }
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+
+  let prefix = indexes[0];
+  for (let i = 1; i < indexes.length; i++) {
+    const pixel = indexes[i];
+    const key = (prefix << 8) | pixel;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.array(block);
+  }
+  out.byte(0); // Block terminator
+}
+
+/**
+ * Encode same-sized frames as a looping animated GIF.
+ */
+export function encodeGif(frames: readonly ImageData[], delayMs: number): Blob {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+  const { width, height } = frames[0];
+
+  const histogram = new Uint32Array(1 << (3 * BUCKET_BITS));
+  for (const frame of frames) {
+    const { data } = frame;
+    for (let i = 0; i < data.length; i += 4) {
+      histogram[((data[i] >> BUCKET_SHIFT) << (2 * BUCKET_BITS)) |
+        ((data[i + 1] >> BUCKET_SHIFT) << BUCKET_BITS) |
+        (data[i + 2] >> BUCKET_SHIFT)]++;
+    }
+  }
+  const palette = buildPalette(histogram);
+  const cache = new Int16Array(histogram.length).fill(-1);
+
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.uint16(width);
+  out.uint16(height);
+  out.byte(0xf7); // Global colour table, 256 entries
+  out.byte(0); // Background colour
+  out.byte(0); // Pixel aspect ratio
+  out.array(palette);
+
+  // Loop forever
+  out.array([0x21, 0xff, 0x0b]);
+  out.ascii('NETSCAPE2.0');
+  out.array([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const delay = Math.round(delayMs / 10); // Hundredths of a second
+  for (const frame of frames) {
+    out.array([0x21, 0xf9, 0x04, 0x04]); // Graphic control: keep the previous frame
+    out.uint16(delay);
+    out.array([0x00, 0x00]);
+
+    out.byte(0x2c); // Image descriptor
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(0);
+
+    writeLzw(out, indexFrame(frame, palette, cache));
+  }
+
+  out.byte(0x3b); // Trailer
+  return new Blob([out.result()], { type: 'image/gif' });
+}
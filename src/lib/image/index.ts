@@ -3,7 +3,15 @@ export {
   isHeicFile,
   convertHeicToJpeg,
   resizeForTv,
+  createThumbnail,
+  createPreview,
   processImage,
   formatFileSize,
   type ProcessedImage,
+  type ProcessingProgress,
+  type ProcessingStage,
 } from './process';
+export { readImageMetadata, getTakenAt, type ImageMetadata } from './exif';
+export { grabWebcamFrame, composeStrip, composeBoomerang } from './booth';
+export { fetchImageOverlay, type ImageOverlay } from './overlay';
+export { NO_EDIT, isPhotoEdited } from './edit';
@@ -0,0 +1,84 @@
+/**
+ * Party overlay stamped on photos at capture time: the host's PNG frame,
+ * stretched over the photo, and the party text and date along the bottom.
+ * Drawing only needs a 2D context, so it runs in the worker too.
+ */
+
+import { OVERLAY } from '@/lib/constants';
+import type { PartyOverlay } from '@/types/database';
+import type { DrawOverlay, ImageBackend } from './pipeline';
+
+/**
+ * What the pipeline stamps (the frame is fetched up front, so it can go to the worker).
+ */
+export interface ImageOverlay {
+  frame: Blob | null;
+  /** Text lines from top to bottom; the first is the largest */
+  lines: string[];
+  /** Stamp the original too, not just the TV version */
+  applyToOriginal: boolean;
+}
+
+/**
+ * Fetch the frame and format the text of a party overlay.
+ * Resolves to null when the party has nothing to stamp.
+ */
+export async function fetchImageOverlay(overlay: PartyOverlay): Promise<ImageOverlay | null> {
+  const lines: string[] = [];
+  if (overlay.text) {
+    lines.push(overlay.text);
+  }
+  if (overlay.date) {
+    // Midnight local time, so the date doesn't shift with the timezone
+    lines.push(new Date(`${overlay.date}T00:00:00`).toLocaleDateString(undefined, { dateStyle: 'long' }));
+  }
+
+  let frame: Blob | null = null;
+  if (overlay.frameUrl) {
+    const response = await fetch(overlay.frameUrl);
+    if (!response.ok) {
+      throw new Error('Failed to load the party frame');
+    }
+    frame = await response.blob();
+  }
+
+  if (!frame && lines.length === 0) {
+    return null;
+  }
+  return { frame, lines, applyToOriginal: overlay.applyToOriginal };
+}
+
+/**
+ * Decode the frame once and return a function drawing the overlay at any size.
+ */
+export async function prepareOverlay(
+  backend: ImageBackend,
+  overlay: ImageOverlay
+): Promise<{ draw: DrawOverlay; close: () => void }> {
+  const frame = overlay.frame ? await backend.load(overlay.frame) : null;
+
+  const draw: DrawOverlay = (ctx, width, height) => {
+    if (frame) {
+      ctx.drawImage(frame.source, 0, 0, width, height);
+    }
+
+    const size = Math.round(Math.min(width, height) * OVERLAY.TEXT_SIZE_RATIO);
+    let bottom = height - size;
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = '#ffffff';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.7)';
+    ctx.shadowBlur = size / 4;
+
+    // Bottom-up, so the lines stack above the margin
+    [...overlay.lines].reverse().forEach((line, index, reversed) => {
+      const lineSize = index === reversed.length - 1 ? size : Math.round(size * 0.7);
+      ctx.font = `bold ${lineSize}px sans-serif`;
+      ctx.fillText(line, width / 2, bottom, width - size * 2);
+      bottom -= lineSize * 1.3;
+    });
+  };
+
+  return { draw, close: () => frame?.close?.() };
+}
@@ -0,0 +1,721 @@
+/**
+ * The image optimization pipeline shared by the Web Worker and the main-thread fallback.
+ * Decoding and encoding go through an ImageBackend, so nothing in here touches the DOM.
+ */
+
+import { IMAGE, TV_FORMATS, type TvFormat } from '@/lib/constants';
+import type { PhotoEdit } from '@/types/database';
+import { isPhotoEdited, resolveEdit, type DrawEdit } from './edit';
+import { getTakenAt, rewriteJpegMetadata, type ImageMetadata } from './exif';
+import { prepareOverlay, type ImageOverlay } from './overlay';
+
+// Constants
+const TV_MAX_WIDTH = 1920;
+const TV_MAX_HEIGHT = 1080;
+export const JPEG_QUALITY = 0.90; // High quality for first attempt
+const ORIGINAL_MAX_SIZE = 4096; // 4K quality max
+const MAX_FILE_SIZE = 3 * 1024 * 1024; // 3MB limit (storage optimization)
+
+// Multi-level compression quality settings
+const QUALITY_LEVELS = [
+  { quality: 0.90, label: 'High quality' },
+  { quality: 0.85, label: 'Good quality' },
+  { quality: 0.80, label: 'Standard quality' }
+];
+
+// Resize fallback dimensions
+const RESIZE_LEVELS = [
+  { size: 4096, quality: 0.90, label: '4K' },
+  { size: 3072, quality: 0.85, label: '3K' },
+  { size: 2048, quality: 0.80, label: '2K' }
+];
+
+/**
+ * A decoded image, ready to be drawn.
+ */
+export interface LoadedImage {
+  width: number;
+  height: number;
+  source: CanvasImageSource;
+  /** EXIF orientation the backend applies when drawing (width/height are already upright) */
+  orientation?: number;
+  /** Guest edit the backend applies when drawing (width/height are already edited) */
+  edit?: DrawEdit;
+  /** Free the decoded pixels early (ImageBitmap) */
+  close?: () => void;
+}
+
+/**
+ * Draws on top of an encoded image (the party overlay), in output pixels.
+ */
+export type DrawOverlay = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number
+) => void;
+
+/**
+ * Decoding and encoding, implemented with HTMLImageElement + canvas on the
+ * main thread and with createImageBitmap + OffscreenCanvas in the worker.
+ */
+export interface ImageBackend {
+  /** orientation: EXIF orientation to apply by hand, for decoders that ignore it */
+  load(blob: Blob, orientation?: number): Promise<LoadedImage>;
+  encode(image: LoadedImage, width: number, height: number, type: string, quality: number, overlay?: DrawOverlay): Promise<Blob>;
+  /** Whether encode can produce this type (JPEG always works) */
+  canEncode(type: string): Promise<boolean>;
+}
+
+export type ProcessingStage =
+  | 'converting' | 'metadata' | 'analyzing' | 'compressing' | 'resizing' | 'tv' | 'thumbnail' | 'done';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  /** 0-100 across the whole pipeline */
+  percent: number;
+}
+
+export type ProcessingProgressHandler = (progress: ProcessingProgress) => void;
+
+/**
+ * The file handed to the pipeline, after any HEIC conversion.
+ */
+export interface PipelineInput {
+  blob: Blob;
+  mime: string;
+  ext: string;
+  /** Size of the file the guest picked, before conversion */
+  inputSize: number;
+  /** EXIF read from the file the guest picked (orientation reset for HEIC, which rotates on decode) */
+  metadata: ImageMetadata;
+  /** Whether the decoder already applies EXIF orientation (all current browsers do) */
+  decoderAppliesOrientation: boolean;
+  /** Party overlay to stamp on the TV version (and the original if asked) */
+  overlay?: ImageOverlay;
+  /** Guest edit for the TV version and thumbnail */
+  edit?: PhotoEdit;
+  /** Party limit on the original's longest side, below ORIGINAL_MAX_SIZE */
+  originalMaxSize?: number;
+}
+
+/**
+ * Process an image file for upload with smart optimization.
+ * Returns the original (converted if HEIC), a TV-sized version (or indicates if same file should be used) and a thumbnail.
+ */
+export interface ProcessedImage {
+  original: Blob;
+  originalMime: string;
+  originalExt: string;
+  tv: Blob | null; // null if should use original
+  tvMime: string;
+  tvExt: string;
+  useSameForTv: boolean; // true if TV should use original file
+  tvJpeg: Blob | null; // JPEG copy of an AVIF/WebP TV version, for TVs that can't decode it
+  thumb: Blob; // Small JPEG for grids and the remote
+  takenAt: string | null; // Capture time from EXIF (ISO), if the camera recorded one
+  edit: PhotoEdit | null; // Guest edit applied to the TV version and thumbnail
+  analysis: {
+    originalProcessed: boolean;
+    tvAnalysis: {
+      shouldCreateSeparate: boolean;
+      expectedSavings: number;
+      resolutionReduction: number;
+      reason: string;
+    };
+    formatOptimization?: {
+      sizeDifference: number;
+      compressionRatio: number;
+    };
+  };
+}
+
+/**
+ * Get file size in human-readable format.
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Get dimensions of an image blob.
+ */
+async function getImageDimensions(backend: ImageBackend, blob: Blob): Promise<{ width: number; height: number }> {
+  const img = await backend.load(blob);
+  img.close?.();
+  return { width: img.width, height: img.height };
+}
+
+/**
+ * Resize an image to fit within specified dimensions.
+ * Returns a JPEG blob unless another type is given.
+ */
+export async function resizeImage(
+  backend: ImageBackend,
+  blob: Blob,
+  maxWidth: number,
+  maxHeight: number,
+  quality: number,
+  type: string = 'image/jpeg',
+  overlay?: DrawOverlay
+): Promise<Blob> {
+  const img = await backend.load(blob);
+
+  // Calculate scaling factor to fit within dimensions
+  const scaleX = maxWidth / img.width;
+  const scaleY = maxHeight / img.height;
+  const scale = Math.min(scaleX, scaleY, 1); // Don't upscale
+
+  const width = Math.round(img.width * scale);
+  const height = Math.round(img.height * scale);
+
+  try {
+    return await backend.encode(img, width, height, type, quality, overlay);
+  } finally {
+    img.close?.();
+  }
+}
+
+// Last in TV_FORMATS, and encodable everywhere
+const JPEG_TV_FORMAT = TV_FORMATS[TV_FORMATS.length - 1];
+
+/**
+ * The best TV format the backend can encode (AVIF, then WebP, then JPEG).
+ */
+export async function pickTvFormat(backend: ImageBackend): Promise<TvFormat> {
+  for (const format of TV_FORMATS) {
+    if (format === JPEG_TV_FORMAT || await backend.canEncode(format.mime)) {
+      return format;
+    }
+  }
+  return JPEG_TV_FORMAT;
+}
+
+/**
+ * Resize an image to fit within TV dimensions (1920x1080).
+ * Returns a blob in the given TV format (JPEG by default).
+ */
+export async function resizeForTvWith(
+  backend: ImageBackend,
+  blob: Blob,
+  format: TvFormat = JPEG_TV_FORMAT,
+  overlay?: DrawOverlay
+): Promise<Blob> {
+  return resizeImage(backend, blob, TV_MAX_WIDTH, TV_MAX_HEIGHT, format.quality, format.mime, overlay);
+}
+
+/**
+ * Resize an image to thumbnail size (400px).
+ * Always JPEG, so every grid and remote can show it.
+ */
+export async function createThumbnailWith(backend: ImageBackend, blob: Blob): Promise<Blob> {
+  return resizeImage(backend, blob, IMAGE.THUMB_MAX_SIZE, IMAGE.THUMB_MAX_SIZE, IMAGE.THUMB_QUALITY);
+}
+
+/**
+ * Analyze if creating a separate TV version is beneficial.
+ * Returns analysis of potential savings and efficiency.
+ */
+async function analyzeTvVersionBenefit(backend: ImageBackend, originalBlob: Blob): Promise<{
+  shouldCreateSeparate: boolean;
+  expectedSavings: number;
+  resolutionReduction: number;
+  reason: string;
+}> {
+  const img = await getImageDimensions(backend, originalBlob);
+
+  // Calculate what TV dimensions would be
+  const scaleX = TV_MAX_WIDTH / img.width;
+  const scaleY = TV_MAX_HEIGHT / img.height;
+  const scale = Math.min(scaleX, scaleY, 1);
+
+  const tvWidth = Math.round(img.width * scale);
+  const tvHeight = Math.round(img.height * scale);
+  const resolutionReduction = ((img.width * img.height) - (tvWidth * tvHeight)) / (img.width * img.height);
+
+  // Case 1: Already TV-sized or smaller
+  if (img.width <= TV_MAX_WIDTH && img.height <= TV_MAX_HEIGHT) {
+    // Still create separate if file is large (>1.5MB) - compression might help
+    if (originalBlob.size <= 1.5 * 1024 * 1024) {
+      return {
+        shouldCreateSeparate: false,
+        expectedSavings: 0,
+        resolutionReduction,
+        reason: 'Already TV-sized and file small enough (<1.5MB)'
+      };
+    }
+
+    // Try compression estimation for large files at TV size
+    const expectedCompressedSize = originalBlob.size * 0.6; // Estimate 40% compression
+    if (expectedCompressedSize > originalBlob.size * 0.8) {
+      return {
+        shouldCreateSeparate: false,
+        expectedSavings: 0,
+        resolutionReduction,
+        reason: 'Compression wouldn\'t provide significant savings'
+      };
+    }
+  }
+
+  // Case 2: Minimal resolution reduction and small file
+  if (resolutionReduction < 0.2 && originalBlob.size < 2 * 1024 * 1024) {
+    return {
+      shouldCreateSeparate: false,
+      expectedSavings: 0,
+      resolutionReduction,
+      reason: 'Minimal resolution reduction (<20%) and file already small (<2MB)'
+    };
+  }
+
+  // Estimate potential file size savings
+  const estimatedSizeReduction = resolutionReduction * 0.8; // Conservative estimate
+  const expectedSavings = originalBlob.size * estimatedSizeReduction;
+
+  // Case 3: Expected savings too small to justify
+  if (expectedSavings < 300 * 1024) { // Less than 300KB savings
+    return {
+      shouldCreateSeparate: false,
+      expectedSavings,
+      resolutionReduction,
+      reason: 'Expected savings too small (<300KB)'
+    };
+  }
+
+  // Worth creating separate TV version
+  return {
+    shouldCreateSeparate: true,
+    expectedSavings,
+    resolutionReduction,
+    reason: `Significant savings expected: ${(expectedSavings / (1024 * 1024)).toFixed(1)}MB`
+  };
+}
+
+/**
+ * Try format optimization (compression) without resizing.
+ */
+async function tryFormatOptimization(backend: ImageBackend, blob: Blob, targetQuality: number): Promise<{
+  optimizedBlob: Blob;
+  sizeDifference: number;
+  compressionRatio: number;
+}> {
+  const img = await backend.load(blob);
+
+  let optimized: Blob;
+  try {
+    optimized = await backend.encode(img, img.width, img.height, 'image/jpeg', targetQuality);
+  } finally {
+    img.close?.();
+  }
+
+  return {
+    optimizedBlob: optimized,
+    sizeDifference: blob.size - optimized.size,
+    compressionRatio: optimized.size / blob.size
+  };
+}
+
+/**
+ * Try multiple quality levels for compression without resizing.
+ * Returns the best quality that fits under MAX_FILE_SIZE.
+ */
+async function tryMultiLevelCompression(
+  backend: ImageBackend,
+  blob: Blob,
+  onProgress?: ProcessingProgressHandler
+): Promise<{
+  success: boolean;
+  optimizedBlob: Blob | null;
+  qualityUsed?: number;
+  label?: string;
+  sizeDifference?: number;
+}> {
+  console.log('🔄 Trying multi-level compression...');
+
+  for (const [index, level] of QUALITY_LEVELS.entries()) {
+    onProgress?.({ stage: 'compressing', percent: 30 + (index / QUALITY_LEVELS.length) * 25 });
+    try {
+      const result = await tryFormatOptimization(backend, blob, level.quality);
+
+      console.log(`  • ${level.label} (${level.quality}): ${formatFileSize(result.optimizedBlob.size)}`);
+
+      if (result.optimizedBlob.size <= MAX_FILE_SIZE) {
+        console.log(`✅ Success with ${level.label}!`);
+        return {
+          success: true,
+          optimizedBlob: result.optimizedBlob,
+          qualityUsed: level.quality,
+          label: level.label,
+          sizeDifference: result.sizeDifference
+        };
+      }
+    } catch (err) {
+      console.warn(`  ⚠️ ${level.label} failed:`, err);
+    }
+  }
+
+  console.log('❌ All compression levels failed');
+  return { success: false, optimizedBlob: null };
+}
+
+/**
+ * Try multiple resize levels if compression alone isn't enough.
+ */
+async function tryMultiLevelResize(
+  backend: ImageBackend,
+  blob: Blob,
+  onProgress?: ProcessingProgressHandler
+): Promise<{
+  success: boolean;
+  resizedBlob: Blob | null;
+  sizeUsed?: number;
+  qualityUsed?: number;
+  label?: string;
+}> {
+  console.log('📏 Trying multi-level resize...');
+
+  for (const [index, level] of RESIZE_LEVELS.entries()) {
+    onProgress?.({ stage: 'resizing', percent: 55 + (index / RESIZE_LEVELS.length) * 25 });
+    try {
+      const resized = await resizeImage(backend, blob, level.size, level.size, level.quality);
+
+      console.log(`  • ${level.label} (${level.size}px @ ${level.quality}): ${formatFileSize(resized.size)}`);
+
+      if (resized.size <= MAX_FILE_SIZE) {
+        console.log(`✅ Success with ${level.label}!`);
+        return {
+          success: true,
+          resizedBlob: resized,
+          sizeUsed: level.size,
+          qualityUsed: level.quality,
+          label: level.label
+        };
+      }
+    } catch (err) {
+      console.warn(`  ⚠️ ${level.label} failed:`, err);
+    }
+  }
+
+  console.log('❌ All resize levels failed');
+  return { success: false, resizedBlob: null };
+}
+
+/**
+ * Stamp the party overlay on the original. Stamping re-encodes it, so this tries the
+ * quality levels and then the smaller sizes until the result fits under MAX_FILE_SIZE.
+ * Returns null if none does.
+ */
+async function stampOverlayWithinLimit(
+  backend: ImageBackend,
+  blob: Blob,
+  maxSize: number,
+  overlay: DrawOverlay
+): Promise<{ blob: Blob; label: string } | null> {
+  const attempts = [
+    ...QUALITY_LEVELS.map(level => ({ size: maxSize, quality: level.quality, label: level.label })),
+    ...RESIZE_LEVELS.filter(level => level.size < maxSize),
+  ];
+
+  for (const attempt of attempts) {
+    const stamped = await resizeImage(backend, blob, attempt.size, attempt.size, attempt.quality, 'image/jpeg', overlay);
+    console.log(`  • ${attempt.label}: ${formatFileSize(stamped.size)}`);
+    if (stamped.size <= MAX_FILE_SIZE) {
+      return { blob: stamped, label: attempt.label };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply an EXIF orientation by hand when loading one particular blob.
+ */
+function withOrientation(backend: ImageBackend, blob: Blob, orientation: number): ImageBackend {
+  if (orientation === 1) {
+    return backend;
+  }
+  return {
+    load: (loaded) => backend.load(loaded, loaded === blob ? orientation : 1),
+    encode: (image, width, height, type, quality, overlay) => backend.encode(image, width, height, type, quality, overlay),
+    canEncode: (type) => backend.canEncode(type),
+  };
+}
+
+/**
+ * Apply the guest's edit when loading one particular blob.
+ */
+export function withEdit(backend: ImageBackend, blob: Blob, edit: PhotoEdit): ImageBackend {
+  return {
+    load: async (loaded) => {
+      const image = await backend.load(loaded);
+      return loaded === blob ? { ...image, ...resolveEdit(edit, image.width, image.height) } : image;
+    },
+    encode: (image, width, height, type, quality, overlay) => backend.encode(image, width, height, type, quality, overlay),
+    canEncode: (type) => backend.canEncode(type),
+  };
+}
+
+/**
+ * Strip the metadata, shrink the original to the storage limits and decide on a
+ * separate TV version.
+ */
+export async function runPipeline(
+  input: PipelineInput,
+  backend: ImageBackend,
+  onProgress?: ProcessingProgressHandler
+): Promise<ProcessedImage> {
+  const { metadata } = input;
+
+  let originalMime = input.mime;
+  let originalExt = input.ext;
+
+  let originalProcessed = false;
+  let formatOptimization: { sizeDifference: number; compressionRatio: number } | undefined;
+  let compressionStrategy = 'none';
+
+  // Step 1: Metadata policy - keep the orientation and capture time, drop everything else
+  onProgress?.({ stage: 'metadata', percent: 10 });
+  let cleaned: Blob | null = input.blob;
+  if (input.mime === 'image/jpeg') {
+    cleaned = await rewriteJpegMetadata(input.blob, metadata, metadata.orientation);
+  } else if (metadata.hasExif) {
+    // No lossless rewrite for other formats; redrawing drops the EXIF
+    cleaned = null;
+  }
+  console.log(`🧹 Metadata: orientation ${metadata.orientation}, taken ${metadata.dateTimeOriginal ?? 'unknown'}, ${
+    cleaned ? 'stripped losslessly' : 'redrawing to strip'
+  }`);
+
+  // Decoders that ignore EXIF orientation get it applied by hand for the file still carrying the tag
+  const source = cleaned ?? input.blob;
+  const images = withOrientation(backend, source, input.decoderAppliesOrientation ? 1 : metadata.orientation);
+
+  onProgress?.({ stage: 'analyzing', percent: 20 });
+
+  const originalDims = await getImageDimensions(images, source);
+  const originalFileSize = input.inputSize;
+  console.log(`   Resolution: ${originalDims.width}x${originalDims.height}`);
+
+  const originalMaxSize = Math.min(input.originalMaxSize ?? ORIGINAL_MAX_SIZE, ORIGINAL_MAX_SIZE);
+  let withinMaxSize = originalDims.width <= originalMaxSize && originalDims.height <= originalMaxSize;
+
+  let originalBlob = source;
+  if (!cleaned) {
+    originalBlob = await resizeImage(images, source, originalMaxSize, originalMaxSize, JPEG_QUALITY);
+    originalMime = 'image/jpeg';
+    originalExt = 'jpg';
+    originalProcessed = true;
+    withinMaxSize = true;
+    compressionStrategy = 'metadata-redraw';
+  } else if (!withinMaxSize && originalMaxSize < ORIGINAL_MAX_SIZE) {
+    // The party caps the resolution; shrink first so the size checks below see the smaller file
+    onProgress?.({ stage: 'resizing', percent: 30 });
+    console.log(`📏 Party limit of ${originalMaxSize}px, resizing ${originalDims.width}x${originalDims.height}...`);
+    originalBlob = await resizeImage(images, source, originalMaxSize, originalMaxSize, JPEG_QUALITY);
+    originalMime = 'image/jpeg';
+    originalExt = 'jpg';
+    originalProcessed = true;
+    withinMaxSize = true;
+    compressionStrategy = 'resize-party-limit';
+  }
+
+  // Step 2: Check if image is too large
+  if (originalBlob.size > MAX_FILE_SIZE) {
+    console.log(`⚠️ Image too large: ${formatFileSize(originalBlob.size)} > ${formatFileSize(MAX_FILE_SIZE)}`);
+
+    // Strategy 1: Try multi-level compression without resizing (preserves original dimensions)
+    const compressionResult = await tryMultiLevelCompression(images, originalBlob, onProgress);
+
+    if (compressionResult.success && compressionResult.optimizedBlob) {
+      originalBlob = compressionResult.optimizedBlob;
+      originalMime = 'image/jpeg';
+      originalExt = 'jpg';
+      originalProcessed = true;
+      compressionStrategy = `compression-${compressionResult.label}`;
+      formatOptimization = {
+        sizeDifference: compressionResult.sizeDifference || 0,
+        compressionRatio: compressionResult.optimizedBlob.size / input.inputSize
+      };
+      console.log(`✅ Compression succeeded, kept original dimensions`);
+    } else {
+      // Strategy 2: Compression failed, try multi-level resize
+      console.log('⚠️ Compression insufficient, trying resize...');
+      const resizeResult = await tryMultiLevelResize(images, originalBlob, onProgress);
+
+      if (resizeResult.success && resizeResult.resizedBlob) {
+        originalBlob = resizeResult.resizedBlob;
+        originalMime = 'image/jpeg';
+        originalExt = 'jpg';
+        originalProcessed = true;
+        compressionStrategy = `resize-${resizeResult.label}`;
+        console.log(`✅ Resize succeeded with ${resizeResult.label}`);
+      } else {
+        // Strategy 3: Everything failed, throw error
+        throw new Error(
+          `Image too large after all optimization attempts (${formatFileSize(originalBlob.size)}). ` +
+          `Maximum size is ${formatFileSize(MAX_FILE_SIZE)}. Please try a smaller image.`
+        );
+      }
+    }
+  } else {
+    // Check if dimensions need adjustment (even if size is OK)
+    if (!withinMaxSize) {
+      onProgress?.({ stage: 'resizing', percent: 40 });
+      console.log(`📏 Dimensions too large (${originalDims.width}x${originalDims.height}), resizing to ${ORIGINAL_MAX_SIZE}px...`);
+      originalBlob = await resizeImage(images, originalBlob, ORIGINAL_MAX_SIZE, ORIGINAL_MAX_SIZE, JPEG_QUALITY);
+      originalMime = 'image/jpeg';
+      originalExt = 'jpg';
+      originalProcessed = true;
+      compressionStrategy = 'resize-dimensions';
+    } else {
+      console.log(`✅ Image size OK: ${formatFileSize(originalBlob.size)}`);
+    }
+  }
+
+  // Party overlay: on the original when the host asks, otherwise on a TV version of its own
+  const overlay = input.overlay ? await prepareOverlay(backend, input.overlay) : null;
+  const overlayOnOriginal = !!overlay && !!input.overlay?.applyToOriginal;
+  const unstampedBlob = originalBlob;
+  if (overlay && overlayOnOriginal) {
+    console.log('🖼️ Stamping the party overlay on the original...');
+    const stamped = await stampOverlayWithinLimit(images, originalBlob, originalMaxSize, overlay.draw);
+    if (!stamped) {
+      throw new Error(
+        `Image too large with the party overlay. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}. Please try a smaller image.`
+      );
+    }
+    originalBlob = stamped.blob;
+    originalMime = 'image/jpeg';
+    originalExt = 'jpg';
+    originalProcessed = true;
+    compressionStrategy = `${compressionStrategy}+overlay-${stamped.label}`;
+  }
+
+  // Guest edits go on the TV version and thumbnail; the original stays as taken.
+  // An edited TV version is cut from the unstamped original and gets the overlay last,
+  // so the frame isn't cropped or rotated with the photo.
+  const edit = isPhotoEdited(input.edit) ? input.edit : null;
+  const tvSource = edit ? unstampedBlob : originalBlob;
+  const tvImages = edit ? withEdit(images, tvSource, edit) : images;
+  const tvOverlay = overlay && (!overlayOnOriginal || edit) ? overlay.draw : undefined;
+  if (edit) {
+    console.log(`✂️ Edit: ${edit.aspect} crop, ${edit.rotation}° rotation, ${edit.filter} filter`);
+  }
+
+  // Step 3: Analyze TV version benefit
+  onProgress?.({ stage: 'tv', percent: 80 });
+  console.log('📺 Analyzing TV version benefit...');
+  let tvAnalysis = await analyzeTvVersionBenefit(images, originalBlob);
+  if (edit) {
+    tvAnalysis = { ...tvAnalysis, shouldCreateSeparate: true, reason: 'Edited photo gets a TV version of its own' };
+  } else if (tvOverlay) {
+    tvAnalysis = { ...tvAnalysis, shouldCreateSeparate: true, reason: 'Party overlay goes on the TV version only' };
+  }
+
+  console.log(`📺 TV analysis: ${tvAnalysis.reason}`);
+
+  let tvBlob: Blob | null = null;
+  let tvJpegBlob: Blob | null = null;
+  let tvMime = originalMime;
+  let tvExt = originalExt;
+  let useSameForTv = true;
+
+  if (tvAnalysis.shouldCreateSeparate) {
+    const tvFormat = await pickTvFormat(images);
+    console.log(`📺 Creating separate TV version (${tvFormat.ext})...`);
+    tvBlob = await resizeForTvWith(tvImages, tvSource, tvFormat, tvOverlay);
+    tvMime = tvFormat.mime;
+    tvExt = tvFormat.ext;
+    useSameForTv = false;
+    console.log(`📺 TV version created: ${formatFileSize(tvBlob.size)} (${formatFileSize(tvAnalysis.expectedSavings)} saved)`);
+
+    // Older TV browsers can't decode AVIF or WebP; they get this copy instead of the original
+    if (tvFormat !== JPEG_TV_FORMAT) {
+      tvJpegBlob = await resizeForTvWith(tvImages, tvSource, JPEG_TV_FORMAT, tvOverlay);
+      console.log(`📺 JPEG copy of the TV version created: ${formatFileSize(tvJpegBlob.size)}`);
+    }
+  } else {
+    console.log('📺 Using original as TV version (no separate file needed)');
+  }
+
+  // Step 4: Thumbnail for grids and the remote
+  onProgress?.({ stage: 'thumbnail', percent: 90 });
+  // Made from the TV version when only that one carries the edit or overlay
+  const thumbBlob = await createThumbnailWith(images, (edit || tvOverlay) && tvBlob ? tvBlob : originalBlob);
+  console.log(`🖼️ Thumbnail created: ${formatFileSize(thumbBlob.size)}`);
+  overlay?.close();
+
+  // Redrawn versions come out upright and without metadata; put the capture time back
+  if (originalBlob !== cleaned && originalMime === 'image/jpeg') {
+    originalBlob = await rewriteJpegMetadata(originalBlob, metadata, 1) ?? originalBlob;
+  }
+
+  // Log final upload details
+  const finalOriginalDims = await getImageDimensions(images, originalBlob);
+  console.log(`\n📤 UPLOADING HIGH QUALITY VERSION:`);
+  console.log(`   Resolution: ${finalOriginalDims.width}x${finalOriginalDims.height}`);
+  console.log(`   Size: ${formatFileSize(originalBlob.size)}`);
+  console.log(`   Processed: ${originalProcessed ? 'Yes' : 'No'} (${compressionStrategy})`);
+
+  // Log HQ processing impact if any processing happened
+  if (originalProcessed) {
+    const spaceSaved = originalFileSize - originalBlob.size;
+    const resolutionChanged = originalDims.width !== finalOriginalDims.width || originalDims.height !== finalOriginalDims.height;
+
+    console.log(`\n💾 HQ PROCESSING IMPACT:`);
+    console.log(`   Space saved: ${formatFileSize(spaceSaved)} (${((spaceSaved / originalFileSize) * 100).toFixed(1)}%)`);
+    if (resolutionChanged) {
+      const originalPixels = originalDims.width * originalDims.height;
+      const finalPixels = finalOriginalDims.width * finalOriginalDims.height;
+      const resolutionLoss = ((originalPixels - finalPixels) / originalPixels) * 100;
+      console.log(`   Resolution: ${originalDims.width}x${originalDims.height} → ${finalOriginalDims.width}x${finalOriginalDims.height} (${resolutionLoss.toFixed(1)}% reduction)`);
+    } else {
+      console.log(`   Resolution: Preserved (${finalOriginalDims.width}x${finalOriginalDims.height})`);
+    }
+  }
+
+  if (tvBlob) {
+    const tvDims = await getImageDimensions(images, tvBlob);
+    console.log(`\n📤 UPLOADING TV VERSION:`);
+    console.log(`   Resolution: ${tvDims.width}x${tvDims.height}`);
+    console.log(`   Size: ${formatFileSize(tvBlob.size)}`);
+  } else {
+    console.log(`\n📤 TV VERSION: Using high quality version (same file)`);
+  }
+
+  const result = {
+    original: originalBlob,
+    originalMime,
+    originalExt,
+    tv: tvBlob,
+    tvMime,
+    tvExt,
+    useSameForTv,
+    tvJpeg: tvJpegBlob,
+    thumb: thumbBlob,
+    takenAt: getTakenAt(metadata),
+    edit,
+    analysis: {
+      originalProcessed,
+      tvAnalysis,
+      formatOptimization,
+      compressionStrategy
+    }
+  };
+
+  console.log('🎉 Image processing complete:', {
+    strategy: compressionStrategy,
+    original: formatFileSize(result.original.size),
+    tv: tvBlob ? formatFileSize(tvBlob.size) : 'Using original',
+    thumb: formatFileSize(thumbBlob.size),
+    storageSaved: useSameForTv && tvAnalysis.expectedSavings > 0 ? formatFileSize(tvAnalysis.expectedSavings) : '0B'
+  });
+
+  // Final safety check (should not reach here with new logic, but just in case)
+  if (result.original.size > MAX_FILE_SIZE) {
+    throw new Error(`Image too large after processing (${formatFileSize(result.original.size)}). Maximum size is ${formatFileSize(MAX_FILE_SIZE)}. Please try a smaller image.`);
+  }
+
+  onProgress?.({ stage: 'done', percent: 100 });
+  return result;
+}
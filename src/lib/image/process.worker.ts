@@ -0,0 +1,39 @@
+/**
+ * Web Worker running the image pipeline off the main thread,
+ * with createImageBitmap + OffscreenCanvas.
+ * Started by processImage, one worker per photo.
+ */
+
+import { bitmapBackend, supportsBitmapBackend } from './backends';
+import { runPipeline, type PipelineInput, type ProcessedImage, type ProcessingProgress } from './pipeline';
+
+export type ProcessWorkerRequest = PipelineInput;
+
+export type ProcessWorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'done'; result: ProcessedImage }
+  | { type: 'error'; message: string }
+  /** The worker can't decode/encode here; process on the main thread instead */
+  | { type: 'unsupported' };
+
+// The project compiles against the DOM lib, so describe the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ProcessWorkerRequest>) => void) | null;
+  postMessage: (message: ProcessWorkerResponse) => void;
+};
+
+scope.onmessage = async (event) => {
+  if (!supportsBitmapBackend()) {
+    scope.postMessage({ type: 'unsupported' });
+    return;
+  }
+
+  try {
+    const result = await runPipeline(event.data, bitmapBackend, (progress) => {
+      scope.postMessage({ type: 'progress', progress });
+    });
+    scope.postMessage({ type: 'done', result });
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : 'Failed to process image' });
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * Join tokens: the secret in a party's QR codes. A party can have several, each
+ * named after where it's used, with an optional expiry, join limit and revocation.
+ * /api/join checks them and counts joins; hosts manage them under /api/parties/[id]/tokens.
+ */
+
+import type { Database } from '@/types/supabase';
+import type { JoinTokenInfo, JoinTokenStatus } from '@/types/database';
+
+type JoinTokenRow = Database['public']['Tables']['party_join_tokens']['Row'];
+
+/** Everything but the token itself */
+export const JOIN_TOKEN_COLUMNS = 'id, label, expires_at, max_joins, join_count, revoked_at, created_at';
+
+export const JOIN_TOKEN_LABEL_MAX_LENGTH = 50;
+
+/** Label of the token created with the party */
+export const DEFAULT_JOIN_TOKEN_LABEL = 'QR code';
+
+/** Why a guest can't join with a token, by status */
+export const JOIN_TOKEN_ERRORS: Record<Exclude<JoinTokenStatus, 'active'>, { code: string; error: string }> = {
+  expired: { code: 'TOKEN_EXPIRED', error: 'This QR code has expired. Please ask the host for a new one.' },
+  exhausted: { code: 'TOKEN_EXHAUSTED', error: 'This QR code has been used too many times. Please ask the host for a new one.' },
+  revoked: { code: 'TOKEN_REVOKED', error: 'This QR code is no longer valid. Please ask the host for a new one.' },
+};
+
+export function getJoinTokenStatus(
+  token: Pick<JoinTokenRow, 'expires_at' | 'max_joins' | 'join_count' | 'revoked_at'>,
+  now: Date = new Date()
+): JoinTokenStatus {
+  if (token.revoked_at) return 'revoked';
+  if (token.expires_at && new Date(token.expires_at) <= now) return 'expired';
+  if (token.max_joins !== null && token.join_count >= token.max_joins) return 'exhausted';
+  return 'active';
+}
+
+export function toJoinTokenInfo(token: Omit<JoinTokenRow, 'party_id' | 'token'>): JoinTokenInfo {
+  return {
+    id: token.id,
+    label: token.label,
+    status: getJoinTokenStatus(token),
+    expiresAt: token.expires_at,
+    maxJoins: token.max_joins,
+    joinCount: token.join_count,
+    revokedAt: token.revoked_at,
+    createdAt: token.created_at,
+  };
+}
+
+export type JoinTokenSettings = Partial<
+  Pick<Database['public']['Tables']['party_join_tokens']['Update'], 'label' | 'expires_at' | 'max_joins'>
+>;
+
+/**
+ * Validate the label, expiresAt and maxJoins a host sent (each optional; null clears
+ * the expiry or limit) into the columns to set.
+ */
+export function parseJoinTokenSettings(
+  body: Record<string, unknown>
+): { ok: true; settings: JoinTokenSettings } | { ok: false; error: string } {
+  const settings: JoinTokenSettings = {};
+
+  if (body.label !== undefined) {
+    const label = typeof body.label === 'string' ? body.label.trim() : '';
+    if (!label || label.length > JOIN_TOKEN_LABEL_MAX_LENGTH) {
+      return { ok: false, error: `Name must be 1 to ${JOIN_TOKEN_LABEL_MAX_LENGTH} characters` };
+    }
+    settings.label = label;
+  }
+
+  if (body.expiresAt !== undefined) {
+    if (body.expiresAt !== null) {
+      const expiresAt = typeof body.expiresAt === 'string' ? new Date(body.expiresAt) : null;
+      if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+        return { ok: false, error: 'Invalid expiry date' };
+      }
+      if (expiresAt <= new Date()) {
+        return { ok: false, error: 'Expiry must be in the future' };
+      }
+      settings.expires_at = expiresAt.toISOString();
+    } else {
+      settings.expires_at = null;
+    }
+  }
+
+  if (body.maxJoins !== undefined) {
+    if (body.maxJoins !== null && !(typeof body.maxJoins === 'number' && Number.isSafeInteger(body.maxJoins) && body.maxJoins > 0)) {
+      return { ok: false, error: 'Join limit must be a positive whole number' };
+    }
+    settings.max_joins = body.maxJoins;
+  }
+
+  return { ok: true, settings };
+}
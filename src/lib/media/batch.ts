@@ -0,0 +1,42 @@
+/**
+ * Processing for several photos and clips picked at once.
+ */
+
+import { IMAGE } from '@/lib/constants';
+import { runPool } from '@/lib/utils/pool';
+import type { ImageOverlay, ProcessingProgress } from '@/lib/image';
+import { processMedia, type ProcessedMedia } from './process';
+import type { MediaSelection } from './live-photo';
+
+interface ProcessMediaBatchOptions {
+  concurrency?: number;
+  overlay?: ImageOverlay | null;
+  /** Party limit on a photo original's longest side */
+  maxOriginalSize?: number | null;
+  /** Progress of each file while it is being processed */
+  onProgress?: (index: number, progress: ProcessingProgress) => void;
+}
+
+/**
+ * Process files a few at a time (full-size decodes are memory hungry on phones).
+ * onProcessed runs as soon as each file is ready, in completion order.
+ * Returns the indexes of the files that failed, with their errors.
+ */
+export async function processMediaBatch(
+  selections: readonly MediaSelection[],
+  onProcessed: (index: number, processed: ProcessedMedia) => Promise<void> | void,
+  { concurrency = IMAGE.PROCESSING_CONCURRENCY, overlay, maxOriginalSize, onProgress }: ProcessMediaBatchOptions = {}
+): Promise<{ index: number; error: unknown }[]> {
+  const results = await runPool(selections, concurrency, async (selection, index) => {
+    const processed = await processMedia(selection, {
+      overlay,
+      maxOriginalSize,
+      onProgress: onProgress && ((progress) => onProgress(index, progress)),
+    });
+    await onProcessed(index, processed);
+  });
+
+  return results.flatMap((result, index) => (
+    result.status === 'rejected' ? [{ index, error: result.reason }] : []
+  ));
+}
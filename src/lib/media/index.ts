@@ -0,0 +1,5 @@
+// Photo and clip processing
+export { isMediaFile, processMedia, type ProcessedMedia } from './process';
+export { processMediaBatch } from './batch';
+export { isVideoFile, processVideo, type ProcessedVideo } from './video';
+export { pairLivePhotos, type MediaSelection } from './live-photo';
@@ -0,0 +1,43 @@
+/**
+ * Live Photo pairing.
+ * A Live Photo shared as files is a still and a short clip with the same name
+ * (IMG_1234.HEIC + IMG_1234.MOV); it is uploaded as one clip with the still as its poster.
+ */
+
+import { isVideoFile } from './video';
+
+export interface MediaSelection {
+  file: File;
+  /** Live Photo still paired with a clip */
+  still?: File;
+}
+
+function baseName(file: File): string {
+  return file.name.replace(/\.[^.]*$/, '').toLowerCase();
+}
+
+/**
+ * Turn picked files into selections, folding Live Photo stills into their clips.
+ * Keeps the order of the picked files.
+ */
+export function pairLivePhotos(files: readonly File[]): MediaSelection[] {
+  const stills = new Map<string, File>();
+  for (const file of files) {
+    if (!isVideoFile(file)) stills.set(baseName(file), file);
+  }
+
+  const paired = new Set<File>();
+  const clips = new Map<File, File | undefined>();
+  for (const file of files) {
+    if (!isVideoFile(file)) continue;
+    const still = stills.get(baseName(file));
+    if (still && !paired.has(still)) {
+      paired.add(still);
+      clips.set(file, still);
+    }
+  }
+
+  return files
+    .filter(file => !paired.has(file))
+    .map(file => (clips.has(file) ? { file, still: clips.get(file) } : { file }));
+}
@@ -0,0 +1,104 @@
+/**
+ * Minimal MP4/QuickTime (ISO-BMFF) metadata handling for clips.
+ * Phones write the location into moov/udta and moov/meta; those boxes are renamed
+ * to 'free' so players skip them, which keeps every offset in the file valid.
+ */
+
+// Seconds between the QuickTime epoch (1904) and the Unix epoch
+const QUICKTIME_EPOCH_OFFSET_S = 2082844800;
+
+// Anything earlier is an unset camera clock
+const MIN_VALID_YEAR = 1990;
+
+const STRIPPED_BOXES = ['udta', 'meta'];
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function readType(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * List the boxes between start and end. Returns null if they don't parse.
+ */
+function readBoxes(view: DataView, start: number, end: number): Box[] | null {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return null;
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+
+    if (size < headerSize || offset + size > end) return null;
+    boxes.push({ type: readType(view, offset + 4), start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Creation time from the movie header (ISO), or null if unset.
+ */
+function readCreationTime(view: DataView, mvhd: Box): string | null {
+  const body = mvhd.start + mvhd.headerSize;
+  if (body + 12 > mvhd.end) return null;
+
+  const version = view.getUint8(body);
+  const seconds = version === 1 ? Number(view.getBigUint64(body + 4)) : view.getUint32(body + 4);
+  const date = new Date((seconds - QUICKTIME_EPOCH_OFFSET_S) * 1000);
+
+  return date.getUTCFullYear() >= MIN_VALID_YEAR ? date.toISOString() : null;
+}
+
+/**
+ * Drop the location and other user metadata from an MP4/MOV clip and read its
+ * creation time. Returns null for files that aren't ISO-BMFF (WebM).
+ */
+export async function rewriteClipMetadata(blob: Blob): Promise<{ blob: Blob; createdAt: string | null } | null> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  const boxes = readBoxes(view, 0, bytes.length);
+  if (!boxes || boxes[0]?.type !== 'ftyp') {
+    return null;
+  }
+
+  const moov = boxes.find(box => box.type === 'moov');
+  if (!moov) {
+    return null;
+  }
+
+  const children = readBoxes(view, moov.start + moov.headerSize, moov.end);
+  if (!children) {
+    return null;
+  }
+
+  let stripped = 0;
+  for (const child of children) {
+    if (STRIPPED_BOXES.includes(child.type)) {
+      bytes.set([0x66, 0x72, 0x65, 0x65], child.start + 4); // 'free'
+      stripped++;
+    }
+  }
+
+  const mvhd = children.find(child => child.type === 'mvhd');
+  const createdAt = mvhd ? readCreationTime(view, mvhd) : null;
+  console.log(`🧹 Clip metadata: ${stripped} box(es) stripped, created ${createdAt ?? 'unknown'}`);
+
+  return { blob: new Blob([bytes], { type: blob.type }), createdAt };
+}
@@ -0,0 +1,37 @@
+/**
+ * Processing for anything a guest can share: photos and clips.
+ */
+
+import { processImage, type ImageOverlay, type ProcessedImage, type ProcessingProgress } from '@/lib/image';
+import type { PhotoEdit } from '@/types/database';
+import { isVideoFile, processVideo, type ProcessedVideo } from './video';
+import type { MediaSelection } from './live-photo';
+
+/** What the upload queue takes */
+export type ProcessedMedia = ProcessedImage | ProcessedVideo;
+
+export interface ProcessMediaOptions {
+  onProgress?: (progress: ProcessingProgress) => void;
+  /** Party overlay, stamped on photos (clips play as recorded) */
+  overlay?: ImageOverlay | null;
+  /** Guest edit (crop, rotation, filter) for photos */
+  edit?: PhotoEdit | null;
+  /** Party limit on a photo original's longest side */
+  maxOriginalSize?: number | null;
+}
+
+/**
+ * Check if a file is something guests can share (photo, HEIC or clip).
+ */
+export function isMediaFile(file: File): boolean {
+  return file.type.startsWith('image/') ||
+    file.name.toLowerCase().endsWith('.heic') ||
+    file.name.toLowerCase().endsWith('.heif') ||
+    isVideoFile(file);
+}
+
+export function processMedia({ file, still }: MediaSelection, options: ProcessMediaOptions = {}): Promise<ProcessedMedia> {
+  return isVideoFile(file)
+    ? processVideo(file, { still, onProgress: options.onProgress })
+    : processImage(file, options);
+}
@@ -0,0 +1,189 @@
+/**
+ * Client-side clip processing.
+ * Clips are uploaded as recorded (never re-encoded); the browser only checks the
+ * caps, strips the location metadata and grabs a poster frame, which becomes the
+ * TV version and thumbnail.
+ */
+
+import { VIDEO, VIDEO_FORMATS, type VideoFormat } from '@/lib/constants';
+import {
+  isHeicFile,
+  convertHeicToJpeg,
+  resizeForTv,
+  createThumbnail,
+  formatFileSize,
+  getTakenAt,
+  readImageMetadata,
+  type ProcessingProgress,
+} from '@/lib/image';
+import { rewriteClipMetadata } from './mp4';
+
+/**
+ * A clip ready for the upload queue. Same upload fields as ProcessedImage.
+ */
+export interface ProcessedVideo {
+  mediaType: 'video';
+  original: Blob;
+  originalMime: string;
+  originalExt: string;
+  tv: Blob; // JPEG poster frame
+  tvMime: 'image/jpeg';
+  tvExt: 'jpg';
+  useSameForTv: false;
+  tvJpeg: null; // The poster is already a JPEG
+  thumb: Blob;
+  takenAt: string | null; // From the Live Photo still or the clip header
+  durationMs: number;
+}
+
+interface ProcessVideoOptions {
+  /** Live Photo still to use as the poster instead of a frame from the clip */
+  still?: File;
+  onProgress?: (progress: ProcessingProgress) => void;
+}
+
+/**
+ * Find the clip format from the mime type, or the extension when the browser
+ * doesn't report one.
+ */
+function getVideoFormat(file: File): VideoFormat | undefined {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  return VIDEO_FORMATS.find(format => format.mime === file.type.toLowerCase()) ??
+    VIDEO_FORMATS.find(format => format.ext === ext);
+}
+
+/**
+ * Check if a file is a video clip.
+ */
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/') || getVideoFormat(file) !== undefined;
+}
+
+/**
+ * Load a clip's metadata into a muted video element.
+ */
+function loadVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not read this clip'));
+
+    video.src = url;
+  });
+}
+
+/**
+ * Grab the frame at the given time as a full-size JPEG.
+ */
+function grabFrame(video: HTMLVideoElement, time: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(video, 0, 0);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to create poster frame'))),
+        'image/jpeg',
+        VIDEO.POSTER_QUALITY
+      );
+    };
+    video.onerror = () => reject(new Error('Could not read this clip'));
+    video.currentTime = time;
+  });
+}
+
+export async function processVideo(file: File, { still, onProgress }: ProcessVideoOptions = {}): Promise<ProcessedVideo> {
+  console.log(`🎬 ORIGINAL CLIP: ${file.name}`);
+  console.log(`   Size: ${formatFileSize(file.size)}`);
+  console.log(`   Type: ${file.type}`);
+
+  // Step 1: Caps
+  const format = getVideoFormat(file);
+  if (!format) {
+    throw new Error('Unsupported video format. Please use MP4, MOV or WebM.');
+  }
+
+  if (file.size > VIDEO.MAX_FILE_SIZE_BYTES) {
+    throw new Error(
+      `Clip too large (${formatFileSize(file.size)}). ` +
+      `Maximum size is ${formatFileSize(VIDEO.MAX_FILE_SIZE_BYTES)}. Please try a shorter clip.`
+    );
+  }
+
+  onProgress?.({ stage: 'analyzing', percent: 10 });
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+
+    // Recordings without a duration in their header report Infinity
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      throw new Error('Could not read the length of this clip');
+    }
+    const durationMs = Math.round(video.duration * 1000);
+    console.log(`   Duration: ${(durationMs / 1000).toFixed(1)}s, ${video.videoWidth}x${video.videoHeight}`);
+
+    if (durationMs > VIDEO.MAX_DURATION_MS) {
+      throw new Error(
+        `Clip too long (${Math.round(durationMs / 1000)}s). ` +
+        `Maximum length is ${VIDEO.MAX_DURATION_MS / 1000}s.`
+      );
+    }
+
+    // Step 2: Metadata policy - same as photos, keep the capture time and drop the location
+    onProgress?.({ stage: 'metadata', percent: 20 });
+    const rewritten = format.ext === 'webm' ? null : await rewriteClipMetadata(file);
+    let takenAt = rewritten?.createdAt ?? null;
+
+    // Step 3: Poster frame - the Live Photo still when there is one
+    onProgress?.({ stage: 'tv', percent: 40 });
+    let poster: Blob;
+    if (still) {
+      console.log(`📸 Using Live Photo still as poster: ${still.name}`);
+      poster = isHeicFile(still) ? await convertHeicToJpeg(still) : still;
+      takenAt = getTakenAt(await readImageMetadata(still)) ?? takenAt;
+    } else {
+      poster = await grabFrame(video, Math.min(VIDEO.POSTER_TIME_S, video.duration / 2));
+    }
+
+    const tv = await resizeForTv(poster);
+
+    onProgress?.({ stage: 'thumbnail', percent: 80 });
+    const thumb = await createThumbnail(poster);
+
+    console.log('🎉 Clip processing complete:', {
+      clip: formatFileSize(file.size),
+      poster: formatFileSize(tv.size),
+      thumb: formatFileSize(thumb.size),
+    });
+
+    onProgress?.({ stage: 'done', percent: 100 });
+    return {
+      mediaType: 'video',
+      original: rewritten?.blob ?? file,
+      originalMime: format.mime,
+      originalExt: format.ext,
+      tv,
+      tvMime: 'image/jpeg',
+      tvExt: 'jpg',
+      useSameForTv: false,
+      tvJpeg: null,
+      thumb,
+      takenAt,
+      durationMs,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Deleting a photo, for the host (any photo of the party) and the guest who took it.
+ * The row goes first so the photo disappears from the TV even if storage cleanup
+ * fails; leftover files are only logged.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { STORAGE_BUCKET } from '@/lib/supabase/server';
+
+type PhotoRow = Database['public']['Tables']['photos']['Row'];
+
+/** The row's id and the paths of its files */
+export type PhotoFiles = Pick<PhotoRow, 'id' | 'original_path' | 'tv_path' | 'tv_jpeg_path' | 'thumb_path'>;
+
+export type PhotoDeletion =
+  | { ok: false; error: string; errorCode: string }
+  | { ok: true; storagePaths: string[]; removeError: string | null };
+
+/**
+ * Delete a photo's row, then its original, TV versions and thumbnail.
+ * Fails only if the row couldn't be deleted; removeError reports files left behind.
+ */
+export async function deletePhoto(
+  supabase: SupabaseClient<Database>,
+  photo: PhotoFiles
+): Promise<PhotoDeletion> {
+  const { error: deleteError } = await supabase
+    .from('photos')
+    .delete()
+    .eq('id', photo.id);
+
+  if (deleteError) {
+    return { ok: false, error: deleteError.message, errorCode: deleteError.code };
+  }
+
+  // TV path equals the original path when no separate TV version was uploaded
+  const storagePaths = Array.from(new Set([photo.original_path, photo.tv_path, photo.tv_jpeg_path, photo.thumb_path]))
+    .filter((path): path is string => !!path);
+  const { error: removeError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .remove(storagePaths);
+
+  return { ok: true, storagePaths, removeError: removeError?.message ?? null };
+}
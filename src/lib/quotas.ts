@@ -0,0 +1,132 @@
+/**
+ * Per-party upload limits: photos per guest, total storage and original resolution.
+ * The server enforces the photo count and storage in prepare-upload and finalize, where
+ * insert_photo_within_limits checks and saves the photo in one transaction;
+ * the resolution cap is applied by the guest's browser when it shrinks the original.
+ * checkQuota is also used by the upload page to warn before processing a photo.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { PartyUploadLimits, UploadQuota } from '@/types/database';
+
+export const UPLOAD_LIMIT_COLUMNS = 'max_photos_per_guest, max_storage_bytes, max_original_size';
+
+export type QuotaCheck =
+  | { ok: true }
+  | { ok: false; status: 413 | 429; code: 'PHOTO_LIMIT_REACHED' | 'STORAGE_FULL'; error: string };
+
+interface UploadLimitsRow {
+  max_photos_per_guest: number | null;
+  max_storage_bytes: number | null;
+  max_original_size: number | null;
+}
+
+export function toUploadLimits(row: UploadLimitsRow): PartyUploadLimits {
+  return {
+    maxPhotosPerGuest: row.max_photos_per_guest,
+    maxStorageBytes: row.max_storage_bytes,
+    maxOriginalSize: row.max_original_size,
+  };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/**
+ * Bytes stored for a party: originals plus separate TV versions (thumbnails are too small to count).
+ */
+export async function getPartyStorageBytes(
+  supabase: SupabaseClient<Database>,
+  partyId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('party_storage_bytes', { p_party_id: partyId });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return Number(data ?? 0);
+}
+
+/**
+ * Load a party's limits and where a guest stands against them.
+ * Returns null if the party doesn't exist.
+ */
+export async function getUploadQuota(
+  supabase: SupabaseClient<Database>,
+  partyId: string,
+  uploaderId: string
+): Promise<UploadQuota | null> {
+  const [{ data: party, error: partyError }, { count, error: countError }, storageBytes] = await Promise.all([
+    supabase.from('parties').select(UPLOAD_LIMIT_COLUMNS).eq('id', partyId).maybeSingle(),
+    supabase
+      .from('photos')
+      .select('*', { count: 'exact', head: true })
+      .eq('party_id', partyId)
+      .eq('uploader_id', uploaderId),
+    getPartyStorageBytes(supabase, partyId),
+  ]);
+
+  if (partyError || countError) {
+    throw new Error(partyError?.message || countError?.message);
+  }
+  if (!party) {
+    return null;
+  }
+
+  return { limits: toUploadLimits(party), guestPhotos: count ?? 0, storageBytes };
+}
+
+/**
+ * Whether a guest can add this many photos, taking this many bytes of storage.
+ */
+export function checkQuota(quota: UploadQuota, photos: number, bytes: number): QuotaCheck {
+  const { maxPhotosPerGuest, maxStorageBytes } = quota.limits;
+
+  if (maxPhotosPerGuest !== null && quota.guestPhotos + photos > maxPhotosPerGuest) {
+    const left = Math.max(0, maxPhotosPerGuest - quota.guestPhotos);
+    return {
+      ok: false,
+      status: 429,
+      code: 'PHOTO_LIMIT_REACHED',
+      error: left === 0
+        ? `You've reached this party's limit of ${maxPhotosPerGuest} photos per guest`
+        : `You can only send ${left} more ${left === 1 ? 'photo' : 'photos'} (limit of ${maxPhotosPerGuest} per guest)`,
+    };
+  }
+
+  if (maxStorageBytes !== null && (quota.storageBytes >= maxStorageBytes || quota.storageBytes + bytes > maxStorageBytes)) {
+    return {
+      ok: false,
+      status: 413,
+      code: 'STORAGE_FULL',
+      error: quota.storageBytes >= maxStorageBytes
+        ? `This party's storage is full (${formatMegabytes(maxStorageBytes)})`
+        : `Not enough storage left for this party (${formatMegabytes(maxStorageBytes - quota.storageBytes)} free)`,
+    };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Why insert_photo_within_limits refused a photo: checkQuota's message against the
+ * party's current numbers, or a plain one if a photo was deleted since.
+ */
+export async function explainLimitReached(
+  supabase: SupabaseClient<Database>,
+  partyId: string,
+  uploaderId: string,
+  code: string,
+  bytes: number
+): Promise<Extract<QuotaCheck, { ok: false }>> {
+  const quota = await getUploadQuota(supabase, partyId, uploaderId);
+  const check = quota ? checkQuota(quota, 1, bytes) : null;
+  if (check && !check.ok) {
+    return check;
+  }
+
+  return code === 'PHOTO_LIMIT_REACHED'
+    ? { ok: false, status: 429, code, error: "You've reached this party's limit of photos per guest" }
+    : { ok: false, status: 413, code: 'STORAGE_FULL', error: "This party's storage is full" };
+}
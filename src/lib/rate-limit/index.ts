@@ -0,0 +1,18 @@
+// Rate limiting and brute-force lockouts for API routes
+export {
+  consumeRateLimit,
+  countAttempt,
+  clearFailures,
+  rateLimitedResponse,
+  getClientIp,
+  pinAttemptChecks,
+  loginAttemptChecks,
+  getRateLimitStore,
+  setRateLimitStore,
+  RATE_LIMITS,
+  type RateLimitRule,
+  type RateLimitCheck,
+  type RateLimitResult,
+} from './limiter';
+export { MemoryRateLimitStore, type RateLimitStore, type RateLimitCount } from './store';
+export { PostgresRateLimitStore } from './postgres';
@@ -0,0 +1,224 @@
+/**
+ * Rate limits and lockouts for the routes guests and strangers can hit: joining,
+ * the admin PIN, host sign-in and upload preparation. Counters are keyed by rule plus IP, party
+ * or uploader; going over a limit is logged as a securityEvent and answered with
+ * 429 and Retry-After. If the store fails, requests are let through (and logged)
+ * rather than taking the party down.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger, type LogContext } from '@/lib/logging';
+import { MemoryRateLimitStore, type RateLimitStore } from './store';
+import { PostgresRateLimitStore } from './postgres';
+
+const log = createLogger('security.rate-limit');
+
+export interface RateLimitRule {
+  /** Name used in counter keys and logs */
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export const RATE_LIMITS = {
+  /** Join attempts from one IP (guests on the venue Wi-Fi share it) */
+  joinIp: { name: 'join-ip', limit: 30, windowMs: 60_000 },
+  /** Join attempts for one party, from anywhere */
+  joinParty: { name: 'join-party', limit: 300, windowMs: 60_000 },
+  /** Wrong admin PINs for a party from one IP before that IP is locked out */
+  pinFailuresIp: { name: 'pin-ip', limit: 5, windowMs: 15 * 60_000 },
+  /** Wrong admin PINs for a party from anywhere before the PIN is locked for everyone */
+  pinFailuresParty: { name: 'pin-party', limit: 20, windowMs: 60 * 60_000 },
+  /** Wrong passwords for a host email from one IP before that IP is locked out */
+  loginFailuresIp: { name: 'login-ip', limit: 5, windowMs: 15 * 60_000 },
+  /** Wrong passwords for a host email from anywhere before the account is locked for everyone */
+  loginFailuresEmail: { name: 'login-email', limit: 20, windowMs: 60 * 60_000 },
+  /** Upload preparations by one guest (a batch counts once) */
+  uploadUploader: { name: 'upload-uploader', limit: 30, windowMs: 60_000 },
+  /** Upload preparations from one IP */
+  uploadIp: { name: 'upload-ip', limit: 300, windowMs: 60_000 },
+} satisfies Record<string, RateLimitRule>;
+
+/** A rule applied to one IP, party or uploader */
+export interface RateLimitCheck {
+  rule: RateLimitRule;
+  key: string;
+}
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; rule: string; retryAfter: number }; // Seconds until the window ends
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The configured store: RATE_LIMIT_STORE=postgres for the shared table, in-memory otherwise.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'postgres'
+      ? new PostgresRateLimitStore()
+      : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Use another store (e.g. Redis) for every rate limit.
+ */
+export function setRateLimitStore(custom: RateLimitStore): void {
+  store = custom;
+}
+
+/**
+ * How many proxies in front of the app append to X-Forwarded-For: TRUSTED_PROXY_HOPS, 1 by default.
+ */
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+/**
+ * The caller's IP as reported by the proxies in front of the app.
+ * Clients can put anything in X-Forwarded-For, so only the entries our own proxies
+ * appended count: the client is the one TRUSTED_PROXY_HOPS from the right. A proxy
+ * that sets a header of its own to the client IP (CLIENT_IP_HEADER, e.g.
+ * cf-connecting-ip) is trusted first.
+ */
+export function getClientIp(request: NextRequest): string {
+  const header = process.env.CLIENT_IP_HEADER;
+  const headerIp = header ? request.headers.get(header)?.trim() : undefined;
+  if (headerIp) {
+    return headerIp;
+  }
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  const hops = getTrustedProxyHops();
+  return forwarded[Math.max(0, forwarded.length - hops)] || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Admin PIN attempts on a party: from this IP, and from anywhere.
+ */
+export function pinAttemptChecks(partyId: string, ip: string): RateLimitCheck[] {
+  return [
+    { rule: RATE_LIMITS.pinFailuresIp, key: `${partyId}:${ip}` },
+    { rule: RATE_LIMITS.pinFailuresParty, key: partyId },
+  ];
+}
+
+/**
+ * Host sign-in attempts for an email: from this IP, and from anywhere.
+ */
+export function loginAttemptChecks(email: string, ip: string): RateLimitCheck[] {
+  return [
+    { rule: RATE_LIMITS.loginFailuresIp, key: `${email}:${ip}` },
+    { rule: RATE_LIMITS.loginFailuresEmail, key: email },
+  ];
+}
+
+function counterKey({ rule, key }: RateLimitCheck): string {
+  return `${rule.name}:${key}`;
+}
+
+function retryAfter(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Count a request against each check; fails on the first one over its limit.
+ */
+export async function consumeRateLimit(checks: RateLimitCheck[], context: LogContext = {}): Promise<RateLimitResult> {
+  try {
+    const rateStore = getRateLimitStore();
+    for (const check of checks) {
+      const { count, resetAt } = await rateStore.hit(counterKey(check), check.rule.windowMs);
+      if (count > check.rule.limit) {
+        const result = { ok: false as const, rule: check.rule.name, retryAfter: retryAfter(resetAt) };
+        // Once per window is enough to spot it; every blocked request would flood the logs
+        if (count === check.rule.limit + 1) {
+          log('warn', 'Rate limit exceeded', {
+            ...context,
+            securityEvent: 'rate_limited',
+            rule: check.rule.name,
+            key: check.key,
+            limit: check.rule.limit,
+            retryAfter: result.retryAfter
+          });
+        }
+        return result;
+      }
+    }
+    return { ok: true };
+  } catch (error) {
+    log('error', 'Rate limit store failed, letting the request through', {
+      ...context,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { ok: true };
+  }
+}
+
+/**
+ * Count an attempt (e.g. a PIN check) before verifying it, so parallel attempts can't
+ * all slip in under the limit; fails once the caller is locked out. Call clearFailures
+ * when the attempt succeeds, so only failures add up.
+ */
+export async function countAttempt(checks: RateLimitCheck[], context: LogContext = {}): Promise<RateLimitResult> {
+  try {
+    const rateStore = getRateLimitStore();
+    for (const check of checks) {
+      const { count, resetAt } = await rateStore.hit(counterKey(check), check.rule.windowMs);
+      if (count > check.rule.limit) {
+        const first = count === check.rule.limit + 1;
+        log('warn', first ? 'Too many failed attempts, locking out' : 'Locked out attempt', {
+          ...context,
+          securityEvent: first ? 'lockout' : 'locked_out',
+          rule: check.rule.name,
+          key: check.key,
+          lockedUntil: new Date(resetAt).toISOString()
+        });
+        return { ok: false, rule: check.rule.name, retryAfter: retryAfter(resetAt) };
+      }
+    }
+    return { ok: true };
+  } catch (error) {
+    log('error', 'Rate limit store failed, attempt not counted', {
+      ...context,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { ok: true };
+  }
+}
+
+/**
+ * Forget counted attempts after a success.
+ */
+export async function clearFailures(checks: RateLimitCheck[]): Promise<void> {
+  try {
+    const rateStore = getRateLimitStore();
+    await Promise.all(checks.map(check => rateStore.reset(counterKey(check))));
+  } catch (error) {
+    log('error', 'Rate limit store failed, failures not cleared', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * 429 for a request over a rate limit or locked out.
+ */
+export function rateLimitedResponse(result: Extract<RateLimitResult, { ok: false }>): NextResponse {
+  const minutes = Math.ceil(result.retryAfter / 60);
+  return NextResponse.json(
+    {
+      error: `Too many attempts. Please try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`,
+      code: 'RATE_LIMITED',
+      retryAfter: result.retryAfter,
+    },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
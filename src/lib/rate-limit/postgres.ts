@@ -0,0 +1,50 @@
+/**
+ * Rate limit counters in the rate_limits table, shared by every server instance.
+ * A hit is one upsert (rate_limit_hit), so concurrent requests can't miss each other's counts.
+ */
+
+import { createServerClient } from '@/lib/supabase/server';
+import type { RateLimitCount, RateLimitStore } from './store';
+
+// Share of hits that also delete long-expired rows
+const PRUNE_PROBABILITY = 0.01;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private supabase = createServerClient();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCount> {
+    const { data, error } = await this.supabase.rpc('rate_limit_hit', {
+      p_key: key,
+      p_window_ms: windowMs,
+    });
+    if (error || !data?.[0]) {
+      throw new Error(error?.message || 'rate_limit_hit returned no row');
+    }
+
+    if (Math.random() < PRUNE_PROBABILITY) {
+      await this.supabase.rpc('prune_rate_limits');
+    }
+
+    return { count: data[0].count, resetAt: new Date(data[0].reset_at).getTime() };
+  }
+
+  async peek(key: string): Promise<RateLimitCount | null> {
+    const { data, error } = await this.supabase
+      .from('rate_limits')
+      .select('count, reset_at')
+      .eq('key', key)
+      .gt('reset_at', new Date().toISOString())
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data ? { count: data.count, resetAt: new Date(data.reset_at).getTime() } : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    const { error } = await this.supabase.from('rate_limits').delete().eq('key', key);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
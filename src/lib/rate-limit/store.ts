@@ -0,0 +1,61 @@
+/**
+ * Where rate limit counters live. The in-memory store is per server instance;
+ * deployments running several instances use the Postgres store (RATE_LIMIT_STORE=postgres)
+ * so every instance sees the same counts.
+ */
+
+export interface RateLimitCount {
+  count: number;
+  /** When the window ends and the count starts over (epoch ms) */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /** Count a hit; a new window starts at the first hit after the previous one ended */
+  hit(key: string, windowMs: number): Promise<RateLimitCount>;
+  /** The key's count in the current window, without adding a hit */
+  peek(key: string): Promise<RateLimitCount | null>;
+  /** Forget the key's hits */
+  reset(key: string): Promise<void>;
+}
+
+// Expired windows are swept once the map grows past this
+const MEMORY_SWEEP_SIZE = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counts = new Map<string, RateLimitCount>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCount> {
+    const now = Date.now();
+    const current = this.counts.get(key);
+
+    if (current && current.resetAt > now) {
+      current.count++;
+      return { ...current };
+    }
+
+    if (this.counts.size >= MEMORY_SWEEP_SIZE) {
+      this.sweep(now);
+    }
+    const started = { count: 1, resetAt: now + windowMs };
+    this.counts.set(key, started);
+    return { ...started };
+  }
+
+  async peek(key: string): Promise<RateLimitCount | null> {
+    const current = this.counts.get(key);
+    return current && current.resetAt > Date.now() ? { ...current } : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counts.delete(key);
+  }
+
+  private sweep(now: number): void {
+    for (const [key, count] of this.counts) {
+      if (count.resetAt <= now) {
+        this.counts.delete(key);
+      }
+    }
+  }
+}
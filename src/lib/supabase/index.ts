@@ -1,2 +1,2 @@
 export { createClient } from "./client";
-export { createServerClient, STORAGE_BUCKET, getOriginalPath, getTvPath, getPartyFolder } from "./server";
+export { createServerClient, STORAGE_BUCKET, SIGNED_URL_EXPIRY, getSignedUrls, getOriginalPath, getTvPath, getThumbPath, getOverlayFramePath, getPartyFolder } from "./server";
@@ -21,13 +21,50 @@ export function createServerClient() {
 // Get storage bucket name
 export const STORAGE_BUCKET = "photobooze-images";
 
+// The bucket is private: files are read through signed URLs, valid for this long (seconds),
+// which covers a TV or a guest's page left open through the party
+export const SIGNED_URL_EXPIRY = 24 * 60 * 60;
+
+// Signed read URLs for storage paths, by path; paths storage refused to sign are left out
+export async function getSignedUrls(
+  supabase: ReturnType<typeof createServerClient>,
+  paths: (string | null)[]
+): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(paths.filter((path): path is string => !!path)));
+  if (unique.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrls(unique, SIGNED_URL_EXPIRY);
+
+  if (error || !data) {
+    throw new Error(`Failed to sign file URLs: ${error?.message}`);
+  }
+
+  return new Map(
+    data
+      .filter(item => item.path && item.signedUrl && !item.error)
+      .map(item => [item.path as string, item.signedUrl])
+  );
+}
+
 // Helper to build storage paths
 export function getOriginalPath(partyId: string, photoId: string, ext: string): string {
   return `parties/${partyId}/original/${photoId}.${ext}`;
 }
 
-export function getTvPath(partyId: string, photoId: string): string {
-  return `parties/${partyId}/tv/${photoId}.jpg`;
+export function getTvPath(partyId: string, photoId: string, ext: string = 'jpg'): string {
+  return `parties/${partyId}/tv/${photoId}.${ext}`;
+}
+
+export function getThumbPath(partyId: string, photoId: string): string {
+  return `parties/${partyId}/thumb/${photoId}.jpg`;
+}
+
+export function getOverlayFramePath(partyId: string, frameId: string): string {
+  return `parties/${partyId}/overlay/${frameId}.png`;
 }
 
 export function getPartyFolder(partyId: string): string {
@@ -0,0 +1,154 @@
+/**
+ * IndexedDB storage for the guest upload queue, used by the page and the service worker.
+ */
+
+import type { MediaType, PhotoEdit } from '@/types/database';
+
+export const UPLOAD_QUEUE_DB = 'photobooze-uploads';
+export const UPLOAD_QUEUE_STORE = 'uploads';
+const DB_VERSION = 1;
+
+export type UploadStatus = 'queued' | 'uploading' | 'failed';
+
+export interface UploadUrls {
+  original: string;
+  tv: string | null;
+  tvJpeg?: string | null;
+  thumb?: string | null;
+  expiresAt: number;
+}
+
+export interface UploadQueueItem {
+  /** Local ID, independent of the server-side photo ID */
+  id: string;
+  partyId: string;
+  /** Assigned by prepare-upload; a new one whenever the signed URLs expire before the upload is saved */
+  photoId: string | null;
+  original: Blob;
+  originalMime: string;
+  originalExt: string;
+  tv: Blob | null;
+  /** Format of the TV version; missing on items queued when it was always JPEG */
+  tvMime?: string;
+  tvExt?: string;
+  /** JPEG copy of an AVIF/WebP TV version, for TVs that can't decode it */
+  tvJpeg?: Blob | null;
+  /** Missing on items queued before thumbnails existed */
+  thumb?: Blob | null;
+  comment: string | null;
+  /** Capture time from EXIF; missing on items queued before it was recorded */
+  takenAt?: string | null;
+  /** Missing on items queued before clips were supported (always photos) */
+  mediaType?: MediaType;
+  durationMs?: number | null;
+  /** Guest edit applied to the TV version; missing on items queued before the editor existed */
+  edit?: PhotoEdit | null;
+  status: UploadStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  /** While uploading, other tabs and the service worker leave the item alone until this time */
+  leaseUntil: number;
+  uploadUrls: UploadUrls | null;
+  originalUploaded: boolean;
+  tvUploaded: boolean;
+  tvJpegUploaded?: boolean;
+  thumbUploaded?: boolean;
+  lastError: string | null;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(UPLOAD_QUEUE_DB, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(UPLOAD_QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('partyId', 'partyId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_QUEUE_STORE, mode);
+    const request = run(transaction.objectStore(UPLOAD_QUEUE_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function putUpload(item: UploadQueueItem): Promise<void> {
+  await withStore('readwrite', store => store.put(item));
+}
+
+export async function getUpload(id: string): Promise<UploadQueueItem | undefined> {
+  return withStore<UploadQueueItem | undefined>('readonly', store => store.get(id));
+}
+
+export async function deleteUpload(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * List a party's queued uploads, oldest first.
+ */
+export async function listUploads(partyId: string): Promise<UploadQueueItem[]> {
+  const items = await withStore<UploadQueueItem[]>(
+    'readonly',
+    store => store.index('partyId').getAll(partyId)
+  );
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Every queued upload, whatever the party (for the service worker).
+ */
+export async function listAllUploads(): Promise<UploadQueueItem[]> {
+  return withStore<UploadQueueItem[]>('readonly', store => store.getAll());
+}
+
+/**
+ * Atomically mark an item as uploading if it is due and nobody else holds it.
+ * Returns the claimed item, or null if it is not available.
+ */
+export async function claimUpload(id: string, leaseMs: number): Promise<UploadQueueItem | null> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(UPLOAD_QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(UPLOAD_QUEUE_STORE);
+    let claimed: UploadQueueItem | null = null;
+
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const item = request.result as UploadQueueItem | undefined;
+      const now = Date.now();
+      const available = item && (
+        (item.status === 'queued' && item.nextAttemptAt <= now) ||
+        (item.status === 'uploading' && item.leaseUntil <= now)
+      );
+      if (!item || !available) {
+        return;
+      }
+      claimed = { ...item, status: 'uploading', leaseUntil: now + leaseMs };
+      store.put(claimed);
+    };
+
+    transaction.oncomplete = () => resolve(claimed);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
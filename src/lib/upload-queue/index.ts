@@ -0,0 +1,15 @@
+// Offline-capable guest upload queue
+export {
+  enqueueUpload,
+  retryUpload,
+  discardUpload,
+  processUploadQueue,
+  requestBackgroundSync,
+  notifyQueueChanged,
+  getRetryDelay,
+  UPLOAD_SYNC_TAG,
+  UPLOAD_QUEUE_CHANNEL,
+  UPLOAD_SERVICE_WORKER_URL,
+} from './queue';
+export { listUploads, type UploadQueueItem, type UploadStatus } from './db';
+export { UploadError } from './upload';
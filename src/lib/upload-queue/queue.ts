@@ -0,0 +1,238 @@
+/**
+ * Persistent upload queue for guest photos and clips.
+ * Photos are stored in IndexedDB as soon as they are taken and uploaded in the
+ * background, retrying with backoff while the connection is down. Both the
+ * page and the service worker (via Background Sync, built from service-worker.ts)
+ * work through the queue with this module. Whoever uploads an item holds its Web
+ * Lock, which the browser releases if the tab or worker dies, so the other never
+ * sends it twice. The lease on the item, renewed after every step, does the same
+ * in browsers without Web Locks and tells the page an upload is running.
+ */
+
+import type { ProcessedMedia } from '@/lib/media';
+import {
+  putUpload,
+  getUpload,
+  deleteUpload,
+  listUploads,
+  claimUpload,
+  type UploadQueueItem,
+} from './db';
+import { runUpload, prepareUploadBatch, UploadError } from './upload';
+
+export const UPLOAD_SYNC_TAG = 'photobooze-upload-queue';
+export const UPLOAD_QUEUE_CHANNEL = 'photobooze-uploads';
+export const UPLOAD_SERVICE_WORKER_URL = '/upload-sw.js';
+
+const LEASE_MS = 10 * 60 * 1000;
+const UPLOAD_LOCK_PREFIX = 'photobooze-upload:';
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Exponential backoff with jitter: ~2s, 4s, 8s... capped at 5 minutes.
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Tell other tabs and the page (from the service worker) that the queue changed.
+ */
+export function notifyQueueChanged(): void {
+  if (typeof BroadcastChannel === 'undefined') return;
+  const channel = new BroadcastChannel(UPLOAD_QUEUE_CHANNEL);
+  channel.postMessage({ type: 'changed' });
+  channel.close();
+}
+
+/**
+ * Ask the service worker to work through the queue once the connection is back.
+ * Browsers without Background Sync rely on the page retrying instead.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }).sync;
+    await sync?.register(UPLOAD_SYNC_TAG);
+  } catch (err) {
+    console.warn('Background sync unavailable:', err);
+  }
+}
+
+export async function enqueueUpload(
+  partyId: string,
+  processed: ProcessedMedia,
+  comment: string
+): Promise<UploadQueueItem> {
+  const tv = !processed.useSameForTv && processed.tv ? processed.tv : null;
+  const item: UploadQueueItem = {
+    id: crypto.randomUUID(),
+    partyId,
+    photoId: null,
+    original: processed.original,
+    originalMime: processed.originalMime,
+    originalExt: processed.originalExt,
+    tv,
+    tvMime: processed.tvMime,
+    tvExt: processed.tvExt,
+    tvJpeg: tv ? processed.tvJpeg : null,
+    thumb: processed.thumb,
+    comment: comment.trim() || null,
+    takenAt: processed.takenAt,
+    mediaType: 'mediaType' in processed ? processed.mediaType : 'photo',
+    durationMs: 'durationMs' in processed ? processed.durationMs : null,
+    edit: 'edit' in processed ? processed.edit : null,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    leaseUntil: 0,
+    uploadUrls: null,
+    originalUploaded: false,
+    tvUploaded: false,
+    tvJpegUploaded: false,
+    thumbUploaded: false,
+    lastError: null,
+    createdAt: Date.now(),
+  };
+
+  await putUpload(item);
+  notifyQueueChanged();
+  return item;
+}
+
+/**
+ * Put a failed item back in line for an immediate attempt.
+ */
+export async function retryUpload(id: string): Promise<void> {
+  const item = await getUpload(id);
+  if (!item || item.status !== 'failed') return;
+  await putUpload({ ...item, status: 'queued', attempts: 0, nextAttemptAt: Date.now(), lastError: null });
+  notifyQueueChanged();
+}
+
+export async function discardUpload(id: string): Promise<void> {
+  await deleteUpload(id);
+  notifyQueueChanged();
+}
+
+/**
+ * Take the item's Web Lock and hold it until the returned release is called.
+ * Returns null if another tab or the service worker holds it. Without Web Locks
+ * (or if the browser refuses) there is nothing to hold and only the lease counts.
+ */
+function lockUpload(id: string): Promise<(() => void) | null> {
+  const noLock = () => {};
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return Promise.resolve(noLock);
+  }
+  return new Promise(resolve => {
+    navigator.locks.request(`${UPLOAD_LOCK_PREFIX}${id}`, { ifAvailable: true }, lock => {
+      if (!lock) {
+        resolve(null);
+        return;
+      }
+      return new Promise<void>(release => resolve(release));
+    }).catch(() => resolve(noLock));
+  });
+}
+
+/**
+ * Save an item's progress and extend its lease, so a long upload never runs past it.
+ */
+async function saveLeased(item: UploadQueueItem): Promise<void> {
+  item.leaseUntil = Date.now() + LEASE_MS;
+  await putUpload(item);
+}
+
+interface ProcessQueueOptions {
+  onProgress?: (itemId: string, percent: number) => void;
+  onUploaded?: (item: UploadQueueItem, photoId: string) => void;
+}
+
+/**
+ * Upload every due item of a party, one at a time.
+ * Returns when the next queued item will be due, or null if nothing is waiting.
+ */
+export async function processUploadQueue(
+  partyId: string,
+  { onProgress, onUploaded }: ProcessQueueOptions = {}
+): Promise<number | null> {
+  const claimed: UploadQueueItem[] = [];
+  const releases = new Map<string, () => void>();
+  for (const { id } of await listUploads(partyId)) {
+    const release = await lockUpload(id);
+    if (!release) continue;
+    const item = await claimUpload(id, LEASE_MS);
+    if (item) {
+      claimed.push(item);
+      releases.set(id, release);
+    } else {
+      release();
+    }
+  }
+  if (claimed.length === 0) {
+    return nextDueTime(partyId);
+  }
+  notifyQueueChanged();
+
+  try {
+    // One request for the signed URLs of a whole batch of new photos
+    await prepareUploadBatch(claimed, saveLeased);
+
+    for (const item of claimed) {
+      await uploadClaimed(item, { onProgress, onUploaded });
+      releases.get(item.id)?.();
+    }
+  } finally {
+    releases.forEach(release => release());
+  }
+
+  return nextDueTime(partyId);
+}
+
+/**
+ * Run one claimed item's upload; a failed attempt goes back in line with backoff.
+ */
+async function uploadClaimed(
+  item: UploadQueueItem,
+  { onProgress, onUploaded }: ProcessQueueOptions
+): Promise<void> {
+  const { id } = item;
+  // The lease was taken for the whole batch; restart it for this upload
+  await saveLeased(item);
+
+  try {
+    const photoId = await runUpload(item, {
+      save: saveLeased,
+      onProgress: (percent) => onProgress?.(id, percent),
+    });
+    await deleteUpload(id);
+    onUploaded?.(item, photoId);
+  } catch (err) {
+    const retryable = !(err instanceof UploadError) || err.retryable;
+    const attempts = item.attempts + 1;
+    console.warn(`Upload attempt ${attempts} failed${retryable ? ', will retry' : ''}:`, err);
+    await putUpload({
+      ...item,
+      status: retryable ? 'queued' : 'failed',
+      attempts,
+      nextAttemptAt: Date.now() + Math.max(getRetryDelay(attempts), err instanceof UploadError ? err.retryAfterMs : 0),
+      leaseUntil: 0,
+      lastError: err instanceof Error ? err.message : 'Upload failed',
+    });
+  }
+  notifyQueueChanged();
+}
+
+async function nextDueTime(partyId: string): Promise<number | null> {
+  const waiting = (await listUploads(partyId)).filter(item => item.status !== 'failed');
+  if (waiting.length === 0) {
+    return null;
+  }
+  return Math.min(...waiting.map(item => (item.status === 'queued' ? item.nextAttemptAt : item.leaseUntil)));
+}
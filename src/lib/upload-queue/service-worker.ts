@@ -0,0 +1,56 @@
+/**
+ * PhotoBooze upload service worker
+ * Works through the guest upload queue when Background Sync fires, so photos
+ * taken offline go up once the connection is back even if the page is closed.
+ *
+ * Bundled to public/upload-sw.js by scripts/build-upload-sw.mjs (on dev and build),
+ * so it runs the same queue code as the page.
+ */
+
+import { listAllUploads } from './db';
+import { processUploadQueue, UPLOAD_SYNC_TAG } from './queue';
+
+// Service worker types aren't in the DOM lib the rest of the app is checked against
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+}
+
+interface UploadServiceWorkerScope {
+  skipWaiting(): Promise<void>;
+  clients: { claim(): Promise<void> };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'sync', listener: (event: SyncEvent) => void): void;
+}
+
+const sw = self as unknown as UploadServiceWorkerScope;
+
+sw.addEventListener('install', () => {
+  sw.skipWaiting();
+});
+sw.addEventListener('activate', (event) => event.waitUntil(sw.clients.claim()));
+
+sw.addEventListener('sync', (event) => {
+  if (event.tag === UPLOAD_SYNC_TAG) {
+    event.waitUntil(processQueues());
+  }
+});
+
+async function processQueues(): Promise<void> {
+  const partyIds = new Set((await listAllUploads()).map(item => item.partyId));
+  let retryLater = false;
+
+  for (const partyId of partyIds) {
+    if (await processUploadQueue(partyId) !== null) {
+      retryLater = true;
+    }
+  }
+
+  // A rejected sync is retried by the browser with its own backoff
+  if (retryLater) {
+    throw new Error('Uploads still pending');
+  }
+}
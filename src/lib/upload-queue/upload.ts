@@ -0,0 +1,328 @@
+/**
+ * One attempt at pushing a queued photo through prepare-upload, the signed
+ * storage PUTs and finalize. Progress is saved after every step so a retry
+ * picks up where the last attempt stopped.
+ * Shared with the service worker (see service-worker.ts), where there's no
+ * XMLHttpRequest: there the files go up with fetch, without progress.
+ */
+
+import type { UploadQueueItem } from './db';
+
+// Re-sign a little before the URLs actually expire
+const URL_EXPIRY_MARGIN_MS = 30_000;
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    /** How long the server asked us to wait (Retry-After), if it did */
+    readonly retryAfterMs: number = 0
+  ) {
+    super(message);
+  }
+}
+
+interface UploadCallbacks {
+  save: (item: UploadQueueItem) => Promise<void>;
+  onProgress?: (percent: number) => void;
+}
+
+type PutResult = 'uploaded' | 'exists' | 'rejected';
+
+function putResult(status: number, statusText: string): PutResult {
+  if (status >= 200 && status < 300) {
+    return 'uploaded';
+  }
+  if (status === 409) {
+    // Left over from an attempt whose response was lost; finalize checks its size
+    return 'exists';
+  }
+  if (status >= 400 && status < 500) {
+    // Usually an expired signature
+    return 'rejected';
+  }
+  throw new UploadError(`Upload failed: ${status} ${statusText}`, true);
+}
+
+async function fetchPutBlob(url: string, blob: Blob, contentType: string): Promise<PutResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'PUT', headers: { 'Content-Type': contentType }, body: blob });
+  } catch {
+    throw new UploadError('Network error while uploading', true);
+  }
+  return putResult(response.status, response.statusText);
+}
+
+function putBlob(
+  url: string,
+  blob: Blob,
+  contentType: string,
+  onProgress?: (fraction: number) => void
+): Promise<PutResult> {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return fetchPutBlob(url, blob, contentType);
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) {
+        onProgress?.(e.loaded / e.total);
+      }
+    };
+
+    xhr.onload = () => {
+      try {
+        resolve(putResult(xhr.status, xhr.statusText));
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    xhr.onerror = () => reject(new UploadError('Network error while uploading', true));
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.send(blob);
+  });
+}
+
+async function postJson(url: string, body: unknown): Promise<{ response: Response; data: Record<string, unknown> }> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new UploadError('No connection', true);
+  }
+  const data = await response.json().catch(() => ({}));
+  return { response, data };
+}
+
+// Party upload limits: retrying won't help until the host raises them
+const QUOTA_ERROR_CODES = ['PHOTO_LIMIT_REACHED', 'STORAGE_FULL'];
+
+function failed(response: Response, data: Record<string, unknown>, fallback: string): UploadError {
+  // Server errors and rate limits are worth retrying; anything else needs the guest
+  const retryable = (response.status >= 500 || response.status === 429) &&
+    !QUOTA_ERROR_CODES.includes(data.code as string);
+  const retryAfterMs = (Number(response.headers.get('Retry-After')) || 0) * 1000;
+  return new UploadError(typeof data.error === 'string' ? data.error : fallback, retryable, retryAfterMs);
+}
+
+/** Bytes counted against the party's storage limit: the original and the TV version */
+function storedBytes(item: UploadQueueItem): number {
+  return item.original.size + (item.tv ? item.tv.size : 0);
+}
+
+// Matches MAX_BATCH_SIZE in the prepare-upload route
+const PREPARE_BATCH_SIZE = 50;
+
+/**
+ * Sign URLs for all new photos among the items, one request per batch.
+ * Best effort: whatever is left unsigned signs its own URLs in runUpload.
+ */
+export async function prepareUploadBatch(
+  items: UploadQueueItem[],
+  save: (item: UploadQueueItem) => Promise<void>
+): Promise<void> {
+  const fresh = items.filter(item => !item.photoId && !item.uploadUrls);
+
+  for (let i = 0; i < fresh.length; i += PREPARE_BATCH_SIZE) {
+    const batch = fresh.slice(i, i + PREPARE_BATCH_SIZE);
+    try {
+      const { response, data } = await postJson('/api/photos/prepare-upload', {
+        partyId: batch[0].partyId,
+        photos: batch.map(item => ({
+          originalExt: item.originalExt,
+          createTvVersion: !!item.tv,
+          tvExt: item.tv ? item.tvExt : undefined,
+          createTvJpeg: !!item.tvJpeg,
+          createThumbnail: !!item.thumb,
+          bytes: storedBytes(item),
+        })),
+      });
+      if (!response.ok) return;
+
+      const signed = data.photos as {
+        photoId: string;
+        originalSignedUrl: string;
+        tvSignedUrl: string | null;
+        tvJpegSignedUrl: string | null;
+        thumbSignedUrl: string | null;
+      }[];
+      const expiresAt = Date.now() + (data.expiresIn as number) * 1000;
+      for (const [index, item] of batch.entries()) {
+        item.photoId = signed[index].photoId;
+        item.uploadUrls = {
+          original: signed[index].originalSignedUrl,
+          tv: signed[index].tvSignedUrl,
+          tvJpeg: signed[index].tvJpegSignedUrl,
+          thumb: signed[index].thumbSignedUrl,
+          expiresAt,
+        };
+        await save(item);
+      }
+    } catch {
+      return;
+    }
+  }
+}
+
+/**
+ * Run the remaining upload steps for an item.
+ * Returns the photo ID once the photo is saved on the server.
+ */
+export async function runUpload(item: UploadQueueItem, { save, onProgress }: UploadCallbacks): Promise<string> {
+  // Step 1: Signed URLs, fresh whenever the previous ones are (nearly) expired
+  if (!item.uploadUrls || item.uploadUrls.expiresAt - URL_EXPIRY_MARGIN_MS < Date.now()) {
+    const { response, data } = await postJson('/api/photos/prepare-upload', {
+      partyId: item.partyId,
+      originalExt: item.originalExt,
+      createTvVersion: !!item.tv,
+      tvExt: item.tv ? item.tvExt : undefined,
+      createTvJpeg: !!item.tvJpeg,
+      createThumbnail: !!item.thumb,
+      bytes: storedBytes(item),
+      photoId: item.photoId ?? undefined,
+    });
+
+    if (response.status === 409 && data.code === 'ALREADY_FINALIZED' && item.photoId) {
+      return item.photoId;
+    }
+    if (!response.ok) {
+      throw failed(response, data, 'Failed to prepare upload');
+    }
+
+    // A resumed upload gets a new ID: its files go up again, to the new paths
+    if (data.photoId !== item.photoId) {
+      item.originalUploaded = false;
+      item.tvUploaded = false;
+      item.tvJpegUploaded = false;
+      item.thumbUploaded = false;
+    }
+    item.photoId = data.photoId as string;
+    item.uploadUrls = {
+      original: data.originalSignedUrl as string,
+      tv: (data.tvSignedUrl as string | null) ?? null,
+      tvJpeg: (data.tvJpegSignedUrl as string | null) ?? null,
+      thumb: (data.thumbSignedUrl as string | null) ?? null,
+      expiresAt: Date.now() + (data.expiresIn as number) * 1000,
+    };
+    await save(item);
+  }
+  onProgress?.(10);
+
+  // Step 2: Original
+  if (!item.originalUploaded) {
+    const result = await putBlob(item.uploadUrls.original, item.original, item.originalMime, (f) => {
+      onProgress?.(10 + f * 40);
+    });
+    if (result === 'rejected') {
+      item.uploadUrls = null;
+      await save(item);
+      throw new UploadError('Upload link expired', true);
+    }
+    item.originalUploaded = true;
+    await save(item);
+  }
+  onProgress?.(50);
+
+  // Step 3: TV version (if separate)
+  if (item.tv && !item.tvUploaded) {
+    if (!item.uploadUrls.tv) {
+      throw new UploadError('Missing TV upload link', false);
+    }
+    const result = await putBlob(item.uploadUrls.tv, item.tv, item.tvMime ?? 'image/jpeg', (f) => {
+      onProgress?.(50 + f * 25);
+    });
+    if (result === 'rejected') {
+      item.uploadUrls = null;
+      await save(item);
+      throw new UploadError('Upload link expired', true);
+    }
+    item.tvUploaded = true;
+    await save(item);
+  }
+
+  // Step 3b: JPEG copy of the TV version (if it isn't a JPEG)
+  if (item.tvJpeg && !item.tvJpegUploaded) {
+    if (!item.uploadUrls.tvJpeg) {
+      throw new UploadError('Missing TV upload link', false);
+    }
+    const result = await putBlob(item.uploadUrls.tvJpeg, item.tvJpeg, 'image/jpeg');
+    if (result === 'rejected') {
+      item.uploadUrls = null;
+      await save(item);
+      throw new UploadError('Upload link expired', true);
+    }
+    item.tvJpegUploaded = true;
+    await save(item);
+  }
+  onProgress?.(75);
+
+  // Step 4: Thumbnail
+  if (item.thumb && !item.thumbUploaded) {
+    if (!item.uploadUrls.thumb) {
+      throw new UploadError('Missing thumbnail upload link', false);
+    }
+    const result = await putBlob(item.uploadUrls.thumb, item.thumb, 'image/jpeg', (f) => {
+      onProgress?.(75 + f * 5);
+    });
+    if (result === 'rejected') {
+      item.uploadUrls = null;
+      await save(item);
+      throw new UploadError('Upload link expired', true);
+    }
+    item.thumbUploaded = true;
+    await save(item);
+  }
+  onProgress?.(80);
+
+  // Step 5: Ask the server to verify the uploads and create the database record
+  const photoId = item.photoId as string;
+  const { response, data } = await postJson('/api/photos/finalize', {
+    partyId: item.partyId,
+    photoId,
+    originalExt: item.originalExt,
+    originalMime: item.originalMime,
+    originalBytes: item.original.size,
+    hasTvVersion: !!item.tv,
+    tvBytes: item.tv ? item.tv.size : null,
+    tvExt: item.tv ? item.tvExt : undefined,
+    hasTvJpeg: !!item.tvJpeg,
+    tvJpegBytes: item.tvJpeg ? item.tvJpeg.size : null,
+    hasThumbnail: !!item.thumb,
+    thumbBytes: item.thumb ? item.thumb.size : null,
+    comment: item.comment,
+    takenAt: item.takenAt ?? null,
+    mediaType: item.mediaType ?? 'photo',
+    durationMs: item.durationMs ?? null,
+    edit: item.edit ?? null,
+  });
+
+  if (response.status === 409 && data.code === 'ALREADY_FINALIZED') {
+    return photoId;
+  }
+  if (response.status === 404 && data.code === 'MISSING') {
+    // Storage lost a file (or never got it); upload everything again
+    item.uploadUrls = null;
+    item.originalUploaded = false;
+    item.tvUploaded = false;
+    item.tvJpegUploaded = false;
+    item.thumbUploaded = false;
+    await save(item);
+    throw new UploadError('Uploaded file not found', true);
+  }
+  if (!response.ok) {
+    throw failed(response, data, 'Failed to save photo record');
+  }
+
+  onProgress?.(100);
+  return photoId;
+}
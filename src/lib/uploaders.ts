@@ -0,0 +1,90 @@
+/**
+ * Guests (uploaders) of a party. Names are matched loosely, so "Anna" and "anna " are
+ * the same name when joining: only the device that joined as Anna can come back as her,
+ * and a banned guest can't come back under another spelling of their name. Hosts rename, merge and ban guests under /api/parties/[id]/uploaders.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+
+type UploaderRow = Database['public']['Tables']['uploaders']['Row'];
+
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+
+/** Why a guest can't join under a name a host banned */
+export const UPLOADER_BANNED_ERROR = {
+  code: 'UPLOADER_BANNED',
+  error: 'The host has removed this guest from the party. Please talk to the host.',
+};
+
+/** Why a guest can't join under a name another device joined with */
+export const NAME_TAKEN_ERROR = {
+  code: 'NAME_TAKEN',
+  error: 'Someone at this party already uses this name. Please pick another one (add your last initial, for example).',
+};
+
+/**
+ * The form of a name used to compare it: case, spacing and Unicode variants ignored.
+ */
+export function normalizeDisplayName(name: string): string {
+  return name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * The party's guests whose name matches, the exact spelling first.
+ */
+export async function findUploadersByName(
+  supabase: SupabaseClient<Database>,
+  partyId: string,
+  displayName: string
+): Promise<Pick<UploaderRow, 'id' | 'display_name' | 'banned_at'>[]> {
+  const { data, error } = await supabase
+    .from('uploaders')
+    .select('id, display_name, banned_at')
+    .eq('party_id', partyId)
+    .not('display_name', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to look up guests: ${error.message}`);
+  }
+
+  const wanted = normalizeDisplayName(displayName);
+  return (data || [])
+    .filter(uploader => normalizeDisplayName(uploader.display_name!) === wanted)
+    .sort((a, b) => Number(b.display_name === displayName) - Number(a.display_name === displayName));
+}
+
+export interface UploaderChanges {
+  displayName?: string;
+  banned?: boolean;
+}
+
+/**
+ * Validate the displayName and banned a host sent (each optional).
+ */
+export function parseUploaderUpdate(
+  body: Record<string, unknown>
+): { ok: true; changes: UploaderChanges } | { ok: false; error: string } {
+  const changes: UploaderChanges = {};
+
+  if (body.displayName !== undefined) {
+    const displayName = typeof body.displayName === 'string' ? body.displayName.trim().replace(/\s+/g, ' ') : '';
+    if (!displayName || displayName.length > DISPLAY_NAME_MAX_LENGTH) {
+      return { ok: false, error: `Name must be 1 to ${DISPLAY_NAME_MAX_LENGTH} characters` };
+    }
+    changes.displayName = displayName;
+  }
+
+  if (body.banned !== undefined) {
+    if (typeof body.banned !== 'boolean') {
+      return { ok: false, error: 'banned must be true or false' };
+    }
+    changes.banned = body.banned;
+  }
+
+  if (changes.displayName === undefined && changes.banned === undefined) {
+    return { ok: false, error: 'Nothing to update' };
+  }
+
+  return { ok: true, changes };
+}
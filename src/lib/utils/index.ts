@@ -4,3 +4,5 @@
 
 export { isMobileDevice, isTouchDevice } from './device';
 export { generatePartyQrCode, generateQrCodeDataUrl, buildJoinUrl } from './qrcode';
+export { runPool } from './pool';
+export { rememberJoinToken, getRememberedJoinToken } from './join-link';
@@ -0,0 +1,28 @@
+/**
+ * Remembers the join token a phone joined with, so "Switch guest" can send the
+ * next person to the join page without scanning the QR code again.
+ */
+
+const JOIN_TOKEN_KEY_PREFIX = 'photobooze_join_token:';
+
+/**
+ * Remember the join token used to join a party on this device.
+ */
+export function rememberJoinToken(partyId: string, joinToken: string): void {
+  try {
+    localStorage.setItem(`${JOIN_TOKEN_KEY_PREFIX}${partyId}`, joinToken);
+  } catch {
+    // Storage unavailable (e.g. private browsing): switching guests will need the QR code
+  }
+}
+
+/**
+ * The join token this device last joined the party with, if any.
+ */
+export function getRememberedJoinToken(partyId: string): string | null {
+  try {
+    return localStorage.getItem(`${JOIN_TOKEN_KEY_PREFIX}${partyId}`);
+  } catch {
+    return null;
+  }
+}
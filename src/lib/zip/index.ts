@@ -0,0 +1,11 @@
+// Streaming ZIP archive utilities
+export { crc32 } from './crc32';
+export { parseRangeHeader, type ByteRange } from './range';
+export {
+  createZipStream,
+  getZipLayout,
+  type ZipEntry,
+  type ZipLayout,
+  type ZipManifest,
+  type ZipStreamOptions,
+} from './writer';
@@ -0,0 +1,52 @@
+/**
+ * HTTP Range header parsing for single byte ranges.
+ */
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Parse a `Range: bytes=...` header against a resource of `size` bytes.
+ * Returns null when the header is absent or unsupported (multiple ranges, other units),
+ * in which case the full resource should be sent, and 'unsatisfiable' for ranges
+ * outside the resource (416).
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, startStr, endStr] = match;
+  if (!startStr && !endStr) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+
+  if (!startStr) {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(endStr);
+    if (suffixLength === 0) {
+      return 'unsatisfiable';
+    }
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(startStr);
+    end = endStr ? Math.min(Number(endStr), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
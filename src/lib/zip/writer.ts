@@ -0,0 +1,542 @@
+/**
+ * Store-only (uncompressed) streaming ZIP writer.
+ *
+ * Entry sizes are known up front, so the exact archive size and the byte offset of every
+ * record can be computed before any data is read. That gives us a Content-Length, and lets
+ * a Range request skip everything before its start without fetching it (as long as the
+ * skipped entries' CRCs are known, since those end up in data descriptors and the central
+ * directory). Photos are already compressed, so deflate would only cost CPU.
+ *
+ * Entries use data descriptors (general purpose bit 3) so the CRC can be computed while
+ * streaming. ZIP64 records are used for the whole archive when it would exceed 4GB or
+ * 65535 entries.
+ *
+ * An entry whose data can't be read is skipped without changing the archive size: its
+ * bytes are zeroed and it is left out of the central directory, which readers go by.
+ * The central directory moves down by the bytes its missing headers would have taken.
+ * A manifest reserved up front can then list what was skipped.
+ */
+
+import { crc32 } from './crc32';
+import type { ByteRange } from './range';
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+  /** Known CRC-32 of the data, if any. Lets range requests skip fetching the entry. */
+  crc32?: number | null;
+  /** Open the entry's data. Failing here or while reading skips the entry. */
+  getData: () => Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * A last entry whose content is only known once the others are written (at most `size` bytes).
+ */
+export interface ZipManifest {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+  /** The content given the indices of the skipped entries, or null to leave it out. */
+  build: (skipped: number[]) => Uint8Array | null;
+}
+
+export interface ZipStreamOptions {
+  /** Only emit these bytes of the archive (inclusive range). */
+  range?: ByteRange;
+  /** How many entries to fetch ahead of the one being written. */
+  concurrency?: number;
+  /** Called when an entry's CRC-32 was computed because it wasn't known yet. */
+  onEntryChecksum?: (index: number, crc: number) => void;
+  /** Called when an entry is skipped because its data couldn't be read. */
+  onEntrySkipped?: (index: number, error: unknown) => void;
+}
+
+export interface ZipLayout {
+  size: number;
+  zip64: boolean;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const HOST_UNIX = 3;
+// Regular file, rw-r--r--
+const EXTERNAL_ATTRIBUTES = (0o100644 << 16) >>> 0;
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+const DEFAULT_CONCURRENCY = 4;
+
+const encoder = new TextEncoder();
+
+interface EntryLayout {
+  nameBytes: Uint8Array;
+  headerOffset: number;
+  dataOffset: number;
+  descriptorOffset: number;
+  endOffset: number;
+}
+
+interface ArchiveLayout {
+  zip64: boolean;
+  entries: EntryLayout[];
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+  size: number;
+}
+
+function localHeaderSize(nameLength: number, zip64: boolean): number {
+  return 30 + nameLength + (zip64 ? 20 : 0);
+}
+
+function descriptorSize(zip64: boolean): number {
+  return zip64 ? 24 : 16;
+}
+
+function centralHeaderSize(nameLength: number, zip64: boolean): number {
+  return 46 + nameLength + (zip64 ? 28 : 0);
+}
+
+function endRecordsSize(zip64: boolean): number {
+  return zip64 ? 56 + 20 + 22 : 22;
+}
+
+// What the layout and the headers need to know about an entry (or the manifest)
+type ZipRecord = Pick<ZipEntry, 'name' | 'size' | 'modifiedAt'>;
+
+function computeLayout(entries: ZipRecord[], zip64: boolean): ArchiveLayout {
+  let offset = 0;
+  let centralDirectorySize = 0;
+
+  const layouts = entries.map(entry => {
+    const nameBytes = encoder.encode(entry.name);
+    const headerOffset = offset;
+    const dataOffset = headerOffset + localHeaderSize(nameBytes.length, zip64);
+    const descriptorOffset = dataOffset + entry.size;
+    const endOffset = descriptorOffset + descriptorSize(zip64);
+    offset = endOffset;
+    centralDirectorySize += centralHeaderSize(nameBytes.length, zip64);
+    return { nameBytes, headerOffset, dataOffset, descriptorOffset, endOffset };
+  });
+
+  return {
+    zip64,
+    entries: layouts,
+    centralDirectoryOffset: offset,
+    centralDirectorySize,
+    size: offset + centralDirectorySize + endRecordsSize(zip64),
+  };
+}
+
+function planLayout(entries: ZipRecord[]): ArchiveLayout {
+  const layout = computeLayout(entries, false);
+  const needsZip64 =
+    entries.length >= UINT16_MAX ||
+    layout.centralDirectoryOffset >= UINT32_MAX ||
+    layout.centralDirectorySize >= UINT32_MAX ||
+    entries.some(entry => entry.size >= UINT32_MAX);
+  return needsZip64 ? computeLayout(entries, true) : layout;
+}
+
+/**
+ * Compute the total size of the archive for these entries (and the manifest's reserved size).
+ */
+export function getZipLayout(entries: ZipEntry[], manifest?: ZipManifest): ZipLayout {
+  const { size, zip64 } = planLayout(manifest ? [...entries, manifest] : entries);
+  return { size, zip64 };
+}
+
+// MS-DOS date/time, in UTC so the output doesn't depend on the server timezone
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear());
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function buildLocalHeader(entry: ZipRecord, layout: EntryLayout, zip64: boolean): Uint8Array {
+  const { nameBytes } = layout;
+  const buffer = new Uint8Array(localHeaderSize(nameBytes.length, zip64));
+  const view = new DataView(buffer.buffer);
+  const dos = toDosDateTime(entry.modifiedAt);
+
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAGS, true);
+  view.setUint16(8, 0, true); // method: stored
+  view.setUint16(10, dos.time, true);
+  view.setUint16(12, dos.date, true);
+  // CRC and sizes are written in the data descriptor
+  view.setUint32(14, 0, true);
+  view.setUint32(18, zip64 ? UINT32_MAX : 0, true);
+  view.setUint32(22, zip64 ? UINT32_MAX : 0, true);
+  view.setUint16(26, nameBytes.length, true);
+  view.setUint16(28, zip64 ? 20 : 0, true);
+  buffer.set(nameBytes, 30);
+
+  if (zip64) {
+    const extra = 30 + nameBytes.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 16, true);
+    // Sizes follow in the data descriptor
+    view.setBigUint64(extra + 4, BigInt(0), true);
+    view.setBigUint64(extra + 12, BigInt(0), true);
+  }
+
+  return buffer;
+}
+
+function buildDataDescriptor(entry: ZipRecord, crc: number, zip64: boolean): Uint8Array {
+  const buffer = new Uint8Array(descriptorSize(zip64));
+  const view = new DataView(buffer.buffer);
+
+  view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+  view.setUint32(4, crc, true);
+  if (zip64) {
+    view.setBigUint64(8, BigInt(entry.size), true);
+    view.setBigUint64(16, BigInt(entry.size), true);
+  } else {
+    view.setUint32(8, entry.size, true);
+    view.setUint32(12, entry.size, true);
+  }
+
+  return buffer;
+}
+
+function buildCentralHeader(entry: ZipRecord, layout: EntryLayout, crc: number, zip64: boolean): Uint8Array {
+  const { nameBytes } = layout;
+  const buffer = new Uint8Array(centralHeaderSize(nameBytes.length, zip64));
+  const view = new DataView(buffer.buffer);
+  const dos = toDosDateTime(entry.modifiedAt);
+  const version = zip64 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, (HOST_UNIX << 8) | version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, FLAGS, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, dos.time, true);
+  view.setUint16(14, dos.date, true);
+  view.setUint32(16, crc, true);
+  view.setUint32(20, zip64 ? UINT32_MAX : entry.size, true);
+  view.setUint32(24, zip64 ? UINT32_MAX : entry.size, true);
+  view.setUint16(28, nameBytes.length, true);
+  view.setUint16(30, zip64 ? 28 : 0, true);
+  view.setUint16(32, 0, true); // comment length
+  view.setUint16(34, 0, true); // disk number
+  view.setUint16(36, 0, true); // internal attributes
+  view.setUint32(38, EXTERNAL_ATTRIBUTES, true);
+  view.setUint32(42, zip64 ? UINT32_MAX : layout.headerOffset, true);
+  buffer.set(nameBytes, 46);
+
+  if (zip64) {
+    const extra = 46 + nameBytes.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 24, true);
+    view.setBigUint64(extra + 4, BigInt(entry.size), true);
+    view.setBigUint64(extra + 12, BigInt(entry.size), true);
+    view.setBigUint64(extra + 20, BigInt(layout.headerOffset), true);
+  }
+
+  return buffer;
+}
+
+function buildEndRecords(
+  zip64: boolean,
+  centralDirectoryOffset: number,
+  centralDirectorySize: number,
+  entryCount: number
+): Uint8Array {
+  const buffer = new Uint8Array(endRecordsSize(zip64));
+  const view = new DataView(buffer.buffer);
+  let pos = 0;
+
+  if (zip64) {
+    const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+
+    view.setUint32(0, ZIP64_END_SIGNATURE, true);
+    view.setBigUint64(4, BigInt(44), true); // size of the remaining record
+    view.setUint16(12, (HOST_UNIX << 8) | VERSION_ZIP64, true);
+    view.setUint16(14, VERSION_ZIP64, true);
+    view.setUint32(16, 0, true);
+    view.setUint32(20, 0, true);
+    view.setBigUint64(24, BigInt(entryCount), true);
+    view.setBigUint64(32, BigInt(entryCount), true);
+    view.setBigUint64(40, BigInt(centralDirectorySize), true);
+    view.setBigUint64(48, BigInt(centralDirectoryOffset), true);
+
+    view.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+    view.setUint32(60, 0, true);
+    view.setBigUint64(64, BigInt(zip64EndOffset), true);
+    view.setUint32(72, 1, true);
+
+    pos = 76;
+  }
+
+  view.setUint32(pos, END_SIGNATURE, true);
+  view.setUint16(pos + 4, 0, true);
+  view.setUint16(pos + 6, 0, true);
+  view.setUint16(pos + 8, zip64 ? UINT16_MAX : entryCount, true);
+  view.setUint16(pos + 10, zip64 ? UINT16_MAX : entryCount, true);
+  view.setUint32(pos + 12, zip64 ? UINT32_MAX : centralDirectorySize, true);
+  view.setUint32(pos + 16, zip64 ? UINT32_MAX : centralDirectoryOffset, true);
+  view.setUint16(pos + 20, 0, true);
+
+  return buffer;
+}
+
+/**
+ * Opens entry data in order, keeping up to `concurrency` entries open ahead of the one being written.
+ */
+function createPrefetcher(entries: ZipEntry[], indices: number[], concurrency: number) {
+  const inFlight = new Map<number, Promise<ReadableStream<Uint8Array>>>();
+  let nextToStart = 0;
+  let consumed = 0;
+
+  const fill = () => {
+    while (nextToStart < indices.length && nextToStart < consumed + concurrency) {
+      const index = indices[nextToStart++];
+      const promise = entries[index].getData();
+      // Failures surface when the entry is awaited; don't report them as unhandled before that
+      promise.catch(() => {});
+      inFlight.set(index, promise);
+    }
+  };
+
+  return {
+    async get(index: number): Promise<ReadableStream<Uint8Array>> {
+      fill();
+      const promise = inFlight.get(index) ?? entries[index].getData();
+      inFlight.delete(index);
+      consumed++;
+      fill();
+      return promise;
+    },
+    /** Let go of everything opened ahead, when the archive stops early */
+    close() {
+      for (const promise of inFlight.values()) {
+        promise.then(stream => stream.cancel().catch(() => {}), () => {});
+      }
+      inFlight.clear();
+    },
+  };
+}
+
+// Zeroed bytes of skipped entries are sent in chunks of this size
+const ZEROS = new Uint8Array(64 * 1024);
+
+async function* generateArchive(
+  entries: ZipEntry[],
+  manifest: ZipManifest | undefined,
+  options: ZipStreamOptions
+): AsyncGenerator<Uint8Array> {
+  const layout = planLayout(manifest ? [...entries, manifest] : entries);
+  const { zip64 } = layout;
+  const start = options.range?.start ?? 0;
+  const end = options.range?.end ?? layout.size - 1;
+
+  const overlaps = (from: number, to: number) => from <= end && to > start;
+  const clip = (bytes: Uint8Array, offset: number) =>
+    bytes.subarray(Math.max(start - offset, 0), Math.min(end + 1 - offset, bytes.length));
+
+  // The bytes from `from` to `to` (exclusive) of a skipped entry, as far as they're in range
+  function* zeros(from: number, to: number): Generator<Uint8Array> {
+    for (let offset = Math.max(from, start); offset < Math.min(to, end + 1); offset += ZEROS.length) {
+      yield ZEROS.subarray(0, Math.min(ZEROS.length, end + 1 - offset, to - offset));
+    }
+  }
+
+  const centralDirectoryInRange = overlaps(layout.centralDirectoryOffset, layout.size);
+  const crcs = entries.map(entry => entry.crc32 ?? null);
+  const skipped: number[] = [];
+
+  // Entries whose bytes are in range, or whose unknown CRC lands in range
+  const needsFetch = entries.map((entry, i) => {
+    const entryLayout = layout.entries[i];
+    if (overlaps(entryLayout.dataOffset, entryLayout.descriptorOffset)) {
+      return true;
+    }
+    return crcs[i] === null && (overlaps(entryLayout.descriptorOffset, entryLayout.endOffset) || centralDirectoryInRange);
+  });
+
+  const prefetcher = createPrefetcher(
+    entries,
+    needsFetch.flatMap((needed, i) => (needed ? [i] : [])),
+    options.concurrency ?? DEFAULT_CONCURRENCY
+  );
+
+  try {
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      const entryLayout = layout.entries[i];
+
+      if (entryLayout.headerOffset > end) {
+        return;
+      }
+
+      if (!needsFetch[i]) {
+        if (overlaps(entryLayout.headerOffset, entryLayout.dataOffset)) {
+          yield clip(buildLocalHeader(entry, entryLayout, zip64), entryLayout.headerOffset);
+        }
+        if (overlaps(entryLayout.descriptorOffset, entryLayout.endOffset)) {
+          yield clip(buildDataDescriptor(entry, crcs[i] as number, zip64), entryLayout.descriptorOffset);
+        }
+        continue;
+      }
+
+      // Everything before this offset has been sent
+      let position = entryLayout.headerOffset;
+      let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+      try {
+        reader = (await prefetcher.get(i)).getReader();
+
+        if (overlaps(entryLayout.headerOffset, entryLayout.dataOffset)) {
+          yield clip(buildLocalHeader(entry, entryLayout, zip64), entryLayout.headerOffset);
+        }
+        position = entryLayout.dataOffset;
+
+        let crc = 0;
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          if (position + value.length > entryLayout.descriptorOffset) {
+            throw new Error(`Size mismatch for ${entry.name}: more than ${entry.size} bytes`);
+          }
+          crc = crc32(value, crc);
+          if (overlaps(position, position + value.length)) {
+            yield clip(value, position);
+          }
+          position += value.length;
+          // Nothing further is in range, and the CRC only matters for the central directory
+          if (position > end && !centralDirectoryInRange) {
+            reader.cancel().catch(() => {});
+            return;
+          }
+        }
+        if (position !== entryLayout.descriptorOffset) {
+          throw new Error(`Size mismatch for ${entry.name}: expected ${entry.size}, got ${position - entryLayout.dataOffset}`);
+        }
+
+        if (crcs[i] === null) {
+          crcs[i] = crc;
+          options.onEntryChecksum?.(i, crc);
+        }
+      } catch (error) {
+        reader?.cancel().catch(() => {});
+        skipped.push(i);
+        options.onEntrySkipped?.(i, error);
+        yield* zeros(position, entryLayout.endOffset);
+        continue;
+      }
+
+      if (overlaps(entryLayout.descriptorOffset, entryLayout.endOffset)) {
+        yield clip(buildDataDescriptor(entry, crcs[i] as number, zip64), entryLayout.descriptorOffset);
+      }
+    }
+  } finally {
+    prefetcher.close();
+  }
+
+  // The manifest takes its reserved slot; whatever it doesn't use is zeroed
+  const manifestLayout = manifest ? layout.entries[entries.length] : null;
+  const manifestData = manifest ? manifest.build(skipped) : null;
+  const manifestRecord = manifest && manifestData ? { ...manifest, size: manifestData.length } : null;
+  let manifestCrc = 0;
+  if (manifestLayout) {
+    let position = manifestLayout.headerOffset;
+    if (manifestRecord && manifestData) {
+      if (manifestData.length > (manifest as ZipManifest).size) {
+        throw new Error(`${manifestRecord.name} is larger than its reserved ${(manifest as ZipManifest).size} bytes`);
+      }
+      manifestCrc = crc32(manifestData);
+      const bytes = [
+        buildLocalHeader(manifestRecord, manifestLayout, zip64),
+        manifestData,
+        buildDataDescriptor(manifestRecord, manifestCrc, zip64),
+      ];
+      for (const chunk of bytes) {
+        if (overlaps(position, position + chunk.length)) {
+          yield clip(chunk, position);
+        }
+        position += chunk.length;
+      }
+    }
+    yield* zeros(position, manifestLayout.endOffset);
+  }
+
+  if (!centralDirectoryInRange) {
+    return;
+  }
+
+  const skippedSet = new Set(skipped);
+  const headers: Uint8Array[] = [];
+  entries.forEach((entry, i) => {
+    if (!skippedSet.has(i)) {
+      headers.push(buildCentralHeader(entry, layout.entries[i], crcs[i] as number, zip64));
+    }
+  });
+  if (manifestRecord && manifestLayout) {
+    headers.push(buildCentralHeader(manifestRecord, manifestLayout, manifestCrc, zip64));
+  }
+  const centralDirectorySize = headers.reduce((sum, header) => sum + header.length, 0);
+
+  // Missing headers leave a gap in front of the central directory, so the size stays the same
+  let offset = layout.centralDirectoryOffset + layout.centralDirectorySize - centralDirectorySize;
+  yield* zeros(layout.centralDirectoryOffset, offset);
+
+  const centralDirectoryOffset = offset;
+  for (const header of headers) {
+    if (overlaps(offset, offset + header.length)) {
+      yield clip(header, offset);
+    }
+    offset += header.length;
+  }
+
+  yield clip(buildEndRecords(zip64, centralDirectoryOffset, centralDirectorySize, headers.length), offset);
+}
+
+/**
+ * Stream a ZIP archive of the given entries, optionally limited to a byte range.
+ * Data is streamed through, so memory use stays around `concurrency` open entries.
+ */
+export function createZipStream(
+  entries: ZipEntry[],
+  options: ZipStreamOptions & { manifest?: ZipManifest } = {}
+): ReadableStream<Uint8Array> {
+  const iterator = generateArchive(entries, options.manifest, options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Keep going until something is enqueued, otherwise the stream could stall
+        for (;;) {
+          const { value, done } = await iterator.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          if (value.length > 0) {
+            controller.enqueue(value);
+            return;
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}
@@ -1,6 +1,7 @@
 export interface SessionPayload {
   partyId: string;
   uploaderId: string;
+  jti: string; // Key into guest_sessions
   iat: number;
   exp: number;
 }
@@ -10,3 +11,10 @@ export interface SessionData {
   uploaderId: string;
   expiresAt: Date;
 }
+
+export interface AdminSessionPayload {
+  hostId: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
@@ -1,8 +1,75 @@
 // Re-export and alias the generated Supabase types
 import type { Database } from './supabase';
+import type { CropAspect, PhotoFilter, Rotation } from '@/lib/constants';
 
 export type PartyStatus = 'active' | 'closed';
 
+// 'off': no moderation, 'post': hosts can hide after display, 'pre': hosts approve before display
+export type ModerationMode = 'off' | 'post' | 'pre';
+
+export type PhotoStatus = 'pending' | 'visible' | 'hidden';
+
+// Videos are short clips; their TV version is a poster frame
+export type MediaType = 'photo' | 'video';
+
+// Party overlay as served by /api/parties/[partyId]/overlay (date is YYYY-MM-DD)
+export interface PartyOverlay {
+  frameUrl: string | null;
+  text: string | null;
+  date: string | null;
+  applyToOriginal: boolean;
+}
+
+// Guest edits, applied to the TV version and thumbnail; the original is kept as taken
+// (photos.edit), so the renditions can be made again from it
+export interface PhotoEdit {
+  aspect: CropAspect;
+  rotation: Rotation;
+  filter: PhotoFilter;
+}
+
+// Upload limits set by the hosts; null means no limit (maxOriginalSize: the client's default)
+export interface PartyUploadLimits {
+  maxPhotosPerGuest: number | null;
+  maxStorageBytes: number | null;
+  maxOriginalSize: number | null;
+}
+
+// A guest's standing against the limits, as served by /api/photos/quota
+export interface UploadQuota {
+  limits: PartyUploadLimits;
+  guestPhotos: number;
+  storageBytes: number;
+}
+
+// Whether a join token still lets guests in
+export type JoinTokenStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+// A join token as the hosts see it, without the token itself (that's PIN-protected)
+export interface JoinTokenInfo {
+  id: string;
+  label: string;
+  status: JoinTokenStatus;
+  expiresAt: string | null;
+  maxJoins: number | null;
+  joinCount: number;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// A guest as the hosts see it in the guest list
+export interface PartyGuest {
+  id: string;
+  displayName: string;
+  photoCount: number;
+  activeSessions: number; // Devices the guest is signed in on
+  banned: boolean;
+  joinedAt: string;
+}
+
+// The owner created the party (parties.host_id), co-hosts were invited via party_hosts
+export type PartyHostRole = 'owner' | 'cohost';
+
 // Base party type without admin PIN (for backward compatibility)
 export type PartyBase = Omit<Database['public']['Tables']['parties']['Row'], 'admin_pin_hash'>;
 
@@ -25,13 +92,7 @@ export type PartyFull = Database['public']['Tables']['parties']['Row'];
 export type Uploader = Database['public']['Tables']['uploaders']['Row'];
 export type Photo = Database['public']['Tables']['photos']['Row'];
 
-// Temporary type for party_join_tokens until we regenerate Supabase types
-export type PartyJoinToken = {
-  id: string;
-  party_id: string;
-  token: string;
-  created_at: string;
-};
+export type PartyJoinToken = Database['public']['Tables']['party_join_tokens']['Row'];
 
 // Insert types
 export type PartyInsert = Omit<Database['public']['Tables']['parties']['Insert'], 'admin_pin_hash'> & {
@@ -52,6 +113,17 @@ export interface PhotoWithUploader extends Photo {
   uploader: Pick<Uploader, 'display_name'> | null;
 }
 
+// A visible photo as the TV gets it from /api/parties/[partyId]/tv-photos, with signed URLs
+// for its files (fallback: a JPEG for browsers that can't decode the TV version's format)
+export interface TvPhoto extends PhotoWithUploader {
+  urls: {
+    tv: string | null;
+    fallback: string | null;
+    thumb: string | null;
+    clip: string | null;
+  };
+}
+
 // Type guards and utilities for admin PIN handling
 export function hasAdminPinSupport(party: PartyWithOptionalPin): party is PartyWithPin {
   return 'admin_pin_hash' in party;
@@ -34,14 +34,89 @@ export type Database = {
   }
   public: {
     Tables: {
+      guest_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          jti: string
+          party_id: string
+          revoked_at: string | null
+          uploader_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          jti: string
+          party_id: string
+          revoked_at?: string | null
+          uploader_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          jti?: string
+          party_id?: string
+          revoked_at?: string | null
+          uploader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_sessions_party_id_fkey"
+            columns: ["party_id"]
+            isOneToOne: false
+            referencedRelation: "parties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_sessions_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "uploaders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hosts: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          email: string
+          id: string
+          password_hash: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          email: string
+          id?: string
+          password_hash: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          email?: string
+          id?: string
+          password_hash?: string
+        }
+        Relationships: []
+      }
       parties: {
         Row: {
           admin_pin_hash: string | null
           closed_at: string | null
           countdown_target: string | null
           created_at: string
+          host_id: string | null
           id: string
+          max_original_size: number | null
+          max_photos_per_guest: number | null
+          max_storage_bytes: number | null
+          moderation_mode: string
           name: string | null
+          overlay_date: string | null
+          overlay_frame_path: string | null
+          overlay_on_original: boolean
+          overlay_text: string | null
           status: string
         }
         Insert: {
@@ -49,8 +124,17 @@ export type Database = {
           closed_at?: string | null
           countdown_target?: string | null
           created_at?: string
+          host_id?: string | null
           id?: string
+          max_original_size?: number | null
+          max_photos_per_guest?: number | null
+          max_storage_bytes?: number | null
+          moderation_mode?: string
           name?: string | null
+          overlay_date?: string | null
+          overlay_frame_path?: string | null
+          overlay_on_original?: boolean
+          overlay_text?: string | null
           status?: string
         }
         Update: {
@@ -58,22 +142,47 @@ export type Database = {
           closed_at?: string | null
           countdown_target?: string | null
           created_at?: string
+          host_id?: string | null
           id?: string
+          max_original_size?: number | null
+          max_photos_per_guest?: number | null
+          max_storage_bytes?: number | null
+          moderation_mode?: string
           name?: string | null
+          overlay_date?: string | null
+          overlay_frame_path?: string | null
+          overlay_on_original?: boolean
+          overlay_text?: string | null
           status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "parties_host_id_fkey"
+            columns: ["host_id"]
+            isOneToOne: false
+            referencedRelation: "hosts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       photos: {
         Row: {
           comment: string | null
           created_at: string
+          duration_ms: number | null
+          edit: Json | null
           id: string
+          media_type: string
           original_bytes: number | null
+          original_crc32: number | null
           original_mime: string | null
           original_path: string
           party_id: string
+          status: string
+          taken_at: string | null
+          thumb_path: string | null
           tv_bytes: number | null
+          tv_jpeg_path: string | null
           tv_mime: string | null
           tv_path: string
           uploader_id: string
@@ -81,12 +190,20 @@ export type Database = {
         Insert: {
           comment?: string | null
           created_at?: string
+          duration_ms?: number | null
+          edit?: Json | null
           id?: string
+          media_type?: string
           original_bytes?: number | null
+          original_crc32?: number | null
           original_mime?: string | null
           original_path: string
           party_id: string
+          status?: string
+          taken_at?: string | null
+          thumb_path?: string | null
           tv_bytes?: number | null
+          tv_jpeg_path?: string | null
           tv_mime?: string | null
           tv_path: string
           uploader_id: string
@@ -94,12 +211,20 @@ export type Database = {
         Update: {
           comment?: string | null
           created_at?: string
+          duration_ms?: number | null
+          edit?: Json | null
           id?: string
+          media_type?: string
           original_bytes?: number | null
+          original_crc32?: number | null
           original_mime?: string | null
           original_path?: string
           party_id?: string
+          status?: string
+          taken_at?: string | null
+          thumb_path?: string | null
           tv_bytes?: number | null
+          tv_jpeg_path?: string | null
           tv_mime?: string | null
           tv_path?: string
           uploader_id?: string
@@ -121,49 +246,128 @@ export type Database = {
           },
         ]
       }
+      party_hosts: {
+        Row: {
+          created_at: string
+          host_id: string
+          invited_by: string | null
+          party_id: string
+        }
+        Insert: {
+          created_at?: string
+          host_id: string
+          invited_by?: string | null
+          party_id: string
+        }
+        Update: {
+          created_at?: string
+          host_id?: string
+          invited_by?: string | null
+          party_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "party_hosts_host_id_fkey"
+            columns: ["host_id"]
+            isOneToOne: false
+            referencedRelation: "hosts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hosts_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "hosts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "party_hosts_party_id_fkey"
+            columns: ["party_id"]
+            isOneToOne: false
+            referencedRelation: "parties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       party_join_tokens: {
         Row: {
           id: string
           party_id: string
           token: string
           created_at: string
+          expires_at: string | null
+          join_count: number
+          label: string
+          max_joins: number | null
+          revoked_at: string | null
         }
         Insert: {
           id?: string
           party_id: string
           token: string
           created_at?: string
+          expires_at?: string | null
+          join_count?: number
+          label?: string
+          max_joins?: number | null
+          revoked_at?: string | null
         }
         Update: {
           id?: string
           party_id?: string
           token?: string
           created_at?: string
+          expires_at?: string | null
+          join_count?: number
+          label?: string
+          max_joins?: number | null
+          revoked_at?: string | null
         }
         Relationships: [
           {
             foreignKeyName: "party_join_tokens_party_id_fkey"
             columns: ["party_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "parties"
             referencedColumns: ["id"]
           },
         ]
       }
+      rate_limits: {
+        Row: {
+          count: number
+          key: string
+          reset_at: string
+        }
+        Insert: {
+          count: number
+          key: string
+          reset_at: string
+        }
+        Update: {
+          count?: number
+          key?: string
+          reset_at?: string
+        }
+        Relationships: []
+      }
       uploaders: {
         Row: {
+          banned_at: string | null
           created_at: string
           display_name: string | null
           id: string
           party_id: string
         }
         Insert: {
+          banned_at?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
           party_id: string
         }
         Update: {
+          banned_at?: string | null
           created_at?: string
           display_name?: string | null
           id?: string
@@ -184,7 +388,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_join_token: {
+        Args: { p_token_id: string }
+        Returns: boolean
+      }
+      insert_photo_within_limits: {
+        Args: { p_photo: Json }
+        Returns: {
+          photo_created_at: string | null
+          limit_code: string | null
+        }[]
+      }
+      merge_uploaders: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: number | null
+      }
+      party_storage_bytes: {
+        Args: { p_party_id: string }
+        Returns: number
+      }
+      prune_rate_limits: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      rate_limit_hit: {
+        Args: { p_key: string; p_window_ms: number }
+        Returns: {
+          count: number
+          reset_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,56 @@
+-- Add photo moderation support
+-- parties.moderation_mode:
+--   'off'  - photos go straight to the TV (previous behaviour)
+--   'post' - photos go straight to the TV, hosts can hide or delete them afterwards
+--   'pre'  - photos wait in a queue until a host approves them
+-- photos.status: 'pending' | 'visible' | 'hidden'
+
+ALTER TABLE parties
+ADD COLUMN moderation_mode TEXT NOT NULL DEFAULT 'off'
+CHECK (moderation_mode IN ('off', 'post', 'pre'));
+
+COMMENT ON COLUMN parties.moderation_mode IS 'Photo moderation mode: off, post (hide after the fact) or pre (approve before display)';
+
+ALTER TABLE photos
+ADD COLUMN status TEXT NOT NULL DEFAULT 'visible'
+CHECK (status IN ('pending', 'visible', 'hidden'));
+
+COMMENT ON COLUMN photos.status IS 'Moderation status: pending (awaiting approval), visible or hidden';
+
+-- Index for the moderation queue and for TV/download queries filtering by status
+CREATE INDEX idx_photos_party_status ON photos(party_id, status);
+
+-- Decide the initial status server-side so clients cannot skip the approval queue
+CREATE OR REPLACE FUNCTION set_photo_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT moderation_mode FROM parties WHERE id = NEW.party_id) = 'pre' THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'visible';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER photos_set_initial_status
+BEFORE INSERT ON photos
+FOR EACH ROW
+EXECUTE FUNCTION set_photo_initial_status();
+
+-- Pending and hidden photos must only reach the hosts. The anon key reads visible rows
+-- only, which also keeps them out of the TV's Realtime feed, and the files go private:
+-- the API hands out signed URLs for what each reader may see.
+DROP POLICY IF EXISTS "Photos are viewable by everyone" ON photos;
+
+CREATE POLICY "Visible photos are viewable by everyone" ON photos
+  FOR SELECT USING (status = 'visible');
+
+UPDATE storage.buckets SET public = false WHERE id = 'photobooze-images';
+
+-- Files are read through signed URLs and written through signed upload URLs (or the
+-- service role), none of which need these; they let the anon key read or replace any file
+DROP POLICY IF EXISTS "Public Access" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete" ON storage.objects;
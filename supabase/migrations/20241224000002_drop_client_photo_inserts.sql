@@ -0,0 +1,5 @@
+-- Photo records are now created server-side by POST /api/photos/finalize,
+-- which checks the session and the uploaded objects before inserting.
+-- The open insert policy let anyone with the anon key forge rows for any
+-- party or uploader, so remove it. The service role bypasses RLS.
+DROP POLICY IF EXISTS "Allow photo inserts from clients" ON photos;
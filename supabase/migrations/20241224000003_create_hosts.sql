@@ -0,0 +1,18 @@
+-- Host accounts for the admin area
+-- Hosts sign in with email + password and only manage the parties they own
+CREATE TABLE hosts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(email)),
+  password_hash TEXT NOT NULL,
+  display_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only the service role (API routes and scripts) may read or write hosts
+ALTER TABLE hosts ENABLE ROW LEVEL SECURITY;
+
+-- Party ownership. Parties created before host accounts existed stay unowned
+-- until claimed with scripts/create-host.mjs --claim-unowned
+ALTER TABLE parties ADD COLUMN host_id UUID REFERENCES hosts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_parties_host_id ON parties(host_id);
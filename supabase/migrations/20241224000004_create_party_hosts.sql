@@ -0,0 +1,15 @@
+-- Co-hosts: additional host accounts allowed to manage a party
+-- The owner stays in parties.host_id; only invited co-hosts are stored here
+CREATE TABLE party_hosts (
+  party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL REFERENCES hosts(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES hosts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (party_id, host_id)
+);
+
+-- Fast lookup of the parties a host co-hosts
+CREATE INDEX idx_party_hosts_host_id ON party_hosts(host_id);
+
+-- Only the service role (API routes) may read or write co-hosts
+ALTER TABLE party_hosts ENABLE ROW LEVEL SECURITY;
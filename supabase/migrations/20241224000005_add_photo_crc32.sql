@@ -0,0 +1,3 @@
+-- CRC-32 of the original file, filled in the first time a photo is streamed into a ZIP
+-- download. Resumed (Range) downloads can then skip fetching photos before the resume point.
+ALTER TABLE photos ADD COLUMN original_crc32 BIGINT;
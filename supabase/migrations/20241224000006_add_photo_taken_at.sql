@@ -0,0 +1,4 @@
+-- Capture time from the photo's EXIF DateTimeOriginal, read on the guest's device before
+-- the metadata is stripped. NULL when the photo had none (screenshots, edited images...);
+-- consumers fall back to created_at.
+ALTER TABLE photos ADD COLUMN taken_at TIMESTAMPTZ;
@@ -0,0 +1,4 @@
+-- TV renditions can be AVIF (or WebP) when the guest's browser can encode them
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif']
+WHERE id = 'photobooze-images';
@@ -0,0 +1,3 @@
+-- Small (~400px) rendition for grids and the remote. NULL for photos uploaded before
+-- thumbnails existed (until scripts/backfill-thumbnails.mjs has run); consumers fall back to tv_path.
+ALTER TABLE photos ADD COLUMN thumb_path TEXT;
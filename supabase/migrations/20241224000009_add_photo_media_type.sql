@@ -0,0 +1,23 @@
+-- Short video clips (and Live Photos) alongside photos
+-- photos.media_type: 'photo' | 'video'
+-- For clips, original_path is the clip itself and tv_path a JPEG poster frame.
+
+ALTER TABLE photos
+ADD COLUMN media_type TEXT NOT NULL DEFAULT 'photo'
+CHECK (media_type IN ('photo', 'video'));
+
+COMMENT ON COLUMN photos.media_type IS 'photo, or video for short clips (original is the clip, TV version its poster frame)';
+
+ALTER TABLE photos
+ADD COLUMN duration_ms INTEGER
+CHECK (duration_ms > 0);
+
+COMMENT ON COLUMN photos.duration_ms IS 'Clip length, set for videos only';
+
+-- Clips go in the same bucket as photos
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif',
+  'video/mp4', 'video/quicktime', 'video/webm'
+]
+WHERE id = 'photobooze-images';
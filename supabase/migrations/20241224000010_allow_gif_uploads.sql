@@ -0,0 +1,7 @@
+-- Webcam boomerangs are animated GIFs, uploaded as-is and shown on the TV as the original
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif', 'image/heic', 'image/heif',
+  'video/mp4', 'video/quicktime', 'video/webm'
+]
+WHERE id = 'photobooze-images';
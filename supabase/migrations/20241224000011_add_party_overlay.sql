@@ -0,0 +1,14 @@
+-- Party-branded overlay stamped on photos at capture time
+-- A PNG frame stretched over the photo, plus a line of text and a date along the bottom.
+-- The guest's browser draws it onto the TV version, and onto the original when the host asks.
+
+ALTER TABLE parties
+ADD COLUMN overlay_frame_path TEXT,
+ADD COLUMN overlay_text TEXT,
+ADD COLUMN overlay_date DATE,
+ADD COLUMN overlay_on_original BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN parties.overlay_frame_path IS 'PNG frame in storage (parties/{id}/overlay/), NULL for none';
+COMMENT ON COLUMN parties.overlay_text IS 'Text stamped on photos, e.g. the couple''s names';
+COMMENT ON COLUMN parties.overlay_date IS 'Date stamped under the text';
+COMMENT ON COLUMN parties.overlay_on_original IS 'Stamp the original too, not just the TV version';
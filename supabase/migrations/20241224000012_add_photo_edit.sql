@@ -0,0 +1,8 @@
+-- Guest edits made before sending a photo: a centred crop, quarter turns and a filter
+-- The browser applies them to the TV version and thumbnail only; the original is stored as taken,
+-- so the renditions can be regenerated from it with the same edit.
+
+ALTER TABLE photos
+ADD COLUMN edit JSONB;
+
+COMMENT ON COLUMN photos.edit IS 'Edit applied to the renditions: {"aspect": "original" | "1:1" | ..., "rotation": 0 | 90 | 180 | 270, "filter": "none" | "bw" | "warm" | "vintage"}, NULL if unedited';
@@ -0,0 +1,30 @@
+-- Per-party upload limits, set by the hosts
+-- NULL means no limit (for the resolution, the client's default 4096px cap).
+-- prepare-upload and finalize enforce the photo count and storage; the guest's browser
+-- applies the resolution cap when it shrinks the original.
+
+ALTER TABLE parties
+ADD COLUMN max_photos_per_guest INTEGER CHECK (max_photos_per_guest > 0),
+ADD COLUMN max_storage_bytes BIGINT CHECK (max_storage_bytes > 0),
+ADD COLUMN max_original_size INTEGER CHECK (max_original_size > 0);
+
+COMMENT ON COLUMN parties.max_photos_per_guest IS 'Most photos and clips one guest can upload, NULL for no limit';
+COMMENT ON COLUMN parties.max_storage_bytes IS 'Most bytes the party can store (originals plus separate TV versions), NULL for no limit';
+COMMENT ON COLUMN parties.max_original_size IS 'Longest side of stored originals in pixels, NULL for the default';
+
+-- Bytes stored for a party, summed in the database rather than over every row in the API
+CREATE OR REPLACE FUNCTION party_storage_bytes(p_party_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(
+    COALESCE(original_bytes, 0) +
+    CASE WHEN tv_path <> original_path THEN COALESCE(tv_bytes, 0) ELSE 0 END
+  ), 0)::BIGINT
+  FROM photos
+  WHERE party_id = p_party_id;
+$$;
+
+-- Only the API (service role) needs it
+REVOKE EXECUTE ON FUNCTION party_storage_bytes(UUID) FROM PUBLIC, anon, authenticated;
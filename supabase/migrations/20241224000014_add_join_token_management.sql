@@ -0,0 +1,46 @@
+-- Several named join tokens per party (e.g. "Table cards", "TV screen", "Invite email"),
+-- each with an optional expiry and join limit, and revocable without touching the others.
+-- Existing tokens keep working: no expiry, no limit.
+
+ALTER TABLE party_join_tokens
+ADD COLUMN label TEXT NOT NULL DEFAULT 'QR code',
+ADD COLUMN expires_at TIMESTAMPTZ,
+ADD COLUMN max_joins INTEGER CHECK (max_joins > 0),
+ADD COLUMN join_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN party_join_tokens.label IS 'Where the host uses this QR code, shown in the admin and the stats';
+COMMENT ON COLUMN party_join_tokens.expires_at IS 'Joins are refused after this time, NULL for never';
+COMMENT ON COLUMN party_join_tokens.max_joins IS 'Most joins through this token, NULL for no limit';
+COMMENT ON COLUMN party_join_tokens.join_count IS 'Joins through this token so far (returning guests count again)';
+COMMENT ON COLUMN party_join_tokens.revoked_at IS 'When the host revoked the token, NULL while it is usable';
+
+-- Tokens are managed through the API (service role, which bypasses RLS). With these open
+-- policies anyone holding the anon key could list every party's tokens or lift a
+-- revocation, expiry or join limit; without them RLS refuses anon and authenticated access.
+DROP POLICY IF EXISTS "Anyone can read party join tokens" ON party_join_tokens;
+DROP POLICY IF EXISTS "Service can insert party join tokens" ON party_join_tokens;
+DROP POLICY IF EXISTS "Service can update party join tokens" ON party_join_tokens;
+DROP POLICY IF EXISTS "Service can delete party join tokens" ON party_join_tokens;
+
+-- Count a join against a token, in one statement with the expiry, limit and revocation
+-- checks so two guests can't both take the last join. Returns false if the token can't be used.
+CREATE OR REPLACE FUNCTION claim_join_token(p_token_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH claimed AS (
+    UPDATE party_join_tokens
+    SET join_count = join_count + 1
+    WHERE id = p_token_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now())
+      AND (max_joins IS NULL OR join_count < max_joins)
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+-- Only the API (service role) needs it
+REVOKE EXECUTE ON FUNCTION claim_join_token(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,40 @@
+-- Rate limit counters shared by every server instance (RATE_LIMIT_STORE=postgres).
+-- One row per rule and IP, party or uploader; a row whose window has ended starts over
+-- on its next hit. Only the API (service role) touches it.
+
+CREATE TABLE rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- No policies: anon and authenticated clients can't read or write it
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count a hit in one statement so concurrent requests can't both see the old count
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (count INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE sql
+VOLATILE
+AS $$
+  INSERT INTO rate_limits AS r (key, count, reset_at)
+  VALUES (p_key, 1, now() + make_interval(secs => p_window_ms / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN r.reset_at <= now() THEN 1 ELSE r.count + 1 END,
+    reset_at = CASE WHEN r.reset_at <= now() THEN EXCLUDED.reset_at ELSE r.reset_at END
+  RETURNING r.count, r.reset_at;
+$$;
+
+-- Drop counters whose window ended a while ago
+CREATE OR REPLACE FUNCTION prune_rate_limits()
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+AS $$
+  DELETE FROM rate_limits WHERE reset_at < now() - INTERVAL '1 hour';
+$$;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_rate_limits() FROM PUBLIC, anon, authenticated;
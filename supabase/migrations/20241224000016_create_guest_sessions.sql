@@ -0,0 +1,21 @@
+-- Guest sessions, one row per session cookie (the JWT's jti). The cookie is still what
+-- authenticates a guest; this list lets a guest sign out for real and a host kick a guest
+-- before the cookie expires. Only the API (service role) touches it.
+
+CREATE TABLE guest_sessions (
+  jti UUID PRIMARY KEY,
+  party_id UUID NOT NULL REFERENCES parties(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES uploaders(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+COMMENT ON COLUMN guest_sessions.expires_at IS 'Pushed back each time the session is refreshed';
+COMMENT ON COLUMN guest_sessions.revoked_at IS 'When the guest signed out or a host kicked them, NULL while the session is usable';
+
+CREATE INDEX idx_guest_sessions_uploader_id ON guest_sessions(uploader_id);
+CREATE INDEX idx_guest_sessions_expires_at ON guest_sessions(expires_at);
+
+-- No policies: anon and authenticated clients can't read or write it
+ALTER TABLE guest_sessions ENABLE ROW LEVEL SECURITY;
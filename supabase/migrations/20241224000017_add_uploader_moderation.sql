@@ -0,0 +1,39 @@
+-- Host tools for guests: ban an uploader (their sessions are revoked by the API and the
+-- name can't be used to join again) and merge duplicates ("Anna" and "anna ") into one.
+
+ALTER TABLE uploaders
+ADD COLUMN banned_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN uploaders.banned_at IS 'When a host banned this guest, NULL otherwise';
+
+-- Move a guest's photos to another guest of the same party and delete the duplicate,
+-- in one transaction so a failure can't leave photos split between the two.
+-- Deleting the duplicate also deletes its guest_sessions, signing those devices out.
+-- Returns how many photos were moved, or NULL if the two aren't guests of the same party.
+CREATE OR REPLACE FUNCTION merge_uploaders(p_source_id UUID, p_target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  IF p_source_id = p_target_id OR NOT EXISTS (
+    SELECT 1
+    FROM uploaders source
+    JOIN uploaders target ON target.party_id = source.party_id
+    WHERE source.id = p_source_id AND target.id = p_target_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE photos SET uploader_id = p_target_id WHERE uploader_id = p_source_id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  DELETE FROM uploaders WHERE id = p_source_id;
+
+  RETURN moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_uploaders(UUID, UUID) FROM PUBLIC, anon, authenticated;
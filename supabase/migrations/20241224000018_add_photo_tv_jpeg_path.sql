@@ -0,0 +1,3 @@
+-- JPEG copy of an AVIF or WebP TV rendition, for TV browsers that can't decode the format.
+-- NULL when the TV rendition is already a JPEG (or a clip poster, or a GIF).
+ALTER TABLE photos ADD COLUMN tv_jpeg_path TEXT;
@@ -0,0 +1,62 @@
+-- Insert a finalized photo only if it keeps the party within its upload limits.
+-- The check and the insert share one transaction and a lock on the party row, so
+-- parallel finalizes can't each see room for one more photo and all get in.
+-- Returns the photo's created_at, or the limit it would break (PHOTO_LIMIT_REACHED or
+-- STORAGE_FULL) with nothing inserted. A photo that already exists raises unique_violation.
+CREATE OR REPLACE FUNCTION insert_photo_within_limits(p_photo JSONB)
+RETURNS TABLE (photo_created_at TIMESTAMPTZ, limit_code TEXT)
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  new_photo photos;
+  party parties;
+  guest_photos INTEGER;
+BEGIN
+  new_photo := jsonb_populate_record(NULL::photos, p_photo);
+
+  SELECT * INTO party FROM parties WHERE id = new_photo.party_id FOR UPDATE;
+
+  IF EXISTS (SELECT 1 FROM photos WHERE id = new_photo.id) THEN
+    RAISE unique_violation USING MESSAGE = 'Photo already saved';
+  END IF;
+
+  IF party.max_photos_per_guest IS NOT NULL THEN
+    SELECT COUNT(*) INTO guest_photos
+    FROM photos
+    WHERE party_id = new_photo.party_id AND uploader_id = new_photo.uploader_id;
+
+    IF guest_photos + 1 > party.max_photos_per_guest THEN
+      RETURN QUERY SELECT NULL::TIMESTAMPTZ, 'PHOTO_LIMIT_REACHED'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF party.max_storage_bytes IS NOT NULL AND
+    party_storage_bytes(new_photo.party_id) +
+    COALESCE(new_photo.original_bytes, 0) +
+    CASE WHEN new_photo.tv_path <> new_photo.original_path THEN COALESCE(new_photo.tv_bytes, 0) ELSE 0 END
+    > party.max_storage_bytes
+  THEN
+    RETURN QUERY SELECT NULL::TIMESTAMPTZ, 'STORAGE_FULL'::TEXT;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO photos (
+    id, party_id, uploader_id, original_path, tv_path, tv_jpeg_path, thumb_path,
+    original_mime, tv_mime, original_bytes, tv_bytes, comment, taken_at,
+    media_type, duration_ms, edit
+  )
+  VALUES (
+    new_photo.id, new_photo.party_id, new_photo.uploader_id, new_photo.original_path,
+    new_photo.tv_path, new_photo.tv_jpeg_path, new_photo.thumb_path,
+    new_photo.original_mime, new_photo.tv_mime, new_photo.original_bytes, new_photo.tv_bytes,
+    new_photo.comment, new_photo.taken_at, new_photo.media_type, new_photo.duration_ms, new_photo.edit
+  )
+  RETURNING photos.created_at, NULL::TEXT;
+END;
+$$;
+
+-- Only the API (service role) needs it
+REVOKE EXECUTE ON FUNCTION insert_photo_within_limits(JSONB) FROM PUBLIC, anon, authenticated;